@@ -2,9 +2,21 @@
  * Tests for IndexerClient - verifies all API endpoint methods
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { NetworkClient, NetworkResponse } from '@sudobility/types';
 import { IndexerClient } from '../network/IndexerClient';
+import { fetchAll } from '../network/pagination';
+import {
+  IndexerCancelledError,
+  IndexerHttpError,
+  IndexerNotFoundError,
+  IndexerRateLimitError,
+  IndexerResponseValidationError,
+  IndexerValidationError,
+  isIndexerCancelledError,
+  isIndexerHttpError,
+  isIndexerNetworkError,
+} from '../network/errors';
 
 // Helper to create a mock NetworkClient
 const createMockNetworkClient = (): NetworkClient => ({
@@ -170,6 +182,20 @@ describe('IndexerClient', () => {
     });
   });
 
+  describe('getMarketDetailStats', () => {
+    it('should fetch stats for a market', async () => {
+      const mockData = { success: true, data: { totalVolume: '100' } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      const result = await client.getMarketDetailStats('1-market-123');
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(
+        `${BASE_URL}/api/markets/1-market-123/stats`
+      );
+      expect(result).toEqual(mockData);
+    });
+  });
+
   // =====================================================================
   // PREDICTION ENDPOINTS
   // =====================================================================
@@ -288,6 +314,22 @@ describe('IndexerClient', () => {
     });
   });
 
+  describe('getDealerStats', () => {
+    it('should fetch stats for a dealer', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess({ success: true, data: {} }));
+
+      await client.getDealerStats('1-1');
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(`${BASE_URL}/api/dealers/1-1/stats`);
+    });
+
+    it('should throw IndexerNotFoundError for an unknown dealer', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(404, 'Dealer not found'));
+
+      await expect(client.getDealerStats('1-9')).rejects.toBeInstanceOf(IndexerNotFoundError);
+    });
+  });
+
   // =====================================================================
   // WITHDRAWAL ENDPOINTS
   // =====================================================================
@@ -449,6 +491,195 @@ describe('IndexerClient', () => {
     });
   });
 
+  // =====================================================================
+  // WALLET BALANCE ENDPOINTS
+  // =====================================================================
+
+  describe('getWalletBalance', () => {
+    it('should fetch the balance summary of a wallet', async () => {
+      const mockData = { success: true, data: { totalStaked: '100' } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      const result = await client.getWalletBalance('0xwallet');
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(`${BASE_URL}/api/wallet/0xwallet/balance`);
+      expect(result).toEqual(mockData);
+    });
+  });
+
+  describe('getWalletBalanceDetail', () => {
+    it('should fetch the per-market balance of a wallet', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess({ success: true, data: {} }));
+
+      await client.getWalletBalanceDetail('0xwallet');
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(
+        `${BASE_URL}/api/wallet/0xwallet/balance/detail`
+      );
+    });
+  });
+
+  describe('getWalletTransactions', () => {
+    it('should append wallet transaction filters', async () => {
+      const mockData = { success: true, data: [], pagination: { totalCount: 0 } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      await client.getWalletTransactions('0xwallet', {
+        market: '1-market-1',
+        limit: 10,
+        offset: 5,
+      });
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(
+        `${BASE_URL}/api/wallet/0xwallet/transactions?market=1-market-1&limit=10&offset=5`
+      );
+    });
+  });
+
+  describe('getWalletHistory', () => {
+    it('should fetch the history of a wallet', async () => {
+      const mockData = { success: true, data: [], pagination: { totalCount: 0 } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      await client.getWalletHistory('0xwallet');
+      await client.getWalletHistory('0xwallet', { limit: 20 });
+
+      expect(mockNetworkClient.get).toHaveBeenNthCalledWith(
+        1,
+        `${BASE_URL}/api/wallet/0xwallet/history`
+      );
+      expect(mockNetworkClient.get).toHaveBeenNthCalledWith(
+        2,
+        `${BASE_URL}/api/wallet/0xwallet/history?limit=20`
+      );
+    });
+
+    it('should throw on API error', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(500, 'Internal error'));
+
+      await expect(client.getWalletHistory('0xwallet')).rejects.toThrow(
+        'API Error (500): Internal error'
+      );
+    });
+  });
+
+  // =====================================================================
+  // PAGINATION
+  // =====================================================================
+
+  describe('pagination', () => {
+    const page = (ids: string[], hasNextPage?: boolean) =>
+      mockSuccess({
+        success: true,
+        data: ids.map(id => ({ id })),
+        pagination: { hasNextPage, pageSize: ids.length },
+      });
+
+    it('should walk pages until hasNextPage is false', async () => {
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(page(['a', 'b'], true))
+        .mockResolvedValueOnce(page(['c', 'd'], true))
+        .mockResolvedValueOnce(page(['e'], false));
+
+      const markets = await fetchAll(client.iterateMarkets({ status: 'Active' }, { pageSize: 2 }));
+
+      expect(markets.map(m => m.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+      const urls = vi.mocked(mockNetworkClient.get).mock.calls.map(call => call[0]);
+      expect(urls).toEqual([
+        `${BASE_URL}/api/markets/list?status=Active&limit=2`,
+        `${BASE_URL}/api/markets/list?status=Active&limit=2&offset=2`,
+        `${BASE_URL}/api/markets/list?status=Active&limit=2&offset=4`,
+      ]);
+    });
+
+    it('should fall back to totalCount and short pages', async () => {
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(
+          mockSuccess({
+            success: true,
+            data: [{ id: 'a' }, { id: 'b' }],
+            pagination: { totalCount: 3 },
+          })
+        )
+        .mockResolvedValueOnce(
+          mockSuccess({ success: true, data: [{ id: 'c' }], pagination: { totalCount: 3 } })
+        );
+
+      const predictions = await fetchAll(client.iteratePredictions({ user: '0xuser', limit: 2 }));
+
+      expect(predictions).toHaveLength(3);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop on an empty page', async () => {
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(mockSuccess({ success: true, data: [{ id: 'a' }], pagination: {} }))
+        .mockResolvedValueOnce(mockSuccess({ success: true, data: [], pagination: {} }));
+
+      const dealers = await fetchAll(client.iterateDealers({}, { pageSize: 1 }));
+
+      expect(dealers).toHaveLength(1);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should respect maxItems and shrink the last page', async () => {
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(page(['a', 'b'], true))
+        .mockResolvedValueOnce(page(['c'], true));
+
+      const withdrawals = await fetchAll(
+        client.iterateWithdrawals({}, { pageSize: 2, maxItems: 3 })
+      );
+
+      expect(withdrawals.map(w => w.id)).toEqual(['a', 'b', 'c']);
+      expect(vi.mocked(mockNetworkClient.get).mock.calls[1][0]).toBe(
+        `${BASE_URL}/api/withdrawals?limit=1&offset=2`
+      );
+    });
+
+    it('should start from the filter offset', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValueOnce(page(['a'], false));
+
+      await fetchAll(client.iterateFavorites('0xabc', { offset: 10 }));
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(
+        `${BASE_URL}/api/wallet/0xabc/favorites?limit=100&offset=10`
+      );
+    });
+
+    it('should walk every page of a wallet history', async () => {
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(page(['a', 'b'], true))
+        .mockResolvedValueOnce(page(['c'], false));
+
+      const items = await fetchAll(client.iterateWalletHistory('0xabc', { limit: 2 }));
+
+      expect(items.map(item => item.id)).toEqual(['a', 'b', 'c']);
+      expect(vi.mocked(mockNetworkClient.get).mock.calls[1][0]).toBe(
+        `${BASE_URL}/api/wallet/0xabc/history?limit=2&offset=2`
+      );
+    });
+
+    it('should stop with IndexerCancelledError when aborted between pages', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(page(['a', 'b'], true));
+
+      const seen: string[] = [];
+      const iterate = async () => {
+        for await (const request of client.iterateOracleRequests(
+          {},
+          { signal: controller.signal }
+        )) {
+          seen.push(request.id);
+          controller.abort();
+        }
+      };
+
+      await expect(iterate()).rejects.toBeInstanceOf(IndexerCancelledError);
+      expect(seen).toEqual(['a', 'b']);
+    });
+  });
+
   // =====================================================================
   // ANALYTICS ENDPOINTS
   // =====================================================================
@@ -465,6 +696,18 @@ describe('IndexerClient', () => {
     });
   });
 
+  describe('getCategoryCounts', () => {
+    it('should fetch market counts per category', async () => {
+      const mockData = { success: true, data: [{ category: 'sports', count: 3 }] };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      const result = await client.getCategoryCounts();
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(`${BASE_URL}/api/stats/categories`);
+      expect(result).toEqual(mockData);
+    });
+  });
+
   describe('getHealth', () => {
     it('should fetch health status', async () => {
       const mockData = { success: true, data: { status: 'healthy' } };
@@ -477,6 +720,151 @@ describe('IndexerClient', () => {
     });
   });
 
+  describe('status endpoints', () => {
+    it.each([
+      ['getApiInfo', '/api'],
+      ['getServiceHealth', '/api/health/services'],
+      ['getSportsHealth', '/api/sports/health'],
+      ['getSSEStats', '/api/events/stats'],
+    ] as const)('%s should fetch %s', async (method, path) => {
+      const mockData = { success: true, data: { status: 'ok' } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      const result = await client[method]();
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(`${BASE_URL}${path}`);
+      expect(result).toEqual(mockData);
+    });
+
+    it('should throw IndexerError when service health fails', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(503, 'Service unavailable'));
+
+      await expect(client.getServiceHealth()).rejects.toThrow(
+        'API Error (503): Service unavailable'
+      );
+    });
+  });
+
+  // =====================================================================
+  // DISCUSSION MODERATION
+  // =====================================================================
+
+  describe('moderateComment', () => {
+    it('should PUT the moderation request with the bearer token', async () => {
+      const mockData = {
+        success: true,
+        data: { id: 42, content: 'hi', createdAt: '', moderationStatus: 'approved' },
+      };
+      vi.mocked(mockNetworkClient.put).mockResolvedValue(mockSuccess(mockData));
+
+      const result = await client.moderateComment('token', 42, { status: 'approved' });
+
+      expect(mockNetworkClient.put).toHaveBeenCalledWith(
+        `${BASE_URL}/api/discussions/comments/42/moderation`,
+        { status: 'approved' },
+        { headers: { Authorization: 'Bearer token' } }
+      );
+      expect(result).toEqual(mockData);
+    });
+
+    it('should throw when the caller is not an admin', async () => {
+      vi.mocked(mockNetworkClient.put).mockResolvedValue(mockError(403, 'Forbidden'));
+
+      await expect(client.moderateComment('token', 42, { status: 'rejected' })).rejects.toThrow(
+        'API Error (403): Forbidden'
+      );
+    });
+  });
+
+  describe('comment editing, replies, reactions and reports', () => {
+    const auth = { headers: { Authorization: 'Bearer token' } };
+    const comment = { success: true, data: { id: 43, content: 'hi', createdAt: '' } };
+    const reactions = { success: true, data: [{ reaction: '🔥', count: 1, reacted: true }] };
+
+    it('should PUT an edit', async () => {
+      vi.mocked(mockNetworkClient.put).mockResolvedValue(mockSuccess(comment));
+
+      await client.editComment('token', 43, { content: 'hi' });
+
+      expect(mockNetworkClient.put).toHaveBeenCalledWith(
+        `${BASE_URL}/api/discussions/comments/43`,
+        { content: 'hi' },
+        auth
+      );
+    });
+
+    it('should POST a reply under its parent', async () => {
+      vi.mocked(mockNetworkClient.post).mockResolvedValue(mockSuccess(comment));
+
+      const result = await client.replyToComment('token', 42, { content: 'hi' });
+
+      expect(mockNetworkClient.post).toHaveBeenCalledWith(
+        `${BASE_URL}/api/discussions/comments/42/replies`,
+        { content: 'hi' },
+        auth
+      );
+      expect(result).toEqual(comment);
+    });
+
+    it('should list reactions, authenticating only when given a token', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(reactions));
+
+      await client.getCommentReactions(42);
+      await client.getCommentReactions(42, 'token');
+
+      const url = `${BASE_URL}/api/discussions/comments/42/reactions`;
+      expect(mockNetworkClient.get).toHaveBeenNthCalledWith(1, url);
+      expect(mockNetworkClient.get).toHaveBeenNthCalledWith(2, url, auth);
+    });
+
+    it('should add and remove reactions', async () => {
+      vi.mocked(mockNetworkClient.post).mockResolvedValue(mockSuccess(reactions));
+      vi.mocked(mockNetworkClient.delete).mockResolvedValue(mockSuccess(reactions));
+
+      await client.addReaction('token', 42, '🔥');
+      await client.removeReaction('token', 42, '🔥');
+
+      expect(mockNetworkClient.post).toHaveBeenCalledWith(
+        `${BASE_URL}/api/discussions/comments/42/reactions`,
+        { reaction: '🔥' },
+        auth
+      );
+      expect(mockNetworkClient.delete).toHaveBeenCalledWith(
+        `${BASE_URL}/api/discussions/comments/42/reactions/${encodeURIComponent('🔥')}`,
+        auth
+      );
+    });
+
+    it('should POST a report', async () => {
+      vi.mocked(mockNetworkClient.post).mockResolvedValue(
+        mockSuccess({ success: true, data: { message: 'Reported' } })
+      );
+
+      await client.reportComment('token', 42, { reason: 'spam' });
+
+      expect(mockNetworkClient.post).toHaveBeenCalledWith(
+        `${BASE_URL}/api/discussions/comments/42/report`,
+        { reason: 'spam' },
+        auth
+      );
+    });
+  });
+
+  describe('getModerationQueue', () => {
+    it('should fetch the queue filtered by status', async () => {
+      const mockData = { success: true, data: { comments: [], pagination: {} } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      const result = await client.getModerationQueue('token', { status: 'pending', limit: 20 });
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(
+        `${BASE_URL}/api/discussions/moderation?status=pending&limit=20`,
+        { headers: { Authorization: 'Bearer token' } }
+      );
+      expect(result).toEqual(mockData);
+    });
+  });
+
   // =====================================================================
   // URL BUILDING
   // =====================================================================
@@ -521,5 +909,410 @@ describe('IndexerClient', () => {
 
       await expect(client.getMarkets()).rejects.toThrow('API Error (400): Specific error message');
     });
+
+    it('should throw typed errors carrying status, url and body', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(404, 'Market not found'));
+
+      const error = await client.getMarket('m1').catch(e => e);
+      expect(error).toBeInstanceOf(IndexerNotFoundError);
+      expect(isIndexerHttpError(error)).toBe(true);
+      expect(error.status).toBe(404);
+      expect(error.url).toBe(`${BASE_URL}/api/markets/m1`);
+      expect(error.operation).toBe('get market');
+      expect(error.body).toEqual({ error: 'Market not found' });
+    });
+
+    it('should pick the error class from the status', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValueOnce(mockError(400));
+      await expect(client.getMarkets()).rejects.toBeInstanceOf(IndexerValidationError);
+
+      vi.mocked(mockNetworkClient.get).mockResolvedValueOnce(mockError(422));
+      await expect(client.getMarkets()).rejects.toBeInstanceOf(IndexerValidationError);
+
+      vi.mocked(mockNetworkClient.get).mockResolvedValueOnce({
+        ...mockError(429),
+        headers: { 'Retry-After': '3' },
+      });
+      const rateLimited = await client.getMarkets().catch(e => e);
+      expect(rateLimited).toBeInstanceOf(IndexerRateLimitError);
+      expect(rateLimited.retryAfter).toBe(3000);
+
+      vi.mocked(mockNetworkClient.get).mockResolvedValueOnce(mockError(500));
+      const serverError = await client.getMarkets().catch(e => e);
+      expect(serverError).toBeInstanceOf(IndexerHttpError);
+      expect(serverError.status).toBe(500);
+    });
+
+    it('should classify thrown NetworkErrors by status', async () => {
+      vi.mocked(mockNetworkClient.get).mockRejectedValue(
+        Object.assign(new Error('Not Found'), {
+          status: 404,
+          statusText: 'Not Found',
+          response: JSON.stringify({ success: false, error: 'Market not found' }),
+        })
+      );
+
+      const error = await client.getMarket('m1').catch(e => e);
+      expect(error).toBeInstanceOf(IndexerNotFoundError);
+      expect(error.message).toContain('API Error (404): Market not found');
+      expect(error.body).toEqual({ success: false, error: 'Market not found' });
+    });
+
+    it('should wrap transport failures in IndexerNetworkError', async () => {
+      const cause = new TypeError('fetch failed');
+      vi.mocked(mockNetworkClient.get).mockRejectedValue(cause);
+
+      const error = await client.getMarkets().catch(e => e);
+      expect(isIndexerNetworkError(error)).toBe(true);
+      expect(error.cause).toBe(cause);
+      expect(error.message).toContain('fetch failed');
+    });
+  });
+
+  describe('checkMarketResolution', () => {
+    it('should return the structured error body on non-2xx', async () => {
+      const body = { success: false, error: 'Game has not ended yet', timestamp: 'now' };
+      vi.mocked(mockNetworkClient.get).mockRejectedValue(
+        Object.assign(new Error('Bad Request'), { status: 400, response: body })
+      );
+
+      const result = await client.checkMarketResolution('m1');
+      expect(result).toEqual({ ok: false, error: body });
+    });
+
+    it('should rethrow transport failures', async () => {
+      vi.mocked(mockNetworkClient.get).mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(client.checkMarketResolution('m1')).rejects.toSatisfy(isIndexerNetworkError);
+    });
+  });
+
+  // =====================================================================
+  // RESPONSE VALIDATION
+  // =====================================================================
+
+  describe('response validation', () => {
+    const validMarket = {
+      id: '1-market-1',
+      chainId: 1,
+      marketId: '1',
+      dealerNftTokenId: '7',
+      dealerAddress: '0xdealer',
+      title: 'Will it rain?',
+      description: null,
+      category: 'weather',
+      status: 'Active',
+      outcome: null,
+      createdAt: '2025-01-01T00:00:00Z',
+      resolvedAt: null,
+    };
+    const invalidMarkets = {
+      success: true,
+      data: [validMarket, { ...validMarket, chainId: '1' }],
+      pagination: { totalCount: 2 },
+    };
+
+    it('should not validate by default', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(invalidMarkets));
+
+      await expect(client.getMarkets()).resolves.toEqual(invalidMarkets);
+    });
+
+    it('should pass valid payloads in strict mode', async () => {
+      client = new IndexerClient(BASE_URL, mockNetworkClient, {}, { mode: 'strict' });
+      const mockData = { success: true, data: [validMarket], pagination: { totalCount: 1 } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      await expect(client.getMarkets()).resolves.toEqual(mockData);
+    });
+
+    it('should throw with the offending field path in strict mode', async () => {
+      client = new IndexerClient(BASE_URL, mockNetworkClient, {}, { mode: 'strict' });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(invalidMarkets));
+
+      const error = await client.getMarkets().catch(e => e);
+      expect(error).toBeInstanceOf(IndexerResponseValidationError);
+      expect(error.path).toBe('response.data[1].chainId');
+      expect(error.expected).toBe('number');
+      expect(error.received).toBe('string');
+      expect(error.operation).toBe('get markets');
+    });
+
+    it('should report missing fields on single-item responses', async () => {
+      client = new IndexerClient(BASE_URL, mockNetworkClient, {}, { mode: 'strict' });
+      const { title: _title, ...withoutTitle } = validMarket;
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(
+        mockSuccess({ success: true, data: withoutTitle })
+      );
+
+      await expect(client.getMarket('1-market-1')).rejects.toThrow(
+        'Invalid response for get market at response.data.title: expected string, received undefined'
+      );
+    });
+
+    it('should report and pass through in lenient mode', async () => {
+      const onIssue = vi.fn();
+      client = new IndexerClient(BASE_URL, mockNetworkClient, {}, { mode: 'lenient', onIssue });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(invalidMarkets));
+
+      await expect(client.getMarkets()).resolves.toEqual(invalidMarkets);
+      expect(onIssue).toHaveBeenCalledWith(
+        { path: 'response.data[1].chainId', expected: 'number', received: 'string' },
+        'get markets'
+      );
+    });
+
+    it('should warn on the console in lenient mode without onIssue', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      client = new IndexerClient(BASE_URL, mockNetworkClient, {}, { mode: 'lenient' });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(invalidMarkets));
+
+      await client.getMarkets();
+
+      expect(warn).toHaveBeenCalledWith(
+        '[IndexerClient] Invalid response for get markets at response.data[1].chainId: expected number, received string'
+      );
+      warn.mockRestore();
+    });
+
+    it('should validate favorites', async () => {
+      client = new IndexerClient(BASE_URL, mockNetworkClient, {}, { mode: 'strict' });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(
+        mockSuccess({
+          success: true,
+          data: [{ id: 1, walletAddress: '0xabc', category: 'c', subcategory: 's', type: 't' }],
+          pagination: { totalCount: 1 },
+        })
+      );
+
+      await expect(client.getFavorites('0xabc')).rejects.toMatchObject({
+        path: 'response.data[0].itemId',
+      });
+    });
+  });
+
+  // =====================================================================
+  // REQUEST POLICY
+  // =====================================================================
+
+  describe('request policy', () => {
+    const mockData = { success: true, data: [], pagination: { totalCount: 0 } };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should not retry by default', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(500, 'Internal error'));
+
+      await expect(client.getMarkets()).rejects.toThrow('API Error (500)');
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry GET requests on 5xx responses', async () => {
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 2, baseDelay: 0, jitter: false },
+      });
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(mockError(502))
+        .mockResolvedValueOnce(mockSuccess(mockData));
+
+      const result = await retryingClient.getMarkets();
+
+      expect(result).toEqual(mockData);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry GET requests on thrown network errors', async () => {
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 1, baseDelay: 0 },
+      });
+      vi.mocked(mockNetworkClient.get)
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(mockSuccess(mockData));
+
+      await expect(retryingClient.getMarkets()).resolves.toEqual(mockData);
+    });
+
+    it('should not retry 4xx responses other than 429', async () => {
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 3, baseDelay: 0 },
+      });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(404, 'Market not found'));
+
+      await expect(retryingClient.getMarket('1-market-123')).rejects.toThrow('API Error (404)');
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 2, baseDelay: 0 },
+      });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(503));
+
+      await expect(retryingClient.getMarkets()).rejects.toThrow('API Error (503)');
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should never retry POST requests', async () => {
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 3, baseDelay: 0 },
+      });
+      vi.mocked(mockNetworkClient.post).mockResolvedValue(mockError(500));
+
+      await expect(
+        retryingClient.addFavorite('0xwallet', {
+          category: 'sports',
+          subcategory: 'soccer',
+          type: 'team',
+          id: 'team-1',
+        })
+      ).rejects.toThrow('API Error (500)');
+      expect(mockNetworkClient.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never retry PUT requests', async () => {
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 3, baseDelay: 0 },
+      });
+      vi.mocked(mockNetworkClient.put).mockResolvedValue(mockError(503));
+
+      await expect(
+        retryingClient.moderateComment('token', 42, { status: 'approved' })
+      ).rejects.toThrow('API Error (503)');
+      expect(mockNetworkClient.put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour Retry-After on 429 responses', async () => {
+      vi.useFakeTimers();
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 1, baseDelay: 0 },
+      });
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce({ ...mockError(429), headers: { 'Retry-After': '2' } })
+        .mockResolvedValueOnce(mockSuccess(mockData));
+
+      const promise = retryingClient.getMarkets();
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual(mockData);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply the default and per-endpoint timeouts', async () => {
+      const timedClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        timeout: 5000,
+        timeouts: { getHealth: 1000 },
+      });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      await timedClient.getMarkets();
+      await timedClient.getHealth();
+
+      expect(mockNetworkClient.get).toHaveBeenNthCalledWith(1, `${BASE_URL}/api/markets/list`, {
+        timeout: 5000,
+      });
+      expect(mockNetworkClient.get).toHaveBeenNthCalledWith(2, `${BASE_URL}/api/health`, {
+        timeout: 1000,
+      });
+    });
+
+    it('should use the built-in timeout for trigger endpoints', async () => {
+      vi.mocked(mockNetworkClient.post).mockResolvedValue(mockSuccess({ success: true, data: {} }));
+
+      await client.triggerLock('1-market-123');
+
+      expect(mockNetworkClient.post).toHaveBeenCalledWith(
+        `${BASE_URL}/api/markets/1-market-123/trigger-lock`,
+        undefined,
+        { timeout: 120_000 }
+      );
+    });
+  });
+
+  // =====================================================================
+  // CANCELLATION
+  // =====================================================================
+
+  describe('cancellation', () => {
+    const mockData = { success: true, data: { id: '1-market-123' } };
+
+    it('should forward the signal to the network client', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      await client.getMarket('1-market-123', controller.signal);
+
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(`${BASE_URL}/api/markets/1-market-123`, {
+        signal: controller.signal,
+      });
+    });
+
+    it('should reject with IndexerCancelledError when the signal aborts', async () => {
+      const controller = new AbortController();
+      // A network client that ignores the signal and never settles
+      vi.mocked(mockNetworkClient.get).mockReturnValue(new Promise(() => {}));
+
+      const promise = client.getMarket('1-market-123', controller.signal);
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(IndexerCancelledError);
+    });
+
+    it('should ignore late results after abort', async () => {
+      const controller = new AbortController();
+      let resolveRequest: (value: NetworkResponse<unknown>) => void = () => {};
+      vi.mocked(mockNetworkClient.get).mockReturnValue(
+        new Promise(resolve => {
+          resolveRequest = resolve;
+        })
+      );
+
+      const promise = client.getMarket('1-market-123', controller.signal);
+      controller.abort();
+      resolveRequest(mockSuccess(mockData));
+
+      const error = await promise.catch(err => err);
+      expect(isIndexerCancelledError(error)).toBe(true);
+    });
+
+    it('should not call the network client when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      await expect(client.getMarket('1-market-123', controller.signal)).rejects.toBeInstanceOf(
+        IndexerCancelledError
+      );
+    });
+
+    it('should map a network client AbortError to IndexerCancelledError', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockNetworkClient.get).mockImplementation(async () => {
+        controller.abort();
+        throw new DOMException('The operation was aborted', 'AbortError');
+      });
+
+      await expect(client.getMarkets(undefined, controller.signal)).rejects.toBeInstanceOf(
+        IndexerCancelledError
+      );
+    });
+
+    it('should stop retrying once aborted', async () => {
+      const controller = new AbortController();
+      const retryingClient = new IndexerClient(BASE_URL, mockNetworkClient, {
+        retry: { maxRetries: 5, baseDelay: 10_000 },
+      });
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(503));
+
+      const promise = retryingClient.getMarket('1-market-123', controller.signal);
+      await Promise.resolve();
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(IndexerCancelledError);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(1);
+    });
   });
 });
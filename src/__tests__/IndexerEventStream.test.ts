@@ -0,0 +1,445 @@
+/**
+ * Tests for IndexerEventStream - verifies message parsing, listeners and reconnection
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IndexerEventStream } from '../network/IndexerEventStream';
+import type { IndexerEventStreamOptions } from '../network/IndexerEventStream';
+
+class FakeEventSource {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+  listeners = new Map<string, (event: MessageEvent) => void>();
+  close = vi.fn();
+
+  constructor(public url: string) {}
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  emit(type: string, message: unknown) {
+    this.listeners.get(type)?.({ data: JSON.stringify(message) } as MessageEvent);
+  }
+}
+
+const dataUpdate = (eventType: string, data: unknown = {}) => ({
+  type: 'data_update',
+  subscriptionId: 'sub-1',
+  eventType,
+  data,
+  timestamp: 1,
+});
+
+describe('IndexerEventStream', () => {
+  const BASE_URL = 'http://localhost:42069';
+  let sources: FakeEventSource[];
+  let streams: IndexerEventStream[];
+
+  const createEventSource = (url: string) => {
+    const source = new FakeEventSource(url);
+    sources.push(source);
+    return source as unknown as EventSource;
+  };
+
+  // Streams left connected would keep reacting to window events in later tests
+  const createStream = (options: IndexerEventStreamOptions) => {
+    const stream = new IndexerEventStream(BASE_URL, options);
+    streams.push(stream);
+    return stream;
+  };
+
+  beforeEach(() => {
+    sources = [];
+    streams = [];
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    streams.forEach(stream => stream.disconnect());
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should subscribe with the channel and filters in the URL', () => {
+    const stream = createStream({
+      channel: 'market',
+      filters: { marketId: '1-market-1', user: '0xabc' },
+      createEventSource,
+    });
+
+    stream.connect();
+
+    expect(sources[0].url).toBe(
+      `${BASE_URL}/api/events?channel=market&marketId=1-market-1&user=0xabc`
+    );
+    expect(stream.state).toBe('connecting');
+  });
+
+  it('should record the client and subscription ids on connect', () => {
+    const stream = createStream({ createEventSource });
+    const onState = vi.fn();
+    stream.onStateChange(onState);
+    stream.connect();
+
+    sources[0].emit('connected', {
+      type: 'connected',
+      clientId: 'client-1',
+      subscriptionId: 'sub-1',
+      channel: 'markets',
+      timestamp: 1,
+    });
+
+    expect(stream.state).toBe('connected');
+    expect(stream.clientId).toBe('client-1');
+    expect(stream.subscriptionId).toBe('sub-1');
+    expect(onState.mock.calls.map(([state]) => state)).toEqual(['connecting', 'connected']);
+  });
+
+  it('should deliver data updates to matching and wildcard listeners', () => {
+    const stream = createStream({ createEventSource });
+    const onPrediction = vi.fn();
+    const onAny = vi.fn();
+    stream.on('PredictionPlaced', onPrediction);
+    stream.on('*', onAny);
+    stream.connect();
+
+    sources[0].emit('data_update', dataUpdate('PredictionPlaced', { marketId: '1-market-1' }));
+    sources[0].emit('data_update', dataUpdate('MarketCreated'));
+
+    expect(onPrediction).toHaveBeenCalledTimes(1);
+    expect(onPrediction.mock.calls[0][0].data).toEqual({ marketId: '1-market-1' });
+    expect(onAny).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop delivering events after a listener unsubscribes', () => {
+    const stream = createStream({ createEventSource });
+    const handler = vi.fn();
+    const off = stream.on('*', handler);
+    stream.connect();
+
+    off();
+    sources[0].emit('data_update', dataUpdate('MarketCreated'));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should ignore malformed messages', () => {
+    const stream = createStream({ createEventSource });
+    const handler = vi.fn();
+    stream.on('*', handler);
+    stream.connect();
+
+    sources[0].onmessage?.({ data: 'not json' } as MessageEvent);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('should reconnect after an error until the attempt limit', () => {
+    vi.useFakeTimers();
+    const stream = createStream({
+      createEventSource,
+      reconnectDelay: 1000,
+      maxReconnectAttempts: 1,
+    });
+    const onError = vi.fn();
+    stream.onError(onError);
+    stream.connect();
+
+    sources[0].onerror?.();
+    expect(stream.state).toBe('error');
+    vi.advanceTimersByTime(1000);
+    expect(sources).toHaveLength(2);
+    expect(sources[0].close).toHaveBeenCalled();
+
+    sources[1].onerror?.();
+    vi.advanceTimersByTime(1000);
+
+    expect(sources).toHaveLength(2);
+    expect(stream.state).toBe('disconnected');
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not reconnect when autoReconnect is disabled', () => {
+    vi.useFakeTimers();
+    const stream = createStream({ createEventSource, autoReconnect: false });
+    stream.connect();
+
+    sources[0].onerror?.();
+    vi.advanceTimersByTime(10_000);
+
+    expect(sources).toHaveLength(1);
+  });
+
+  it('should close the connection and cancel reconnects on disconnect', () => {
+    vi.useFakeTimers();
+    const stream = createStream({ createEventSource });
+    stream.connect();
+    sources[0].onerror?.();
+
+    stream.disconnect();
+    vi.advanceTimersByTime(10_000);
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].close).toHaveBeenCalled();
+    expect(stream.state).toBe('disconnected');
+  });
+
+  it('should report an error state when the EventSource cannot be created', () => {
+    const stream = createStream({
+      createEventSource: () => {
+        throw new Error('unsupported');
+      },
+    });
+    const onError = vi.fn();
+    stream.onError(onError);
+
+    stream.connect();
+
+    expect(stream.state).toBe('error');
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'unsupported' }));
+  });
+
+  describe('reconnection backoff', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('should double the delay up to the ceiling when jitter is disabled', () => {
+      const stream = createStream({
+        createEventSource,
+        reconnectDelay: 1000,
+        maxReconnectDelay: 3000,
+        reconnectJitter: false,
+        maxReconnectAttempts: 10,
+      });
+      stream.connect();
+
+      const delays = [1000, 2000, 3000, 3000];
+      delays.forEach((delay, index) => {
+        sources[index].onerror?.();
+        vi.advanceTimersByTime(delay - 1);
+        expect(sources).toHaveLength(index + 1);
+        vi.advanceTimersByTime(1);
+        expect(sources).toHaveLength(index + 2);
+      });
+    });
+
+    it('should keep jittered delays within the backoff window', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const stream = createStream({ createEventSource, reconnectDelay: 1000 });
+      stream.connect();
+
+      sources[0].onerror?.();
+      vi.advanceTimersByTime(500);
+
+      expect(sources).toHaveLength(2);
+    });
+
+    it('should not stack reconnects on repeated errors', () => {
+      const stream = createStream({ createEventSource, reconnectDelay: 1000 });
+      const onError = vi.fn();
+      stream.onError(onError);
+      stream.connect();
+
+      sources[0].onerror?.();
+      sources[0].onerror?.();
+      sources[0].onerror?.();
+      vi.advanceTimersByTime(1000);
+
+      expect(sources).toHaveLength(2);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resume after giving up when the browser comes back online', () => {
+      const stream = createStream({
+        createEventSource,
+        maxReconnectAttempts: 0,
+      });
+      stream.connect();
+      sources[0].onerror?.();
+      expect(stream.state).toBe('disconnected');
+
+      window.dispatchEvent(new Event('online'));
+
+      expect(sources).toHaveLength(2);
+      expect(stream.state).toBe('connecting');
+    });
+
+    it('should skip the pending backoff when the tab becomes visible', () => {
+      const stream = createStream({
+        createEventSource,
+        reconnectDelay: 60_000,
+      });
+      stream.connect();
+      sources[0].onerror?.();
+
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(sources).toHaveLength(2);
+    });
+
+    it('should stop listening for activity after disconnect', () => {
+      const stream = createStream({ createEventSource });
+      stream.connect();
+      stream.disconnect();
+
+      window.dispatchEvent(new Event('online'));
+
+      expect(sources).toHaveLength(1);
+    });
+  });
+
+  describe('heartbeat timeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('should force a reconnect when the connection goes silent', () => {
+      const onError = vi.fn();
+      const stream = createStream({
+        createEventSource,
+        heartbeatTimeout: 5000,
+        reconnectDelay: 1000,
+      });
+      stream.onError(onError);
+      stream.connect();
+
+      vi.advanceTimersByTime(4000);
+      sources[0].listeners.get('heartbeat')?.({ data: '' } as MessageEvent);
+      vi.advanceTimersByTime(4000);
+      expect(stream.state).toBe('connecting');
+
+      vi.advanceTimersByTime(1000);
+      expect(stream.state).toBe('error');
+      expect(sources[0].close).toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'No SSE message for 5000ms' })
+      );
+
+      vi.advanceTimersByTime(1000);
+      expect(sources).toHaveLength(2);
+    });
+
+    it('should close a silent connection when autoReconnect is disabled', () => {
+      const stream = createStream({
+        createEventSource,
+        heartbeatTimeout: 5000,
+        autoReconnect: false,
+      });
+      stream.connect();
+
+      vi.advanceTimersByTime(5000);
+      expect(stream.state).toBe('error');
+      expect(sources[0].close).toHaveBeenCalled();
+
+      vi.advanceTimersByTime(10_000);
+      expect(sources).toHaveLength(1);
+    });
+
+    it('should not watch heartbeats when disabled', () => {
+      const stream = createStream({ createEventSource, heartbeatTimeout: 0 });
+      stream.connect();
+
+      vi.advanceTimersByTime(10 * 60_000);
+
+      expect(stream.state).toBe('connecting');
+      expect(sources).toHaveLength(1);
+    });
+  });
+
+  describe('replay', () => {
+    const connected = (timestamp: number) => ({
+      type: 'connected',
+      clientId: 'client-1',
+      subscriptionId: 'sub-1',
+      channel: 'markets',
+      timestamp,
+    });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('should request events since the last one received when reconnecting', () => {
+      const stream = createStream({ createEventSource, reconnectDelay: 1000 });
+      stream.connect();
+      sources[0].emit('connected', connected(100));
+      sources[0].emit('data_update', dataUpdate('MarketCreated', { marketId: 'm1' }));
+      sources[0].emit('data_update', { ...dataUpdate('MarketResolved'), timestamp: 250 });
+
+      sources[0].onerror?.();
+      vi.advanceTimersByTime(1000);
+
+      expect(stream.lastEventTimestamp).toBe(250);
+      expect(new URL(sources[1].url).searchParams.get('since')).toBe('250');
+    });
+
+    it('should replay from the first connection when no event has arrived', () => {
+      const stream = createStream({ createEventSource });
+      stream.connect();
+      expect(new URL(sources[0].url).searchParams.has('since')).toBe(false);
+      sources[0].emit('connected', connected(100));
+
+      stream.reconnect();
+
+      expect(new URL(sources[1].url).searchParams.get('since')).toBe('100');
+    });
+
+    it('should not send since when replay is disabled', () => {
+      const stream = createStream({ createEventSource, replay: false });
+      stream.connect();
+      sources[0].emit('connected', connected(100));
+
+      stream.reconnect();
+
+      expect(new URL(sources[1].url).searchParams.has('since')).toBe(false);
+    });
+
+    it('should drop events delivered both before and after a reconnect', () => {
+      const stream = createStream({ createEventSource });
+      const handler = vi.fn();
+      stream.on('*', handler);
+      stream.connect();
+      sources[0].emit('data_update', dataUpdate('PredictionPlaced', { marketId: 'm1' }));
+
+      stream.reconnect();
+      sources[1].emit('data_update', dataUpdate('PredictionPlaced', { marketId: 'm1' }));
+      sources[1].emit('data_update', dataUpdate('PredictionPlaced', { marketId: 'm2' }));
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should dedupe by SSE event id when the server sends one', () => {
+      const stream = createStream({ createEventSource });
+      const handler = vi.fn();
+      stream.on('*', handler);
+      stream.connect();
+      const listener = sources[0].listeners.get('data_update');
+
+      listener?.({
+        data: JSON.stringify(dataUpdate('MarketCreated')),
+        lastEventId: '7',
+      } as MessageEvent);
+      listener?.({
+        data: JSON.stringify({ ...dataUpdate('MarketCreated'), timestamp: 2 }),
+        lastEventId: '7',
+      } as MessageEvent);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a gap when the server cannot replay', () => {
+      const stream = createStream({ createEventSource });
+      const onGap = vi.fn();
+      stream.onGap(onGap);
+      stream.connect();
+
+      sources[0].emit('replay_unavailable', { type: 'replay_unavailable', since: 5, timestamp: 9 });
+
+      expect(onGap).toHaveBeenCalledWith(expect.objectContaining({ since: 5 }));
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for IndexerProvider - verifies hooks pick up the client and query defaults from context
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { NetworkClient } from '@sudobility/types';
+import { IndexerClient } from '../network/IndexerClient';
+import {
+  IndexerProvider,
+  heavymathKeys,
+  useIndexerClient,
+  useAllMarketUpdates,
+  useMarket,
+  useSSE,
+  useTriggerLock,
+} from '../index';
+import type { IndexerQueryDefaults } from '../index';
+
+const createMockNetworkClient = (): NetworkClient => ({
+  request: vi.fn(),
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  delete: vi.fn(),
+});
+
+const createClient = () => {
+  const client = new IndexerClient('http://localhost:42069', createMockNetworkClient());
+  vi.spyOn(client, 'getMarket').mockResolvedValue({
+    success: true,
+    data: { id: '1-market-1' },
+    timestamp: '',
+  } as Awaited<ReturnType<IndexerClient['getMarket']>>);
+  return client;
+};
+
+const createWrapper = (
+  queryClient: QueryClient,
+  client?: IndexerClient,
+  queryDefaults?: IndexerQueryDefaults
+) =>
+  function Wrapper({ children }: { children?: ReactNode }) {
+    const content = client
+      ? createElement(IndexerProvider, { client, queryDefaults }, children)
+      : children;
+    return createElement(QueryClientProvider, { client: queryClient }, content);
+  };
+
+describe('IndexerProvider', () => {
+  it('should expose the client through useIndexerClient', () => {
+    const client = createClient();
+    const { result } = renderHook(() => useIndexerClient(), {
+      wrapper: createWrapper(new QueryClient(), client),
+    });
+
+    expect(result.current).toBe(client);
+  });
+
+  it('should throw from useIndexerClient outside a provider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useIndexerClient())).toThrow(/IndexerProvider/);
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('should let hooks omit the client inside a provider', async () => {
+    const client = createClient();
+    const { result } = renderHook(() => useMarket('1-market-1'), {
+      wrapper: createWrapper(new QueryClient(), client),
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(client.getMarket).toHaveBeenCalledWith('1-market-1', expect.anything());
+  });
+
+  it('should prefer an explicitly passed client over the provider one', async () => {
+    const providerClient = createClient();
+    const explicitClient = createClient();
+    const { result } = renderHook(() => useMarket(explicitClient, '1-market-1'), {
+      wrapper: createWrapper(new QueryClient(), providerClient),
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(explicitClient.getMarket).toHaveBeenCalled();
+    expect(providerClient.getMarket).not.toHaveBeenCalled();
+  });
+
+  it('should keep explicit-client calls working without a provider', async () => {
+    const client = createClient();
+    const { result } = renderHook(() => useMarket(client, '1-market-1'), {
+      wrapper: createWrapper(new QueryClient()),
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it('should keep an explicit null client for hooks that accept one', async () => {
+    const { result } = renderHook(() => useTriggerLock(null), {
+      wrapper: createWrapper(new QueryClient(), createClient()),
+    });
+
+    await expect(result.current.mutateAsync('1-market-1')).rejects.toThrow('Client is required');
+  });
+
+  it('should apply provider query defaults between hook defaults and call options', async () => {
+    const queryClient = new QueryClient();
+    const client = createClient();
+    const wrapper = createWrapper(queryClient, client, { staleTime: 1234, gcTime: 5678 });
+
+    const { result } = renderHook(() => useMarket('1-market-1', { gcTime: 42 }), { wrapper });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    const query = queryClient
+      .getQueryCache()
+      .find({ queryKey: heavymathKeys.markets.detail('1-market-1') });
+    expect(query?.options).toMatchObject({ staleTime: 1234, gcTime: 42 });
+  });
+});
+
+describe('SSE hooks inside an IndexerProvider', () => {
+  const SSE_URL = 'http://localhost:42069';
+
+  const createSSEWrapper = (createEventSource: (url: string) => EventSource) =>
+    function Wrapper({ children }: { children?: ReactNode }) {
+      return createElement(
+        QueryClientProvider,
+        { client: new QueryClient() },
+        createElement(
+          IndexerProvider,
+          { client: createClient(), sseEndpointUrl: SSE_URL, sseOptions: { createEventSource } },
+          children
+        )
+      );
+    };
+
+  const fakeEventSource = (url: string) =>
+    ({ url, close: vi.fn(), addEventListener: vi.fn() }) as unknown as EventSource;
+
+  it('should keep the options passed after an undefined endpoint URL', () => {
+    const createEventSource = vi.fn(fakeEventSource);
+    const wrapper = createSSEWrapper(createEventSource);
+
+    renderHook(() => useSSE(undefined, { channel: 'predictions', filters: { user: '0xabc' } }), {
+      wrapper,
+    });
+    renderHook(() => useAllMarketUpdates(undefined, { enabled: false }), { wrapper });
+
+    expect(createEventSource).toHaveBeenCalledTimes(1);
+    const url = new URL(createEventSource.mock.calls[0][0]);
+    expect(url.origin).toBe(SSE_URL);
+    expect(url.searchParams.get('channel')).toBe('predictions');
+  });
+});
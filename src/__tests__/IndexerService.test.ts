@@ -5,6 +5,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { NetworkClient, NetworkResponse } from '@sudobility/types';
 import { IndexerService } from '../business/indexer-service';
+import { IndexerHttpError } from '../network/errors';
+import type { SSEDataUpdateMessage, SSEEventType } from '../types';
 
 const createMockNetworkClient = (): NetworkClient => ({
   request: vi.fn(),
@@ -161,6 +163,107 @@ describe('IndexerService', () => {
     });
   });
 
+  describe('cache policy', () => {
+    const mockData = { success: true, data: [], pagination: { totalCount: 0 } };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should apply per-method TTLs', async () => {
+      service = new IndexerService({
+        indexerUrl: BASE_URL,
+        networkClient: mockNetworkClient,
+        cacheTTL: 10_000,
+        cacheTTLs: { getMarketStats: 1_000 },
+      });
+
+      await service.getActiveMarkets();
+      await service.getMarketStats();
+      vi.advanceTimersByTime(2_000);
+      await service.getActiveMarkets();
+      await service.getMarketStats();
+
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should evict the least recently used entry past maxCacheEntries', async () => {
+      service = new IndexerService({
+        indexerUrl: BASE_URL,
+        networkClient: mockNetworkClient,
+        maxCacheEntries: 2,
+      });
+
+      await service.getActiveMarkets(1);
+      await service.getActiveMarkets(2);
+      await service.getActiveMarkets(1); // touch 1 so 2 becomes least recently used
+      await service.getActiveMarkets(3);
+
+      expect(service.getCacheStats()).toMatchObject({ evictions: 1, size: 2 });
+      await service.getActiveMarkets(1);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(3);
+      await service.getActiveMarkets(2);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(4);
+    });
+
+    it('should serve stale data while revalidating in the background', async () => {
+      service = new IndexerService({
+        indexerUrl: BASE_URL,
+        networkClient: mockNetworkClient,
+        cacheTTL: 1_000,
+        staleWhileRevalidate: 5_000,
+      });
+      const fresh = { ...mockData, data: [{ id: 'new' }] };
+
+      const first = await service.getActiveMarkets();
+      vi.advanceTimersByTime(2_000);
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(fresh));
+
+      await expect(service.getActiveMarkets()).resolves.toBe(first);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+
+      // Once the background refresh lands, the fresh data is served without another request
+      await vi.waitFor(async () => {
+        await expect(service.getActiveMarkets()).resolves.toEqual(fresh);
+      });
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop entries past the stale window', async () => {
+      service = new IndexerService({
+        indexerUrl: BASE_URL,
+        networkClient: mockNetworkClient,
+        cacheTTL: 1_000,
+        staleWhileRevalidate: 1_000,
+      });
+
+      await service.getActiveMarkets();
+      vi.advanceTimersByTime(3_000);
+      await service.getActiveMarkets();
+
+      expect(service.getCacheStats()).toMatchObject({ hits: 0, staleHits: 0, misses: 2 });
+    });
+
+    it('should count hits and misses', async () => {
+      await service.getActiveMarkets();
+      await service.getActiveMarkets();
+      await service.getActiveMarkets(10);
+
+      expect(service.getCacheStats()).toEqual({
+        hits: 1,
+        staleHits: 0,
+        misses: 2,
+        evictions: 0,
+        size: 2,
+      });
+    });
+  });
+
   // =====================================================================
   // INVALIDATE CACHE
   // =====================================================================
@@ -202,6 +305,258 @@ describe('IndexerService', () => {
     });
   });
 
+  // =====================================================================
+  // EVENT-DRIVEN INVALIDATION
+  // =====================================================================
+
+  describe('handleEvent', () => {
+    const event = (eventType: SSEEventType, data: unknown): SSEDataUpdateMessage => ({
+      type: 'data_update',
+      subscriptionId: 'sub-1',
+      eventType,
+      data,
+      timestamp: 0,
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(
+        mockSuccess({ success: true, data: [], pagination: { totalCount: 0 } })
+      );
+    });
+
+    it("should invalidate the predictor's entries on prediction events", async () => {
+      await service.getUserPredictions('0xAbC');
+      await service.getUserPredictions('0xdef');
+      await service.getActiveMarkets();
+
+      const count = service.handleEvent(
+        event('PredictionPlaced', { marketId: '1-market-1', predictor: '0xabc' })
+      );
+
+      expect(count).toBe(1);
+      await service.getUserPredictions('0xAbC');
+      await service.getUserPredictions('0xdef');
+      await service.getActiveMarkets();
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(4);
+    });
+
+    it('should invalidate market lists and stats on market events', async () => {
+      await service.getActiveMarkets();
+      await service.getMarketStats();
+      await service.getUserPredictions('0xabc');
+
+      const count = service.handleEvent(
+        event('MarketCreated', { marketId: '1-market-2', dealer: '0xdealer' })
+      );
+
+      expect(count).toBe(2);
+    });
+
+    it('should invalidate dealer entries of every party on license transfers', async () => {
+      await service.getDealerNFTs('0xold');
+      await service.getDealerNFTs('0xnew');
+
+      const count = service.handleEvent(
+        event('LicenseTransferred', { from: '0xold', to: '0xnew', tokenId: '1' })
+      );
+
+      expect(count).toBe(2);
+    });
+
+    it('should invalidate every wallet overview when a market settles', async () => {
+      await service.getWalletOverview('0xabc');
+      await service.getWalletOverview('0xdef');
+      await service.getActiveMarkets();
+
+      const count = service.handleEvent(event('MarketResolved', { marketId: '1-market-1' }));
+
+      expect(count).toBe(3);
+    });
+
+    it("should invalidate dealer stats and the withdrawer's dashboard on fee withdrawals", async () => {
+      await service.getDealerDashboard('0xdealer');
+      await service.getDealerDashboard('0xother');
+
+      const count = service.handleEvent(
+        event('DealerFeesWithdrawn', { dealer: '0xdealer', amount: '5' })
+      );
+
+      expect(count).toBe(1);
+    });
+
+    it('should not invalidate markets whose id merely starts with the event market id', async () => {
+      await service.getMarketDetails('1-market-1');
+      await service.getMarketDetails('1-market-10');
+
+      const count = service.handleEvent(event('OracleDataUpdated', { marketId: '1-market-1' }));
+
+      expect(count).toBe(1);
+    });
+
+    it('should ignore events that do not affect cached data', async () => {
+      await service.getActiveMarkets();
+
+      expect(service.handleEvent(event('CommentAdded', { marketId: '1-market-1' }))).toBe(0);
+    });
+  });
+
+  describe('subscribeToEvents', () => {
+    class FakeEventSource {
+      onmessage: ((event: MessageEvent) => void) | null = null;
+      onopen: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      listeners = new Map<string, (event: MessageEvent) => void>();
+      close = vi.fn();
+
+      constructor(public url: string) {}
+
+      addEventListener(type: string, listener: (event: MessageEvent) => void) {
+        this.listeners.set(type, listener);
+      }
+
+      emit(type: string, message: unknown) {
+        this.listeners.get(type)?.({ data: JSON.stringify(message) } as MessageEvent);
+      }
+    }
+
+    let sources: FakeEventSource[];
+    const createEventSource = (url: string) => {
+      const source = new FakeEventSource(url);
+      sources.push(source);
+      return source as unknown as EventSource;
+    };
+
+    beforeEach(() => {
+      sources = [];
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(
+        mockSuccess({ success: true, data: [], pagination: { totalCount: 0 } })
+      );
+    });
+
+    it('should open one connection per channel with the given filters', () => {
+      service.subscribeToEvents({
+        channels: ['markets', 'predictions'],
+        filters: { user: '0xabc' },
+        createEventSource,
+      });
+
+      expect(sources.map(source => source.url)).toEqual([
+        `${BASE_URL}/api/events?channel=markets&user=0xabc`,
+        `${BASE_URL}/api/events?channel=predictions&user=0xabc`,
+      ]);
+    });
+
+    it('should invalidate cached entries when events arrive', async () => {
+      service.subscribeToEvents({ channels: ['markets'], createEventSource });
+      await service.getActiveMarkets();
+
+      sources[0].emit('data_update', {
+        type: 'data_update',
+        subscriptionId: 'sub-1',
+        eventType: 'MarketResolved',
+        data: { marketId: '1-market-1' },
+        timestamp: 0,
+      });
+      await service.getActiveMarkets();
+
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should clear the cache when the server cannot replay missed events', async () => {
+      const onError = vi.fn();
+      service.subscribeToEvents({ channels: ['markets'], createEventSource, onError });
+      await service.getMarketStats();
+
+      sources[0].onerror?.();
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 'markets');
+      expect(service.getCacheStats().size).toBe(1);
+
+      sources[0].emit('replay_unavailable', { type: 'replay_unavailable', since: 1, timestamp: 2 });
+      expect(service.getCacheStats().size).toBe(0);
+    });
+
+    it('should close every connection on unsubscribe', () => {
+      const unsubscribe = service.subscribeToEvents({ createEventSource });
+      unsubscribe();
+
+      expect(sources).toHaveLength(4);
+      sources.forEach(source => expect(source.close).toHaveBeenCalled());
+    });
+  });
+
+  // =====================================================================
+  // IN-FLIGHT COALESCING
+  // =====================================================================
+
+  describe('in-flight coalescing', () => {
+    const marketDetailResponses = (url: string) => {
+      if (url.endsWith('/predictions')) return { success: true, data: [] };
+      if (url.endsWith('/history')) return { success: true, data: [] };
+      return { success: true, data: { id: '1-market-1' } };
+    };
+
+    it('should share one round-trip between concurrent callers', async () => {
+      vi.mocked(mockNetworkClient.get).mockImplementation(async url =>
+        mockSuccess(marketDetailResponses(url))
+      );
+
+      const [first, second] = await Promise.all([
+        service.getMarketDetails('1-market-1'),
+        service.getMarketDetails('1-market-1'),
+      ]);
+
+      expect(first).toBe(second);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject every waiter and not cache failures', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValueOnce(mockError(500, 'Server down'));
+
+      const results = await Promise.allSettled([
+        service.getActiveMarkets(),
+        service.getActiveMarkets(),
+      ]);
+
+      expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(1);
+
+      const mockData = { success: true, data: [], pagination: { totalCount: 0 } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValueOnce(mockSuccess(mockData));
+      await expect(service.getActiveMarkets()).resolves.toEqual(mockData);
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share per-NFT market requests across dashboards', async () => {
+      vi.mocked(mockNetworkClient.get).mockImplementation(async url =>
+        mockSuccess(
+          url.includes('/api/dealers/list')
+            ? { success: true, data: [{ id: 'nft-1' }, { id: 'nft-2' }], pagination: {} }
+            : { success: true, data: [{ id: `market-of-${url}` }], pagination: {} }
+        )
+      );
+
+      await Promise.all([
+        service.getDealerDashboard('0xdealer'),
+        service.getDealerDashboard('0xdealer'),
+      ]);
+
+      // One dealers lookup plus one markets and one stats request per NFT
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(5);
+    });
+
+    it('should not cache a result invalidated while in flight', async () => {
+      const mockData = { success: true, data: [], pagination: { totalCount: 0 } };
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+
+      const pending = service.getActiveMarkets();
+      service.invalidateCache('active-markets');
+      await pending;
+
+      await service.getActiveMarkets();
+      expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
   // =====================================================================
   // BUSINESS METHODS
   // =====================================================================
@@ -228,10 +583,13 @@ describe('IndexerService', () => {
       expect(calledUrl).toContain('limit=25');
     });
 
-    it('should throw a descriptive error on failure', async () => {
+    it('should rethrow typed client errors unchanged', async () => {
       vi.mocked(mockNetworkClient.get).mockResolvedValue(mockError(500, 'Server down'));
 
-      await expect(service.getActiveMarkets()).rejects.toThrow('Failed to get active markets');
+      const error = await service.getActiveMarkets().catch(e => e);
+      expect(error).toBeInstanceOf(IndexerHttpError);
+      expect(error.status).toBe(500);
+      expect(error.message).toContain('API Error (500): Server down');
     });
   });
 
@@ -280,6 +638,59 @@ describe('IndexerService', () => {
     });
   });
 
+  describe('getDealerDashboard', () => {
+    it('should include the stats of every NFT keyed by NFT id', async () => {
+      vi.mocked(mockNetworkClient.get).mockImplementation(async url =>
+        mockSuccess(
+          url.endsWith('/stats')
+            ? { success: true, data: { volume: url.includes('nft-1') ? '10' : '20' } }
+            : url.includes('/markets')
+              ? { success: true, data: [{ id: '1-market-1' }], pagination: {} }
+              : { success: true, data: [{ id: 'nft-1' }, { id: 'nft-2' }], pagination: {} }
+        )
+      );
+
+      const result = await service.getDealerDashboard('0xdealer');
+
+      expect(result.markets).toEqual([{ id: '1-market-1' }]);
+      expect(result.stats).toEqual({ 'nft-1': { volume: '10' }, 'nft-2': { volume: '20' } });
+    });
+
+    it('should leave out the stats of an NFT whose stats fail to load', async () => {
+      vi.mocked(mockNetworkClient.get).mockImplementation(async url =>
+        url.endsWith('nft-2/stats')
+          ? mockError(404, 'Dealer not found')
+          : mockSuccess(
+              url.endsWith('/stats')
+                ? { success: true, data: { volume: '10' } }
+                : url.includes('/markets')
+                  ? { success: true, data: [{ id: '1-market-1' }], pagination: {} }
+                  : { success: true, data: [{ id: 'nft-1' }, { id: 'nft-2' }], pagination: {} }
+            )
+      );
+
+      const result = await service.getDealerDashboard('0xdealer');
+
+      expect(result.markets).toEqual([{ id: '1-market-1' }]);
+      expect(result.stats).toEqual({ 'nft-1': { volume: '10' } });
+    });
+
+    it('should count one cache lookup per call and cache only the dashboard and NFTs', async () => {
+      vi.mocked(mockNetworkClient.get).mockImplementation(async url =>
+        mockSuccess(
+          url.includes('/api/dealers/list')
+            ? { success: true, data: [{ id: 'nft-1' }, { id: 'nft-2' }], pagination: {} }
+            : { success: true, data: [], pagination: {} }
+        )
+      );
+
+      await service.getDealerDashboard('0xdealer');
+
+      // getDealerDashboard and its getDealerNFTs lookup; per-NFT requests are not cached
+      expect(service.getCacheStats()).toMatchObject({ hits: 0, misses: 2, size: 2 });
+    });
+  });
+
   describe('getMarketDetails', () => {
     it('should fetch market, predictions, and history in parallel', async () => {
       const market = { id: '1-market-1', status: 'Active' };
@@ -329,6 +740,33 @@ describe('IndexerService', () => {
       expect(result.active).toEqual(active);
       expect(result.claimed).toEqual(claimed);
     });
+
+    it('should page through more than 100 predictions', async () => {
+      const fullPage = Array.from({ length: 100 }, (_, i) => ({ id: `active-${i}` }));
+
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(
+          mockSuccess({ success: true, data: fullPage, pagination: { hasNextPage: true } })
+        )
+        .mockResolvedValueOnce(
+          mockSuccess({ success: true, data: [], pagination: { hasNextPage: false } })
+        )
+        .mockResolvedValueOnce(
+          mockSuccess({
+            success: true,
+            data: [{ id: 'active-100' }],
+            pagination: { hasNextPage: false },
+          })
+        );
+
+      const result = await service.getUserBettingHistory('0xuser');
+
+      expect(result.active).toHaveLength(101);
+      expect(result.claimed).toEqual([]);
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(
+        `${BASE_URL}/api/predictions?user=0xuser&claimed=false&limit=100&offset=100`
+      );
+    });
   });
 
   describe('getMarketFromPrediction', () => {
@@ -356,6 +794,36 @@ describe('IndexerService', () => {
     });
   });
 
+  describe('getWalletOverview', () => {
+    it('should fetch balance, balance detail and recent history in parallel', async () => {
+      const balance = { totalStaked: '100' };
+      const detail = { markets: [] };
+      const history = [{ id: 'history-1' }];
+
+      vi.mocked(mockNetworkClient.get)
+        .mockResolvedValueOnce(mockSuccess({ success: true, data: balance }))
+        .mockResolvedValueOnce(mockSuccess({ success: true, data: detail }))
+        .mockResolvedValueOnce(mockSuccess({ success: true, data: history }));
+
+      const result = await service.getWalletOverview('0xuser', 5);
+
+      expect(result).toEqual({ balance, detail, recentHistory: history });
+      expect(mockNetworkClient.get).toHaveBeenCalledWith(
+        `${BASE_URL}/api/wallet/0xuser/history?limit=5`
+      );
+    });
+
+    it('should throw when the wallet balance is not found', async () => {
+      vi.mocked(mockNetworkClient.get).mockResolvedValue(
+        mockSuccess({ success: true, data: null })
+      );
+
+      await expect(service.getWalletOverview('0xuser')).rejects.toThrow(
+        'Failed to get wallet overview'
+      );
+    });
+  });
+
   describe('getMarketStats', () => {
     it('should fetch and cache market stats', async () => {
       const stats = { total: 100, active: 50 };
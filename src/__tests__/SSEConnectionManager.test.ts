@@ -0,0 +1,152 @@
+/**
+ * Tests for SSEConnectionManager - verifies connection sharing and ref-counting
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SSEConnectionManager, getSubscriptionKey } from '../network/SSEConnectionManager';
+
+class FakeEventSource {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+  listeners = new Map<string, (event: MessageEvent) => void>();
+  close = vi.fn();
+
+  constructor(public url: string) {}
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  emit(type: string, message: unknown) {
+    this.listeners.get(type)?.({ data: JSON.stringify(message) } as MessageEvent);
+  }
+}
+
+describe('SSEConnectionManager', () => {
+  const BASE_URL = 'http://localhost:42069';
+  let sources: FakeEventSource[];
+  let manager: SSEConnectionManager;
+
+  beforeEach(() => {
+    sources = [];
+    manager = new SSEConnectionManager(BASE_URL, {
+      createEventSource: url => {
+        const source = new FakeEventSource(url);
+        sources.push(source);
+        return source as unknown as EventSource;
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ignore unset filters and key order in subscription keys', () => {
+    expect(getSubscriptionKey('market', { marketId: 'm1', user: undefined })).toBe(
+      getSubscriptionKey('market', { marketId: 'm1' })
+    );
+    expect(getSubscriptionKey('predictions', { user: 'u', dealer: 'd' })).toBe(
+      getSubscriptionKey('predictions', { dealer: 'd', user: 'u' })
+    );
+  });
+
+  it('should share one connection between identical subscriptions', () => {
+    manager.subscribe('predictions', { user: '0xabc' });
+    manager.subscribe('predictions', { user: '0xabc' });
+    manager.subscribe('predictions', { user: '0xdef' });
+
+    expect(sources).toHaveLength(2);
+    expect(manager.connectionCount).toBe(2);
+  });
+
+  it('should put every market subscription on one markets connection', () => {
+    const handlers = Array.from({ length: 10 }, (_, i) => {
+      const onEvent = vi.fn();
+      manager.subscribe('market', { marketId: `1-market-${i}` }, { onEvent });
+      return onEvent;
+    });
+    manager.subscribe('markets');
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].url).toContain('channel=markets');
+
+    sources[0].emit('data_update', {
+      type: 'data_update',
+      subscriptionId: 'sub-1',
+      eventType: 'PredictionPlaced',
+      data: { marketId: '1-market-3' },
+      timestamp: 1,
+    });
+
+    handlers.forEach((onEvent, i) => expect(onEvent).toHaveBeenCalledTimes(i === 3 ? 1 : 0));
+  });
+
+  it('should fan events out to every subscriber', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    manager.subscribe('markets', {}, { onEvent: first });
+    manager.subscribe('markets', {}, { onEvent: second });
+
+    sources[0].emit('data_update', {
+      type: 'data_update',
+      subscriptionId: 'sub-1',
+      eventType: 'MarketCreated',
+      data: {},
+      timestamp: 1,
+    });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose the server subscription id to every subscriber', () => {
+    const first = manager.subscribe('markets');
+    const second = manager.subscribe('markets');
+
+    sources[0].emit('connected', {
+      type: 'connected',
+      clientId: 'client-1',
+      subscriptionId: 'sub-1',
+      channel: 'markets',
+      timestamp: 1,
+    });
+    sources[0].emit('subscription_confirmed', {
+      type: 'subscription_confirmed',
+      subscriptionId: 'sub-2',
+      channel: 'markets',
+    });
+
+    expect(first.state).toBe('connected');
+    expect(second.clientId).toBe('client-1');
+    expect(second.subscriptionId).toBe('sub-2');
+  });
+
+  it('should close the connection when the last subscriber leaves', () => {
+    const onEvent = vi.fn();
+    const first = manager.subscribe('markets', {}, { onEvent });
+    const second = manager.subscribe('markets');
+
+    first.unsubscribe();
+    first.unsubscribe();
+    expect(sources[0].close).not.toHaveBeenCalled();
+
+    second.unsubscribe();
+    expect(sources[0].close).toHaveBeenCalled();
+    expect(manager.connectionCount).toBe(0);
+
+    // A new subscriber opens a fresh connection
+    manager.subscribe('markets');
+    expect(sources).toHaveLength(2);
+  });
+
+  it('should close every connection on closeAll', () => {
+    manager.subscribe('markets');
+    manager.subscribe('predictions', { user: '0xabc' });
+
+    manager.closeAll();
+
+    expect(sources.every(source => source.close.mock.calls.length > 0)).toBe(true);
+    expect(manager.connectionCount).toBe(0);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for CacheStore backends and IndexerService persistence
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { NetworkClient, NetworkResponse } from '@sudobility/types';
+import {
+  AsyncStorageCacheStore,
+  LocalStorageCacheStore,
+  MemoryCacheStore,
+  deserializeCacheEntry,
+  serializeCacheEntry,
+} from '../business/cache-store';
+import { IndexerService } from '../business/indexer-service';
+
+const createMockNetworkClient = (): NetworkClient => ({
+  request: vi.fn(),
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  delete: vi.fn(),
+});
+
+function mockSuccess<T>(data: T): NetworkResponse<T> {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    data,
+    headers: {},
+  };
+}
+
+// In-memory stand-in for window.localStorage
+function createWebStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+}
+
+// Let fire-and-forget store writes settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('cache entry serialization', () => {
+  it('should round-trip entries with a matching version', () => {
+    const entry = { version: 1, data: { id: 'm1' }, expires: 10, staleUntil: 20 };
+    expect(deserializeCacheEntry(serializeCacheEntry(entry), 1)).toEqual(entry);
+  });
+
+  it('should reject entries written for another version', () => {
+    const raw = serializeCacheEntry({ version: 1, data: {}, expires: 10, staleUntil: 20 });
+    expect(deserializeCacheEntry(raw, 2)).toBeNull();
+  });
+
+  it('should reject malformed entries', () => {
+    expect(deserializeCacheEntry('not json', 1)).toBeNull();
+    expect(deserializeCacheEntry('{"version":1}', 1)).toBeNull();
+  });
+});
+
+describe('CacheStore backends', () => {
+  it('should store and list keys in LocalStorageCacheStore', async () => {
+    const store = new LocalStorageCacheStore(createWebStorage());
+
+    await store.setItem('a', '1');
+    await store.setItem('b', '2');
+    await store.removeItem('a');
+
+    expect(await store.getItem('b')).toBe('2');
+    expect(await store.getItem('a')).toBeNull();
+    expect(await store.getAllKeys()).toEqual(['b']);
+  });
+
+  it('should delegate to the wrapped AsyncStorage', async () => {
+    const asyncStorage = {
+      getItem: vi.fn().mockResolvedValue('value'),
+      setItem: vi.fn().mockResolvedValue(undefined),
+      removeItem: vi.fn().mockResolvedValue(undefined),
+      getAllKeys: vi.fn().mockResolvedValue(['key']),
+    };
+    const store = new AsyncStorageCacheStore(asyncStorage);
+
+    await store.setItem('key', 'value');
+    expect(await store.getItem('key')).toBe('value');
+    expect(await store.getAllKeys()).toEqual(['key']);
+    expect(asyncStorage.setItem).toHaveBeenCalledWith('key', 'value');
+  });
+});
+
+describe('IndexerService persistence', () => {
+  const BASE_URL = 'http://localhost:42069';
+  const mockData = { success: true, data: [{ id: '1-market-1' }], pagination: { totalCount: 1 } };
+  let mockNetworkClient: NetworkClient;
+  let cacheStore: MemoryCacheStore;
+
+  const createService = (cacheVersion?: number) =>
+    new IndexerService({
+      indexerUrl: BASE_URL,
+      networkClient: mockNetworkClient,
+      cacheStore,
+      cacheVersion,
+    });
+
+  beforeEach(() => {
+    mockNetworkClient = createMockNetworkClient();
+    cacheStore = new MemoryCacheStore();
+    vi.mocked(mockNetworkClient.get).mockResolvedValue(mockSuccess(mockData));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should serve persisted entries after a cold start', async () => {
+    await createService().getActiveMarkets();
+    await flush();
+
+    const result = await createService().getActiveMarkets();
+
+    expect(result).toEqual(mockData);
+    expect(mockNetworkClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should discard entries persisted with another version', async () => {
+    await createService(1).getActiveMarkets();
+    await flush();
+
+    await createService(2).getActiveMarkets();
+
+    expect(mockNetworkClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove persisted entries on clearCache and invalidateCache', async () => {
+    const service = createService();
+    await service.getActiveMarkets(10);
+    await service.getMarketStats();
+    await flush();
+    expect(await cacheStore.getAllKeys()).toHaveLength(2);
+
+    service.invalidateCache('active-markets');
+    await flush();
+    expect(await cacheStore.getAllKeys()).toEqual(['heavymath-indexer:market-stats']);
+
+    service.clearCache();
+    await flush();
+    expect(await cacheStore.getAllKeys()).toEqual([]);
+  });
+
+  it('should fall back to the network when the store fails', async () => {
+    vi.spyOn(cacheStore, 'getItem').mockRejectedValue(new Error('disk full'));
+    vi.spyOn(cacheStore, 'setItem').mockRejectedValue(new Error('disk full'));
+
+    await expect(createService().getActiveMarkets()).resolves.toEqual(mockData);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Tests for the comment mutation hooks - verifies in-place cache updates and rollback
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { NetworkClient } from '@sudobility/types';
+import { IndexerClient } from '../network/IndexerClient';
+import {
+  heavymathKeys,
+  useAddReaction,
+  useAuthStore,
+  useDeleteComment,
+  useEditComment,
+  useModerateComment,
+  useModerationQueue,
+  usePostComment,
+  useReplyToComment,
+} from '../index';
+
+const createMockNetworkClient = (): NetworkClient => ({
+  request: vi.fn(),
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  delete: vi.fn(),
+});
+
+const comment = (id: number, moderationStatus: string, replies: unknown[] = []) => ({
+  id,
+  content: `comment ${id}`,
+  createdAt: '',
+  moderationStatus,
+  replies,
+});
+
+const commentsPage = (comments: unknown[]) => ({
+  success: true,
+  data: { comments, pagination: { page: 1, limit: 20, total: comments.length } },
+  timestamp: '',
+});
+
+type CommentsCache = ReturnType<typeof commentsPage>;
+
+const wrapperFor = (queryClient: QueryClient) =>
+  function Wrapper({ children }: { children?: ReactNode }) {
+    return createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+
+describe('comment hooks', () => {
+  let client: IndexerClient;
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    client = new IndexerClient('http://localhost:42069', createMockNetworkClient());
+    queryClient = new QueryClient();
+    useAuthStore
+      .getState()
+      .setSession('token', '0xadmin', new Date(Date.now() + 60_000).toISOString());
+  });
+
+  it('should fetch the moderation queue with the stored token', async () => {
+    vi.spyOn(client, 'getModerationQueue').mockResolvedValue(
+      commentsPage([comment(1, 'pending')]) as never
+    );
+
+    const { result } = renderHook(() => useModerationQueue(client, { status: 'pending' }), {
+      wrapper: wrapperFor(queryClient),
+    });
+
+    await waitFor(() => expect(result.current.comments).toHaveLength(1));
+    expect(client.getModerationQueue).toHaveBeenCalledWith(
+      'token',
+      { status: 'pending' },
+      expect.anything()
+    );
+  });
+
+  it('should stay disabled while signed out', () => {
+    useAuthStore.getState().clearSession();
+    vi.spyOn(client, 'getModerationQueue');
+
+    renderHook(() => useModerationQueue(client), { wrapper: wrapperFor(queryClient) });
+
+    expect(client.getModerationQueue).not.toHaveBeenCalled();
+  });
+
+  it('should update the status in comment lists and drop it from other queues', async () => {
+    const commentsKey = heavymathKeys.discussions.comments(7);
+    const pendingKey = heavymathKeys.discussions.moderationQueue({ status: 'pending' });
+    const allKey = heavymathKeys.discussions.moderationQueue();
+    queryClient.setQueryData(
+      commentsKey,
+      commentsPage([comment(1, 'pending', [comment(42, 'pending')])])
+    );
+    queryClient.setQueryData(pendingKey, commentsPage([comment(42, 'pending')]));
+    queryClient.setQueryData(allKey, commentsPage([comment(42, 'pending')]));
+
+    let resolve!: (value: never) => void;
+    vi.spyOn(client, 'moderateComment').mockReturnValue(new Promise(r => (resolve = r)));
+
+    const { result } = renderHook(() => useModerateComment(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    act(() => result.current.mutate({ commentId: 42, request: { status: 'approved' } }));
+
+    await waitFor(() =>
+      expect(queryClient.getQueryData<CommentsCache>(pendingKey)?.data.comments).toEqual([])
+    );
+    const thread = queryClient.getQueryData<CommentsCache>(commentsKey)?.data.comments;
+    expect(thread?.[0]).toMatchObject({ moderationStatus: 'pending' });
+    expect(thread?.[0].replies[0]).toMatchObject({ id: 42, moderationStatus: 'approved' });
+    expect(queryClient.getQueryData<CommentsCache>(allKey)?.data.comments[0]).toMatchObject({
+      moderationStatus: 'approved',
+    });
+
+    await act(async () => resolve(commentsPage([]) as never));
+    expect(client.moderateComment).toHaveBeenCalledWith('token', 42, { status: 'approved' });
+  });
+
+  it('should roll back the optimistic update when moderation fails', async () => {
+    const pendingKey = heavymathKeys.discussions.moderationQueue({ status: 'pending' });
+    const before = commentsPage([comment(42, 'pending')]);
+    queryClient.setQueryData(pendingKey, before);
+    vi.spyOn(client, 'moderateComment').mockRejectedValue(new Error('Forbidden'));
+
+    const { result } = renderHook(() => useModerateComment(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    await act(async () => {
+      await expect(
+        result.current.mutateAsync({ commentId: 42, request: { status: 'rejected' } })
+      ).rejects.toThrow('Forbidden');
+    });
+
+    expect(queryClient.getQueryData(pendingKey)).toEqual(before);
+  });
+
+  it('should add a posted comment to the first page of newest-first lists only', async () => {
+    const subject = { subjectType: 'match', sport: 'football', subjectId: '99' };
+    queryClient.setQueryData(
+      heavymathKeys.discussions.detail(subject.subjectType, subject.sport, subject.subjectId),
+      { success: true, data: { id: 7 }, timestamp: '' }
+    );
+    const firstPage = heavymathKeys.discussions.comments(7);
+    const secondPage = heavymathKeys.discussions.comments(7, { page: 2 });
+    const otherDiscussion = heavymathKeys.discussions.comments(8);
+    [firstPage, secondPage, otherDiscussion].forEach(key =>
+      queryClient.setQueryData(key, commentsPage([comment(1, 'approved')]))
+    );
+    vi.spyOn(client, 'postComment').mockResolvedValue({
+      success: true,
+      data: comment(2, 'pending'),
+      timestamp: '',
+    } as never);
+
+    const { result } = renderHook(() => usePostComment(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    await act(() => result.current.mutateAsync({ ...subject, content: 'comment 2' } as never));
+
+    const ids = (key: readonly unknown[]) =>
+      queryClient.getQueryData<CommentsCache>(key)?.data.comments.map(c => c.id);
+    expect(ids(firstPage)).toEqual([2, 1]);
+    expect(ids(secondPage)).toEqual([1]);
+    expect(ids(otherDiscussion)).toEqual([1]);
+    const total = (key: readonly unknown[]) =>
+      queryClient.getQueryData<CommentsCache>(key)?.data.pagination.total;
+    expect([total(firstPage), total(secondPage), total(otherDiscussion)]).toEqual([2, 2, 1]);
+    expect(queryClient.getQueryState(firstPage)?.isInvalidated).toBe(false);
+  });
+
+  it('should append a reply under its parent and refetch only its discussion', async () => {
+    const key = heavymathKeys.discussions.comments(7);
+    const detail = heavymathKeys.discussions.detail('match', 'football', '99');
+    const otherDetail = heavymathKeys.discussions.detail('match', 'football', '100');
+    queryClient.setQueryData(key, commentsPage([comment(1, 'approved', [comment(2, 'approved')])]));
+    queryClient.setQueryData(detail, { success: true, data: { id: 7 }, timestamp: '' });
+    queryClient.setQueryData(otherDetail, { success: true, data: { id: 8 }, timestamp: '' });
+    vi.spyOn(client, 'replyToComment').mockResolvedValue({
+      success: true,
+      data: comment(3, 'pending'),
+      timestamp: '',
+    } as never);
+
+    const { result } = renderHook(() => useReplyToComment(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    await act(() => result.current.mutateAsync({ parentId: 1, request: { content: 'reply' } }));
+
+    const replies = queryClient.getQueryData<CommentsCache>(key)?.data.comments[0].replies;
+    expect(replies?.map(reply => (reply as { id: number }).id)).toEqual([2, 3]);
+    expect(queryClient.getQueryData<CommentsCache>(key)?.data.pagination.total).toBe(2);
+    expect(queryClient.getQueryState(detail)?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(otherDetail)?.isInvalidated).toBe(false);
+  });
+
+  it('should edit a comment in place and keep its replies', async () => {
+    const key = heavymathKeys.discussions.comments(7);
+    queryClient.setQueryData(key, commentsPage([comment(1, 'approved', [comment(2, 'approved')])]));
+    vi.spyOn(client, 'editComment').mockResolvedValue({
+      success: true,
+      data: { id: 1, content: 'edited', createdAt: '', editedAt: 'now' },
+      timestamp: '',
+    } as never);
+
+    const { result } = renderHook(() => useEditComment(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    await act(() => result.current.mutateAsync({ commentId: 1, request: { content: 'edited' } }));
+
+    expect(queryClient.getQueryData<CommentsCache>(key)?.data.comments[0]).toMatchObject({
+      content: 'edited',
+      editedAt: 'now',
+      replies: [{ id: 2 }],
+    });
+  });
+
+  it('should mark a deleted comment in place and keep its replies without refetching', async () => {
+    const key = heavymathKeys.discussions.comments(7);
+    const otherDiscussion = heavymathKeys.discussions.comments(8);
+    queryClient.setQueryData(
+      key,
+      commentsPage([comment(1, 'approved', [comment(3, 'approved')]), comment(2, 'approved')])
+    );
+    queryClient.setQueryData(otherDiscussion, commentsPage([comment(4, 'approved')]));
+    let resolve!: (value: never) => void;
+    vi.spyOn(client, 'deleteComment').mockReturnValue(new Promise(r => (resolve = r)));
+
+    const { result } = renderHook(() => useDeleteComment(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    act(() => result.current.mutate(1));
+
+    await waitFor(() =>
+      expect(queryClient.getQueryData<CommentsCache>(key)?.data.comments[0]).toMatchObject({
+        id: 1,
+        isDeleted: true,
+        replies: [{ id: 3 }],
+      })
+    );
+    expect(queryClient.getQueryData<CommentsCache>(key)?.data.pagination.total).toBe(1);
+    expect(queryClient.getQueryData<CommentsCache>(otherDiscussion)?.data.pagination.total).toBe(1);
+
+    await act(async () => resolve({ success: true, data: { message: 'Deleted' } } as never));
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(queryClient.getQueryData<CommentsCache>(key)?.data.comments[0]).toMatchObject({
+      isDeleted: true,
+    });
+    expect(queryClient.getQueryState(key)?.isInvalidated).toBe(false);
+    expect(queryClient.getQueryState(otherDiscussion)?.isInvalidated).toBe(false);
+  });
+
+  it('should restore a deleted comment when the delete fails', async () => {
+    const key = heavymathKeys.discussions.comments(7);
+    const before = commentsPage([comment(1, 'approved'), comment(2, 'approved')]);
+    queryClient.setQueryData(key, before);
+    let reject!: (error: Error) => void;
+    vi.spyOn(client, 'deleteComment').mockReturnValue(new Promise((_, r) => (reject = r)));
+
+    const { result } = renderHook(() => useDeleteComment(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    act(() => result.current.mutate(2));
+
+    await waitFor(() =>
+      expect(queryClient.getQueryData<CommentsCache>(key)?.data.comments[1]).toMatchObject({
+        isDeleted: true,
+      })
+    );
+    await act(async () => reject(new Error('Forbidden')));
+    await waitFor(() =>
+      expect(queryClient.getQueryData<CommentsCache>(key)?.data).toEqual(before.data)
+    );
+    expect(queryClient.getQueryState(key)?.isInvalidated).toBe(true);
+  });
+
+  it('should toggle a reaction optimistically and store the server list', async () => {
+    const key = heavymathKeys.discussions.reactions(42);
+    queryClient.setQueryData(key, {
+      success: true,
+      data: [{ reaction: '🔥', count: 2, reacted: false }],
+      timestamp: '',
+    });
+    const server = {
+      success: true,
+      data: [{ reaction: '🔥', count: 5, reacted: true }],
+      timestamp: '',
+    };
+    let resolve!: (value: never) => void;
+    vi.spyOn(client, 'addReaction').mockReturnValue(new Promise(r => (resolve = r)));
+
+    const { result } = renderHook(() => useAddReaction(client), {
+      wrapper: wrapperFor(queryClient),
+    });
+    act(() => result.current.mutate({ commentId: 42, reaction: '🔥' }));
+
+    await waitFor(() =>
+      expect(queryClient.getQueryData(key)).toMatchObject({
+        data: [{ reaction: '🔥', count: 3, reacted: true }],
+      })
+    );
+    await act(async () => resolve(server as never));
+    await waitFor(() => expect(queryClient.getQueryData(key)).toEqual(server));
+  });
+});
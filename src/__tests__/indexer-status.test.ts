@@ -0,0 +1,141 @@
+/**
+ * Tests for useIndexerStatus - verifies subsystem checks combine into one status
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { NetworkClient } from '@sudobility/types';
+import { IndexerClient } from '../network/IndexerClient';
+import { IndexerProvider, useIndexerStatus } from '../index';
+import type { IndexerQueryDefaults } from '../index';
+
+const createMockNetworkClient = (): NetworkClient => ({
+  request: vi.fn(),
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  delete: vi.fn(),
+});
+
+const ok = <T>(data: T) => ({ success: true, data, timestamp: '' }) as never;
+
+const createClient = () => {
+  const client = new IndexerClient('http://localhost:42069', createMockNetworkClient());
+  vi.spyOn(client, 'getHealth').mockResolvedValue(ok({ status: 'healthy' }));
+  vi.spyOn(client, 'getApiInfo').mockResolvedValue(ok({ name: 'heavymath', version: '1.2.0' }));
+  vi.spyOn(client, 'getServiceHealth').mockResolvedValue(ok({ status: 'ok' }));
+  vi.spyOn(client, 'getSportsHealth').mockResolvedValue(ok({ status: 'ok' }));
+  vi.spyOn(client, 'getSSEStats').mockResolvedValue(ok({ clients: 3, subscriptions: 5 }));
+  return client;
+};
+
+const wrapper = ({ children }: { children?: ReactNode }) =>
+  createElement(QueryClientProvider, { client: new QueryClient() }, children);
+
+const renderStatus = (client: IndexerClient) =>
+  renderHook(() => useIndexerStatus(client, { refetchInterval: false }), { wrapper });
+
+// Provider defaults that would stop polling and hold failures back for minutes
+const SLOW_DEFAULTS: IndexerQueryDefaults = {
+  staleTime: Infinity,
+  retry: 3,
+  retryDelay: 60_000,
+  refetchInterval: false,
+};
+
+const renderInProvider = (client: IndexerClient) =>
+  renderHook(() => useIndexerStatus(), {
+    wrapper: ({ children }: { children?: ReactNode }) =>
+      createElement(
+        QueryClientProvider,
+        { client: new QueryClient() },
+        createElement(IndexerProvider, { client, queryDefaults: SLOW_DEFAULTS }, children)
+      ),
+  });
+
+describe('useIndexerStatus', () => {
+  it('should be ok when every subsystem is ok', async () => {
+    const { result } = renderStatus(createClient());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.status).toBe('ok');
+    expect(result.current.reasons).toEqual([]);
+    expect(result.current.apiInfo).toEqual({ name: 'heavymath', version: '1.2.0' });
+  });
+
+  it('should be degraded when a subsystem reports a degraded status', async () => {
+    const client = createClient();
+    vi.mocked(client.getSportsHealth).mockResolvedValue(ok({ status: 'degraded' }));
+    const { result } = renderStatus(client);
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.status).toBe('degraded');
+    expect(result.current.subsystems.sports).toMatchObject({ status: 'degraded' });
+    expect(result.current.reasons).toEqual(['Sports proxy reports status "degraded"']);
+  });
+
+  it('should be degraded but not down when a non-core check fails', async () => {
+    const client = createClient();
+    vi.mocked(client.getSSEStats).mockRejectedValue(
+      new Error('API Error (503): Service unavailable')
+    );
+    const { result } = renderStatus(client);
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.status).toBe('degraded');
+    expect(result.current.subsystems.sse.status).toBe('down');
+    expect(result.current.reasons[0]).toMatch(/^Event stream unreachable/);
+  });
+
+  it('should be down when /api/health fails', async () => {
+    const client = createClient();
+    vi.mocked(client.getHealth).mockRejectedValue(new Error('Network error'));
+    const { result } = renderStatus(client);
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.status).toBe('down');
+    expect(result.current.subsystems.health.reason).toBe('Indexer API unreachable: Network error');
+  });
+
+  describe('inside an IndexerProvider with query defaults', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep polling every 30 seconds', async () => {
+      vi.useFakeTimers();
+      const client = createClient();
+      renderInProvider(client);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(client.getHealth).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(client.getHealth).toHaveBeenCalledTimes(2);
+      expect(client.getSSEStats).toHaveBeenCalledTimes(2);
+    });
+
+    it('should be down when only /api/health fails, without waiting for retries', async () => {
+      const client = createClient();
+      vi.mocked(client.getHealth).mockRejectedValue(new Error('Network error'));
+      const { result } = renderInProvider(client);
+
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(result.current.status).toBe('down');
+      expect(result.current.reasons).toEqual(['Indexer API unreachable: Network error']);
+    });
+
+    it('should be degraded when only another subsystem fails', async () => {
+      const client = createClient();
+      vi.mocked(client.getServiceHealth).mockRejectedValue(new Error('Network error'));
+      const { result } = renderInProvider(client);
+
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(result.current.status).toBe('degraded');
+      expect(result.current.reasons).toEqual(['Services unreachable: Network error']);
+    });
+  });
+});
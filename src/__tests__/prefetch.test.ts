@@ -0,0 +1,152 @@
+/**
+ * Tests for the prefetch helpers - verifies they fill the keys the hooks read
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider, dehydrate, hydrate } from '@tanstack/react-query';
+import type { NetworkClient } from '@sudobility/types';
+import { IndexerClient } from '../network/IndexerClient';
+import {
+  heavymathKeys,
+  prefetchInfiniteMarkets,
+  prefetchMarketDetails,
+  prefetchUserBettingHistory,
+  useMarketDetails,
+  useSSE,
+  useUserBettingHistory,
+} from '../index';
+
+const MARKET_ID = '1-market-1';
+const WALLET = '0xuser';
+
+const createMockNetworkClient = (): NetworkClient => ({
+  request: vi.fn(),
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  delete: vi.fn(),
+});
+
+const page = <T>(data: T[]) => ({
+  success: true,
+  data,
+  pagination: { limit: 50, offset: 0, total: data.length, hasMore: false },
+  timestamp: '',
+});
+
+const createClient = () => {
+  const client = new IndexerClient('http://localhost:42069', createMockNetworkClient());
+  vi.spyOn(client, 'getMarket').mockResolvedValue({
+    success: true,
+    data: { id: MARKET_ID },
+    timestamp: '',
+  } as Awaited<ReturnType<IndexerClient['getMarket']>>);
+  vi.spyOn(client, 'getMarketPredictions').mockResolvedValue(
+    page([{ id: `${MARKET_ID}-${WALLET}` }]) as Awaited<
+      ReturnType<IndexerClient['getMarketPredictions']>
+    >
+  );
+  vi.spyOn(client, 'getMarketHistory').mockResolvedValue({
+    success: true,
+    data: [],
+    timestamp: '',
+  } as Awaited<ReturnType<IndexerClient['getMarketHistory']>>);
+  vi.spyOn(client, 'getPredictions').mockResolvedValue(
+    page([]) as Awaited<ReturnType<IndexerClient['getPredictions']>>
+  );
+  vi.spyOn(client, 'getMarkets').mockResolvedValue(
+    page([{ id: MARKET_ID }]) as Awaited<ReturnType<IndexerClient['getMarkets']>>
+  );
+  return client;
+};
+
+// Dehydrate on the "server" and hydrate into a fresh "browser" client
+const transfer = (serverClient: QueryClient) => {
+  const browserClient = new QueryClient();
+  hydrate(browserClient, JSON.parse(JSON.stringify(dehydrate(serverClient))));
+  return browserClient;
+};
+
+const wrapperFor = (queryClient: QueryClient) =>
+  function Wrapper({ children }: { children?: ReactNode }) {
+    return createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+
+describe('prefetch helpers', () => {
+  it('should render useMarketDetails from prefetched state without fetching', async () => {
+    const serverClient = new QueryClient();
+    await prefetchMarketDetails(serverClient, createClient(), MARKET_ID);
+
+    const browserIndexer = createClient();
+    const { result } = renderHook(() => useMarketDetails(browserIndexer, MARKET_ID), {
+      wrapper: wrapperFor(transfer(serverClient)),
+    });
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.market.data?.data).toEqual({ id: MARKET_ID });
+    expect(result.current.predictions.data?.data).toHaveLength(1);
+    expect(result.current.history.data?.data).toEqual([]);
+    expect(browserIndexer.getMarket).not.toHaveBeenCalled();
+  });
+
+  it('should fill the keys read by useUserBettingHistory', async () => {
+    const serverClient = new QueryClient();
+    await prefetchUserBettingHistory(serverClient, createClient(), WALLET);
+
+    const browserIndexer = createClient();
+    const { result } = renderHook(() => useUserBettingHistory(browserIndexer, WALLET), {
+      wrapper: wrapperFor(transfer(serverClient)),
+    });
+
+    expect(result.current.isLoading).toBe(false);
+    expect(browserIndexer.getPredictions).not.toHaveBeenCalled();
+  });
+
+  it('should prefetch the first page of an infinite list', async () => {
+    const queryClient = new QueryClient();
+    const client = createClient();
+    await prefetchInfiniteMarkets(queryClient, client, { status: 'Active', limit: 10 });
+
+    expect(client.getMarkets).toHaveBeenCalledWith(
+      { status: 'Active', limit: 10, offset: 0 },
+      expect.anything()
+    );
+    const data = queryClient.getQueryData<{ pages: unknown[]; pageParams: number[] }>(
+      heavymathKeys.markets.infinite({ status: 'Active', limit: 10 })
+    );
+    expect(data?.pageParams).toEqual([0]);
+    expect(data?.pages).toHaveLength(1);
+  });
+
+  it('should leave failed requests out of the dehydrated state', async () => {
+    const queryClient = new QueryClient();
+    const client = createClient();
+    vi.mocked(client.getMarketHistory).mockRejectedValue(new Error('boom'));
+
+    await expect(prefetchMarketDetails(queryClient, client, MARKET_ID)).resolves.toBeUndefined();
+
+    const keys = dehydrate(queryClient).queries.map(query => query.queryKey);
+    expect(keys).toContainEqual(heavymathKeys.markets.detail(MARKET_ID));
+    expect(keys).not.toContainEqual(heavymathKeys.markets.history(MARKET_ID));
+  });
+});
+
+describe('useSSE during server-side rendering', () => {
+  it('should not create an EventSource', () => {
+    const createEventSource = vi.fn();
+    function Subscriber() {
+      useSSE('http://localhost:42069', { channel: 'markets', createEventSource });
+      return null;
+    }
+
+    renderToString(
+      createElement(QueryClientProvider, { client: new QueryClient() }, createElement(Subscriber))
+    );
+
+    expect(createEventSource).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for heavymathKeys - verifies the public key hierarchy
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { heavymathKeys } from '../index';
+
+describe('heavymathKeys', () => {
+  it('should nest every key under the package root', () => {
+    const keys = [
+      heavymathKeys.markets.list({ status: 'Active' }),
+      heavymathKeys.predictions.detail('1-market-1-0xuser'),
+      heavymathKeys.dealers.nfts('0xdealer'),
+      heavymathKeys.withdrawals.infinite(),
+      heavymathKeys.oracle.config('1-market-1'),
+      heavymathKeys.health(),
+      heavymathKeys.status.sse(),
+      heavymathKeys.favorites.counts('sports', 'football', 'team'),
+      heavymathKeys.discussions.comments(7),
+      heavymathKeys.sports.search('arsenal'),
+    ];
+
+    keys.forEach(key => expect(key[0]).toBe(heavymathKeys.all()[0]));
+  });
+
+  it('should make each level a prefix of the levels below it', () => {
+    const list = heavymathKeys.markets.list({ dealer: '0xdealer' });
+    const infinite = heavymathKeys.markets.infinite({ dealer: '0xdealer' });
+
+    expect(list.slice(0, 3)).toEqual(heavymathKeys.markets.lists());
+    expect(infinite.slice(0, 3)).toEqual(heavymathKeys.markets.lists());
+    expect(heavymathKeys.markets.lists().slice(0, 2)).toEqual(heavymathKeys.markets.all());
+    expect(heavymathKeys.favorites.infinite('0xuser').slice(0, 4)).toEqual(
+      heavymathKeys.favorites.wallet('0xuser')
+    );
+  });
+
+  it('should invalidate lists without touching details', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(heavymathKeys.markets.list(), {});
+    queryClient.setQueryData(heavymathKeys.markets.infinite({ category: 'sports' }), {});
+    queryClient.setQueryData(heavymathKeys.markets.detail('1-market-1'), {});
+
+    queryClient.invalidateQueries({ queryKey: heavymathKeys.markets.lists() });
+
+    const isInvalidated = (key: readonly unknown[]) =>
+      queryClient.getQueryState(key)?.isInvalidated ?? false;
+    expect(isInvalidated(heavymathKeys.markets.list())).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.infinite({ category: 'sports' }))).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.detail('1-market-1'))).toBe(false);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Tests for SSE cache patching - verifies events update cached query data in place
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { heavymathKeys } from '../hooks/query-keys';
+import { patchEventQueries } from '../hooks/sse-cache-patch';
+import {
+  flushEventReconcile,
+  invalidateEventBatch,
+  scheduleEventReconcile,
+} from '../hooks/sse-invalidation';
+import type { SSEEventMessage } from '../types';
+
+const MARKET_ID = '1-market-1';
+
+let timestamp = 1_700_000_000_000;
+const event = (eventType: string, data: Record<string, unknown>) =>
+  ({
+    type: 'data_update',
+    subscriptionId: 'sub-1',
+    eventType,
+    data,
+    timestamp: ++timestamp,
+  }) as SSEEventMessage;
+
+const prediction = (userAddress: string, amount: string) => ({
+  id: `${MARKET_ID}-${userAddress}`,
+  chainId: 1,
+  marketId: MARKET_ID,
+  userAddress,
+  amount,
+  percentage: 50,
+  outcome: 'yes',
+  hasClaimed: false,
+  claimedAmount: null,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  lastBlockNumber: '1',
+  lastTransactionHash: '0xtx',
+});
+
+const market = (overrides: Record<string, unknown> = {}) => ({
+  id: MARKET_ID,
+  marketId: MARKET_ID,
+  status: 'Active',
+  outcome: null,
+  resolvedAt: null,
+  ...overrides,
+});
+
+describe('patchEventQueries', () => {
+  let queryClient: QueryClient;
+
+  const predictionsOf = (marketId = MARKET_ID) =>
+    queryClient.getQueryData<{ data: ReturnType<typeof prediction>[] }>(
+      heavymathKeys.markets.predictions(marketId)
+    )?.data;
+  const marketOf = (marketId = MARKET_ID) =>
+    queryClient.getQueryData<{ data: Record<string, unknown> }>(
+      heavymathKeys.markets.detail(marketId)
+    )?.data;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+    queryClient.setQueryData(heavymathKeys.markets.predictions(MARKET_ID), {
+      success: true,
+      data: [prediction('0xalice', '100')],
+      timestamp: '',
+    });
+    queryClient.setQueryData(heavymathKeys.markets.detail(MARKET_ID), {
+      success: true,
+      data: market({ totalPool: '100', predictionCount: 1 }),
+      timestamp: '',
+    });
+  });
+
+  it('should append a new prediction and bump pool totals', () => {
+    patchEventQueries(
+      queryClient,
+      event('PredictionPlaced', {
+        marketId: MARKET_ID,
+        predictor: '0xbob',
+        amount: '50',
+        percentage: '25',
+        chainId: 1,
+      })
+    );
+
+    expect(predictionsOf()).toHaveLength(2);
+    expect(predictionsOf()?.[1]).toMatchObject({
+      userAddress: '0xbob',
+      amount: '50',
+      percentage: 25,
+      hasClaimed: false,
+    });
+    expect(marketOf()).toMatchObject({ totalPool: '150', predictionCount: 2 });
+  });
+
+  it('should update an existing prediction and adjust the pool by the difference', () => {
+    patchEventQueries(
+      queryClient,
+      event('PredictionUpdated', {
+        marketId: MARKET_ID,
+        predictor: '0xALICE',
+        newAmount: '130',
+        newPercentage: '60',
+        chainId: 1,
+      })
+    );
+
+    expect(predictionsOf()).toHaveLength(1);
+    expect(predictionsOf()?.[0]).toMatchObject({ amount: '130', percentage: 60 });
+    expect(marketOf()).toMatchObject({ totalPool: '130', predictionCount: 1 });
+  });
+
+  it('should apply the same event only once', () => {
+    const placed = event('PredictionPlaced', {
+      marketId: MARKET_ID,
+      predictor: '0xbob',
+      amount: '50',
+      percentage: '25',
+      chainId: 1,
+    });
+
+    patchEventQueries(queryClient, placed);
+    patchEventQueries(queryClient, { ...placed });
+
+    expect(predictionsOf()).toHaveLength(2);
+    expect(marketOf()).toMatchObject({ totalPool: '150', predictionCount: 2 });
+  });
+
+  it('should leave totals the cached market does not carry untouched', () => {
+    queryClient.setQueryData(heavymathKeys.markets.detail(MARKET_ID), {
+      success: true,
+      data: market(),
+      timestamp: '',
+    });
+
+    patchEventQueries(
+      queryClient,
+      event('PredictionPlaced', {
+        marketId: MARKET_ID,
+        predictor: '0xbob',
+        amount: '50',
+        percentage: '25',
+        chainId: 1,
+      })
+    );
+
+    expect(marketOf()).not.toHaveProperty('totalPool');
+    expect(marketOf()).not.toHaveProperty('predictionCount');
+  });
+
+  it('should not count a predictor when the market predictions are not cached', () => {
+    queryClient.removeQueries({ queryKey: heavymathKeys.markets.predictions(MARKET_ID) });
+
+    patchEventQueries(
+      queryClient,
+      event('PredictionPlaced', {
+        marketId: MARKET_ID,
+        predictor: '0xalice',
+        amount: '50',
+        percentage: '25',
+        chainId: 1,
+      })
+    );
+
+    expect(marketOf()).toMatchObject({ totalPool: '150', predictionCount: 1 });
+  });
+
+  it('should mark claimed predictions', () => {
+    patchEventQueries(
+      queryClient,
+      event('WinningsClaimed', {
+        marketId: MARKET_ID,
+        predictor: '0xalice',
+        amount: '180',
+        chainId: 1,
+      })
+    );
+
+    expect(predictionsOf()?.[0]).toMatchObject({ hasClaimed: true, claimedAmount: '180' });
+  });
+
+  it('should flip market status on resolution in details and lists', () => {
+    queryClient.setQueryData(heavymathKeys.markets.list(), {
+      success: true,
+      data: [market(), market({ id: '1-market-2', marketId: '1-market-2' })],
+      timestamp: '',
+    });
+    queryClient.setQueryData(heavymathKeys.markets.infinite({ dealer: '0xdealer' }), {
+      pages: [{ success: true, data: [market()], timestamp: '' }],
+      pageParams: [1],
+    });
+
+    patchEventQueries(
+      queryClient,
+      event('MarketResolved', { marketId: MARKET_ID, resolution: 'yes', chainId: 1 })
+    );
+
+    expect(marketOf()).toMatchObject({ status: 'Resolved', outcome: 'yes' });
+    expect(marketOf()?.resolvedAt).toEqual(expect.any(String));
+
+    const list = queryClient.getQueryData<{ data: Record<string, unknown>[] }>(
+      heavymathKeys.markets.list()
+    );
+    expect(list?.data.map(m => m.status)).toEqual(['Resolved', 'Active']);
+
+    const infinite = queryClient.getQueryData<{ pages: { data: Record<string, unknown>[] }[] }>(
+      heavymathKeys.markets.infinite({ dealer: '0xdealer' })
+    );
+    expect(infinite?.pages[0].data[0].status).toBe('Resolved');
+  });
+
+  it('should match markets on their chain-prefixed id, not their on-chain id', () => {
+    queryClient.setQueryData(heavymathKeys.markets.list(), {
+      success: true,
+      data: [
+        market({ id: '1-market-7', marketId: '7' }),
+        market({ id: '2-market-7', marketId: '7' }),
+      ],
+      timestamp: '',
+    });
+
+    patchEventQueries(queryClient, event('MarketCancelled', { marketId: '7', chainId: 2 }));
+
+    const list = queryClient.getQueryData<{ data: Record<string, unknown>[] }>(
+      heavymathKeys.markets.list()
+    );
+    expect(list?.data.map(m => m.status)).toEqual(['Active', 'Active']);
+  });
+
+  it('should ignore events for markets that are not cached', () => {
+    patchEventQueries(
+      queryClient,
+      event('PredictionPlaced', {
+        marketId: '1-market-9',
+        predictor: '0xbob',
+        amount: '50',
+        percentage: '25',
+        chainId: 1,
+      })
+    );
+
+    expect(predictionsOf('1-market-9')).toBeUndefined();
+    expect(marketOf('1-market-9')).toBeUndefined();
+  });
+});
+
+describe('invalidateEventBatch', () => {
+  it('should invalidate each affected query once for a burst of events', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(heavymathKeys.markets.predictions(MARKET_ID), {});
+    queryClient.setQueryData(heavymathKeys.markets.predictions('1-market-2'), {});
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+
+    const placed = (predictor: string) =>
+      event('PredictionPlaced', { marketId: MARKET_ID, predictor, amount: '1', percentage: '1' });
+    invalidateEventBatch(queryClient, [placed('0xa'), placed('0xb'), placed('0xc')]);
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(
+      queryClient.getQueryState(heavymathKeys.markets.predictions(MARKET_ID))?.isInvalidated
+    ).toBe(true);
+    expect(
+      queryClient.getQueryState(heavymathKeys.markets.predictions('1-market-2'))?.isInvalidated
+    ).toBe(false);
+  });
+});
+
+describe('scheduleEventReconcile', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should refetch once for an event seen by every hook on a shared connection', () => {
+    vi.useFakeTimers();
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(heavymathKeys.markets.predictions(MARKET_ID), {});
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+
+    const placed = event('PredictionPlaced', {
+      marketId: MARKET_ID,
+      predictor: '0xa',
+      amount: '1',
+      percentage: '1',
+    });
+    // Three hooks on one connection each receive the same event
+    scheduleEventReconcile(queryClient, placed, 2000);
+    scheduleEventReconcile(queryClient, placed, 2000);
+    scheduleEventReconcile(queryClient, placed, 2000);
+    expect(invalidate).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(2000);
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(
+      queryClient.getQueryState(heavymathKeys.markets.predictions(MARKET_ID))?.isInvalidated
+    ).toBe(true);
+
+    // Nothing is left queued
+    flushEventReconcile(queryClient);
+    vi.advanceTimersByTime(2000);
+    expect(invalidate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import type { QueryKey } from '@tanstack/react-query';
+import { heavymathKeys } from '../hooks/query-keys';
+import { invalidateEventQueries } from '../hooks/sse-invalidation';
+
+describe('invalidateEventQueries', () => {
+  let queryClient: QueryClient;
+
+  const seed = (...keys: QueryKey[]) => keys.forEach(key => queryClient.setQueryData(key, {}));
+  const isInvalidated = (key: QueryKey) => queryClient.getQueryState(key)?.isInvalidated ?? false;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+  });
+
+  it('should scope market events to the market, its dealer and matching lists', () => {
+    seed(
+      heavymathKeys.markets.detail('1-market-1'),
+      heavymathKeys.markets.detail('1-market-2'),
+      heavymathKeys.markets.history('1-market-1'),
+      heavymathKeys.markets.stats(),
+      heavymathKeys.markets.list(),
+      heavymathKeys.markets.infinite({ dealer: '0xabc' }),
+      heavymathKeys.markets.list({ dealer: '0xdef' }),
+      heavymathKeys.dealers.dashboardMarkets('0xABC'),
+      heavymathKeys.dealers.dashboardMarkets('0xdef')
+    );
+
+    invalidateEventQueries(queryClient, 'MarketCreated', {
+      marketId: '1-market-1',
+      dealer: '0xabc',
+      category: 'sports',
+      chainId: 1,
+    });
+
+    expect(isInvalidated(heavymathKeys.markets.detail('1-market-1'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.history('1-market-1'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.stats())).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.list())).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.infinite({ dealer: '0xabc' }))).toBe(true);
+    expect(isInvalidated(heavymathKeys.dealers.dashboardMarkets('0xABC'))).toBe(true);
+
+    expect(isInvalidated(heavymathKeys.markets.detail('1-market-2'))).toBe(false);
+    expect(isInvalidated(heavymathKeys.markets.list({ dealer: '0xdef' }))).toBe(false);
+    expect(isInvalidated(heavymathKeys.dealers.dashboardMarkets('0xdef'))).toBe(false);
+  });
+
+  it('should scope prediction events to the predictor and market', () => {
+    seed(
+      heavymathKeys.markets.predictions('1-market-1'),
+      heavymathKeys.markets.stats(),
+      heavymathKeys.predictions.list({ user: '0xuser', claimed: false }),
+      heavymathKeys.predictions.list({ user: '0xother' }),
+      heavymathKeys.predictions.list({ market: '1-market-2' })
+    );
+
+    invalidateEventQueries(queryClient, 'PredictionPlaced', {
+      marketId: '1-market-1',
+      predictor: '0xUSER',
+    });
+
+    expect(isInvalidated(heavymathKeys.markets.predictions('1-market-1'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.stats())).toBe(true);
+    expect(isInvalidated(heavymathKeys.predictions.list({ user: '0xuser', claimed: false }))).toBe(
+      true
+    );
+    expect(isInvalidated(heavymathKeys.predictions.list({ user: '0xother' }))).toBe(false);
+    expect(isInvalidated(heavymathKeys.predictions.list({ market: '1-market-2' }))).toBe(false);
+  });
+
+  it("should refresh the predictor's wallet, and every wallet when a market settles", () => {
+    seed(
+      heavymathKeys.wallet.balance('0xuser'),
+      heavymathKeys.wallet.history('0xuser', { limit: 20 }),
+      heavymathKeys.wallet.balance('0xother')
+    );
+
+    invalidateEventQueries(queryClient, 'WinningsClaimed', {
+      marketId: '1-market-1',
+      predictor: '0xUSER',
+    });
+
+    expect(isInvalidated(heavymathKeys.wallet.balance('0xuser'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.wallet.history('0xuser', { limit: 20 }))).toBe(true);
+    expect(isInvalidated(heavymathKeys.wallet.balance('0xother'))).toBe(false);
+
+    invalidateEventQueries(queryClient, 'MarketResolved', { marketId: '1-market-1' });
+
+    expect(isInvalidated(heavymathKeys.wallet.balance('0xother'))).toBe(true);
+  });
+
+  it('should refresh per-market and dealer stats on prediction events', () => {
+    seed(
+      heavymathKeys.markets.detailStats('1-market-1'),
+      heavymathKeys.markets.detailStats('1-market-2'),
+      heavymathKeys.dealers.stats('1-1'),
+      heavymathKeys.markets.categoryCounts()
+    );
+
+    invalidateEventQueries(queryClient, 'PredictionPlaced', {
+      marketId: '1-market-1',
+      predictor: '0xuser',
+    });
+
+    expect(isInvalidated(heavymathKeys.markets.detailStats('1-market-1'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.dealers.stats('1-1'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.markets.detailStats('1-market-2'))).toBe(false);
+    expect(isInvalidated(heavymathKeys.markets.categoryCounts())).toBe(false);
+
+    invalidateEventQueries(queryClient, 'MarketCreated', { marketId: '1-market-3' });
+
+    expect(isInvalidated(heavymathKeys.markets.categoryCounts())).toBe(true);
+  });
+
+  it('should invalidate the oracle keys the oracle hooks use', () => {
+    seed(
+      heavymathKeys.oracle.list(),
+      heavymathKeys.oracle.config('1-market-1'),
+      heavymathKeys.oracle.resolutionCheck('1-market-1'),
+      heavymathKeys.oracle.config('1-market-2')
+    );
+
+    invalidateEventQueries(queryClient, 'OracleDataUpdated', { marketId: '1-market-1' });
+
+    expect(isInvalidated(heavymathKeys.oracle.list())).toBe(true);
+    expect(isInvalidated(heavymathKeys.oracle.config('1-market-1'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.oracle.resolutionCheck('1-market-1'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.oracle.config('1-market-2'))).toBe(false);
+  });
+
+  it('should invalidate license queries for every wallet in the event', () => {
+    seed(
+      heavymathKeys.dealers.nfts('0xfrom'),
+      heavymathKeys.dealers.nfts('0xto'),
+      heavymathKeys.dealers.isDealer('0xto'),
+      heavymathKeys.dealers.nfts('0xother')
+    );
+
+    invalidateEventQueries(queryClient, 'LicenseTransferred', { from: '0xfrom', to: '0xto' });
+
+    expect(isInvalidated(heavymathKeys.dealers.nfts('0xfrom'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.dealers.nfts('0xto'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.dealers.isDealer('0xto'))).toBe(true);
+    expect(isInvalidated(heavymathKeys.dealers.nfts('0xother'))).toBe(false);
+  });
+
+  it('should invalidate comments of the affected discussion', () => {
+    seed(
+      heavymathKeys.discussions.detail('market', 'football', '1-market-1'),
+      heavymathKeys.discussions.comments(7, { page: 1 }),
+      heavymathKeys.discussions.comments(8)
+    );
+
+    invalidateEventQueries(queryClient, 'CommentAdded', { discussionId: 7 });
+
+    expect(
+      isInvalidated(heavymathKeys.discussions.detail('market', 'football', '1-market-1'))
+    ).toBe(true);
+    expect(isInvalidated(heavymathKeys.discussions.comments(7, { page: 1 }))).toBe(true);
+    expect(isInvalidated(heavymathKeys.discussions.comments(8))).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Persistent cache backends for IndexerService
+ * A CacheStore holds serialized, versioned cache entries so cached indexer data
+ * survives reloads (browser) and cold starts (React Native).
+ */
+
+/**
+ * Key-value storage used by IndexerService as a second-level cache.
+ * The method set mirrors React Native's AsyncStorage so adapters stay thin.
+ */
+export interface CacheStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+/**
+ * Minimal subset of the Web Storage API used by {@link LocalStorageCacheStore}.
+ */
+export type WebStorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'>;
+
+/**
+ * Minimal subset of `@react-native-async-storage/async-storage` used by
+ * {@link AsyncStorageCacheStore}.
+ */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+/**
+ * Schema version of the cached payloads. Bumped whenever the shape of cached
+ * data changes, so entries persisted by an older release are discarded.
+ */
+export const CACHE_SCHEMA_VERSION = 1;
+
+/**
+ * Serialized form of a cache entry.
+ */
+export interface PersistedCacheEntry {
+  version: string | number;
+  data: unknown;
+  expires: number;
+  staleUntil: number;
+}
+
+/**
+ * Serialize a cache entry with its schema version.
+ */
+export function serializeCacheEntry(entry: PersistedCacheEntry): string {
+  return JSON.stringify(entry);
+}
+
+/**
+ * Parse a serialized cache entry.
+ *
+ * @param raw - The stored string
+ * @param version - The schema version the caller expects
+ * @returns The entry, or null if it is malformed or was written for another version
+ */
+export function deserializeCacheEntry(
+  raw: string,
+  version: string | number
+): PersistedCacheEntry | null {
+  try {
+    const entry = JSON.parse(raw) as Partial<PersistedCacheEntry> | null;
+    if (
+      !entry ||
+      entry.version !== version ||
+      typeof entry.expires !== 'number' ||
+      typeof entry.staleUntil !== 'number'
+    ) {
+      return null;
+    }
+    return entry as PersistedCacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * In-memory CacheStore. Useful for sharing a cache between several
+ * IndexerService instances in one process, and in tests.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    return Array.from(this.items.keys());
+  }
+}
+
+/**
+ * CacheStore backed by `window.localStorage` (or any Web Storage object).
+ *
+ * @example
+ * ```ts
+ * const service = new IndexerService({ indexerUrl, networkClient, cacheStore: new LocalStorageCacheStore() });
+ * ```
+ */
+export class LocalStorageCacheStore implements CacheStore {
+  private readonly storage: WebStorageLike;
+
+  /**
+   * @param storage - Web Storage object to use (default: `window.localStorage`)
+   */
+  constructor(storage?: WebStorageLike) {
+    const resolved = storage ?? (typeof window !== 'undefined' ? window.localStorage : undefined);
+    if (!resolved) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    this.storage = resolved;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * CacheStore backed by React Native AsyncStorage (or any compatible API).
+ *
+ * @example
+ * ```ts
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * const service = new IndexerService({
+ *   indexerUrl,
+ *   networkClient,
+ *   cacheStore: new AsyncStorageCacheStore(AsyncStorage),
+ * });
+ * ```
+ */
+export class AsyncStorageCacheStore implements CacheStore {
+  private readonly storage: AsyncStorageLike;
+
+  constructor(storage: AsyncStorageLike) {
+    this.storage = storage;
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.storage.removeItem(key);
+  }
+
+  getAllKeys(): Promise<readonly string[]> {
+    return this.storage.getAllKeys();
+  }
+}
@@ -3,3 +3,4 @@
  */
 
 export * from './indexer-service';
+export * from './cache-store';
@@ -5,18 +5,47 @@
 
 import type { NetworkClient } from '@sudobility/types';
 import { IndexerClient } from '../network/IndexerClient';
+import { IndexerEventStream } from '../network/IndexerEventStream';
+import type { EventSourceFactory } from '../network/IndexerEventStream';
+import type { RequestPolicy } from '../network/request-policy';
+import type { ResponseValidationOptions } from '../network/validation';
+import { isIndexerError } from '../network/errors';
+import { fetchAll } from '../network/pagination';
+import { CACHE_SCHEMA_VERSION, deserializeCacheEntry, serializeCacheEntry } from './cache-store';
+import type { CacheStore } from './cache-store';
 import type {
   MarketData,
   MarketDetailData,
   PredictionData,
   DealerWithPermissionsData,
+  DealerStatsData,
   PaginatedResponse,
   ApiResponse,
   PredictionFilters,
   MarketStateHistoryData,
   MarketStatsData,
+  WalletBalanceSummaryData,
+  WalletBalanceDetailData,
+  WalletHistoryItemData,
+  SSEDataUpdateMessage,
+  SSEEventType,
+  SSEFilters,
+  SubscriptionChannel,
 } from '../types';
 
+/**
+ * IndexerService methods whose results are cached. Used to key per-method TTLs.
+ */
+export type CachedMethod =
+  | 'getActiveMarkets'
+  | 'getUserPredictions'
+  | 'getDealerNFTs'
+  | 'getDealerDashboard'
+  | 'getMarketDetails'
+  | 'getUserBettingHistory'
+  | 'getMarketStats'
+  | 'getWalletOverview';
+
 /**
  * Configuration for IndexerService
  */
@@ -24,6 +53,151 @@ export interface IndexerServiceConfig {
   indexerUrl: string;
   networkClient: NetworkClient;
   cacheTTL?: number; // Cache time-to-live in milliseconds (default: 5 minutes)
+  cacheTTLs?: Partial<Record<CachedMethod, number>>; // Per-method TTLs in milliseconds, overriding cacheTTL
+  maxCacheEntries?: number; // LRU bound on cached entries (default: 500)
+  staleWhileRevalidate?: number; // Extra ms after expiry that serves stale data while refreshing (default: 0)
+  cacheStore?: CacheStore; // Persistent second-level cache (e.g. AsyncStorageCacheStore); memory-only when omitted
+  cacheVersion?: string | number; // Version stamped on persisted entries; entries with another version are discarded
+  requestPolicy?: RequestPolicy; // Timeout and retry policy for the underlying IndexerClient
+  validation?: ResponseValidationOptions; // Runtime response validation for the underlying IndexerClient
+}
+
+/**
+ * Cache counters returned by {@link IndexerService.getCacheStats}.
+ */
+export interface CacheStats {
+  /** Reads served from a fresh entry */
+  hits: number;
+  /** Reads served from a stale entry while it was refreshed in the background */
+  staleHits: number;
+  /** Reads that had to wait for the network */
+  misses: number;
+  /** Entries dropped to respect `maxCacheEntries` */
+  evictions: number;
+  /** Entries currently cached */
+  size: number;
+}
+
+/**
+ * Options for {@link IndexerService.subscribeToEvents}.
+ */
+export interface IndexerEventSubscriptionOptions {
+  /** Channels to subscribe to, one EventSource each (default: markets, predictions, dealers, oracle) */
+  channels?: SubscriptionChannel[];
+  /** Server-side event filters applied to every channel */
+  filters?: SSEFilters;
+  /** Creates the EventSource; required where no global EventSource exists (e.g. Node bots) */
+  createEventSource?: EventSourceFactory;
+  /** Called when a connection reports an error (connections keep reconnecting) */
+  onError?: (error: Error, channel: SubscriptionChannel) => void;
+}
+
+/** In-memory cache entry; `staleUntil` is `expires` plus the stale-while-revalidate window */
+type CacheEntry = { data: unknown; expires: number; staleUntil: number };
+
+/** Namespace for IndexerService entries in a shared CacheStore */
+const STORE_KEY_PREFIX = 'heavymath-indexer:';
+
+/** Read a string field from an untyped SSE event payload */
+function eventField(data: Record<string, unknown>, field: string): string | undefined {
+  const value = data[field];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Whether a cache key falls under an event prefix. Prefixes are matched up to
+ * a key separator, so 'market-details:1-market-1' leaves 'market-details:1-market-10'
+ * alone; a namespace ending in ':' matches every key in it.
+ */
+function matchesEventPrefix(key: string, prefix: string): boolean {
+  if (prefix.endsWith(':')) return key.startsWith(prefix);
+  return key === prefix || key.startsWith(`${prefix}:`);
+}
+
+/**
+ * Map an indexer event to the cache key prefixes it makes stale.
+ * A namespace without an id (e.g. 'dealer-dashboard:') is used when the event
+ * does not say which entry changed.
+ */
+function getEventCachePrefixes(eventType: SSEEventType, data: unknown): string[] {
+  const eventData = (typeof data === 'object' && data !== null ? data : {}) as Record<
+    string,
+    unknown
+  >;
+  const marketId = eventField(eventData, 'marketId');
+  const predictor = eventField(eventData, 'predictor');
+  const dealer = eventField(eventData, 'dealer');
+  const owners = ['owner', 'to', 'from', 'dealer']
+    .map(field => eventField(eventData, field))
+    .filter((owner): owner is string => !!owner);
+  const marketDetails = marketId ? [`market-details:${marketId}`] : ['market-details:'];
+
+  switch (eventType) {
+    case 'MarketCreated':
+    case 'MarketResolved':
+    case 'MarketCancelled':
+    case 'MarketAbandoned':
+    case 'DealerFeeSet':
+      // Dealer markets and stats are keyed by NFT id, which market events do not carry
+      return [
+        'active-markets',
+        'market-stats',
+        ...marketDetails,
+        'dealer-markets:',
+        'dealer-stats:',
+        dealer ? `dealer-dashboard:${dealer}` : 'dealer-dashboard:',
+        // Settling a market changes the claimable balance of every wallet with a stake
+        ...(eventType === 'MarketCreated' || eventType === 'DealerFeeSet'
+          ? []
+          : ['wallet-overview:']),
+      ];
+
+    case 'PredictionPlaced':
+    case 'PredictionUpdated':
+    case 'WinningsClaimed':
+    case 'RefundClaimed':
+      return [
+        'market-stats',
+        ...marketDetails,
+        ...(predictor
+          ? [
+              `user-predictions:${predictor}`,
+              `user-betting-history:${predictor}`,
+              `wallet-overview:${predictor}`,
+            ]
+          : ['user-predictions:', 'user-betting-history:', 'wallet-overview:']),
+      ];
+
+    case 'LicenseIssued':
+    case 'LicenseTransferred':
+    case 'PermissionsSet':
+      if (owners.length === 0) return ['dealer-nfts:', 'dealer-dashboard:'];
+      return owners.flatMap(owner => [`dealer-nfts:${owner}`, `dealer-dashboard:${owner}`]);
+
+    case 'OracleRegistered':
+    case 'OracleDataUpdated':
+      return marketDetails;
+
+    case 'DealerFeesWithdrawn': {
+      const withdrawer = eventField(eventData, 'withdrawer') ?? dealer;
+      return ['dealer-stats:', withdrawer ? `dealer-dashboard:${withdrawer}` : 'dealer-dashboard:'];
+    }
+
+    default:
+      // Comments do not affect any cached data
+      return [];
+  }
+}
+
+/**
+ * Rethrow typed IndexerClient errors unchanged so callers can branch on them;
+ * wrap anything else with a description of the failed operation.
+ */
+function toServiceError(error: unknown, operation: string): Error {
+  if (isIndexerError(error)) return error;
+  return new Error(
+    `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`
+  );
 }
 
 /**
@@ -33,8 +207,16 @@ export interface IndexerServiceConfig {
 export class IndexerService {
   private static instance: IndexerService;
   private indexerClient: IndexerClient;
-  private cache = new Map<string, { data: unknown; expires: number }>();
+  private cache = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private stats = { hits: 0, staleHits: 0, misses: 0, evictions: 0 };
   private readonly CACHE_TTL: number;
+  private readonly cacheTTLs: Partial<Record<CachedMethod, number>>;
+  private readonly maxCacheEntries: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly cacheStore: CacheStore | undefined;
+  private readonly cacheVersion: string | number;
+  private readonly indexerUrl: string;
 
   /**
    * Create an IndexerService instance
@@ -47,8 +229,19 @@ export class IndexerService {
     if (!config.networkClient) {
       throw new Error('networkClient is required in IndexerServiceConfig');
     }
-    this.indexerClient = new IndexerClient(config.indexerUrl, config.networkClient);
+    this.indexerClient = new IndexerClient(
+      config.indexerUrl,
+      config.networkClient,
+      config.requestPolicy,
+      config.validation
+    );
     this.CACHE_TTL = config.cacheTTL || 5 * 60 * 1000; // 5 minutes default
+    this.cacheTTLs = config.cacheTTLs ?? {};
+    this.maxCacheEntries = config.maxCacheEntries ?? 500;
+    this.staleWhileRevalidate = config.staleWhileRevalidate ?? 0;
+    this.cacheStore = config.cacheStore;
+    this.cacheVersion = config.cacheVersion ?? CACHE_SCHEMA_VERSION;
+    this.indexerUrl = config.indexerUrl;
   }
 
   public static getInstance(config: IndexerServiceConfig): IndexerService {
@@ -66,20 +259,192 @@ export class IndexerService {
     return args.map(arg => (typeof arg === 'object' ? JSON.stringify(arg) : arg)).join(':');
   }
 
-  private getCache<T>(key: string): T | null {
+  /**
+   * Read a cache entry, dropping it once it is past its stale window.
+   * Reading an entry marks it as most recently used.
+   */
+  private getCache<T>(key: string): { data: T; stale: boolean } | null {
     const cached = this.cache.get(key);
-    if (cached && cached.expires > Date.now()) {
-      return cached.data as T;
+    if (!cached) return null;
+
+    const now = Date.now();
+    if (cached.staleUntil <= now) {
+      this.cache.delete(key);
+      return null;
     }
+
     this.cache.delete(key);
-    return null;
+    this.cache.set(key, cached);
+    return { data: cached.data as T, stale: cached.expires <= now };
+  }
+
+  private setCache<T>(key: string, data: T, method: CachedMethod): void {
+    const expires = Date.now() + (this.cacheTTLs[method] ?? this.CACHE_TTL);
+    const entry = { data, expires, staleUntil: expires + this.staleWhileRevalidate };
+    this.putEntry(key, entry);
+    this.persist(key, entry);
+  }
+
+  /**
+   * Insert an entry as most recently used, evicting the least recently used
+   * entries past `maxCacheEntries` (from the persistent store as well).
+   */
+  private putEntry(key: string, entry: CacheEntry): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (this.cache.size > this.maxCacheEntries) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+      this.unpersist([oldest]);
+      this.stats.evictions++;
+    }
+  }
+
+  // Persistent store writes are best-effort: a storage failure only costs a refetch
+  private persist(key: string, entry: CacheEntry): void {
+    if (!this.cacheStore) return;
+    const value = serializeCacheEntry({ version: this.cacheVersion, ...entry });
+    this.cacheStore.setItem(STORE_KEY_PREFIX + key, value).catch(() => undefined);
+  }
+
+  private unpersist(keys: string[]): void {
+    if (!this.cacheStore) return;
+    for (const key of keys) {
+      this.cacheStore.removeItem(STORE_KEY_PREFIX + key).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Load a persisted entry into the memory cache. Entries with another
+   * version, or past their stale window, are removed from the store.
+   */
+  private async restore(key: string): Promise<void> {
+    if (!this.cacheStore) return;
+    try {
+      const raw = await this.cacheStore.getItem(STORE_KEY_PREFIX + key);
+      if (raw === null || this.cache.has(key)) return;
+
+      const entry = deserializeCacheEntry(raw, this.cacheVersion);
+      if (!entry || entry.staleUntil <= Date.now()) {
+        this.unpersist([key]);
+        return;
+      }
+      this.putEntry(key, {
+        data: entry.data,
+        expires: entry.expires,
+        staleUntil: entry.staleUntil,
+      });
+    } catch {
+      // Unreadable storage behaves like an empty cache
+    }
+  }
+
+  /**
+   * Remove persisted entries whose (unprefixed) keys satisfy `matches`.
+   */
+  private async clearPersisted(matches: (key: string) => boolean): Promise<void> {
+    if (!this.cacheStore) return;
+    try {
+      const keys = await this.cacheStore.getAllKeys();
+      this.unpersist(
+        keys
+          .filter(key => key.startsWith(STORE_KEY_PREFIX))
+          .map(key => key.slice(STORE_KEY_PREFIX.length))
+          .filter(matches)
+      );
+    } catch {
+      // Best-effort, like every other store write
+    }
+  }
+
+  /**
+   * Drop memory, in-flight and persisted entries whose keys satisfy `matches`.
+   * Pending requests for these keys still resolve for their callers, but are not cached.
+   */
+  private invalidateWhere(matches: (key: string) => boolean): number {
+    let count = 0;
+    for (const key of this.cache.keys()) {
+      if (matches(key)) {
+        this.cache.delete(key);
+        count++;
+      }
+    }
+    for (const key of this.inFlight.keys()) {
+      if (matches(key)) this.inFlight.delete(key);
+    }
+    void this.clearPersisted(matches);
+    return count;
+  }
+
+  /**
+   * Return the cached value for `key`, or load it. On a memory miss the
+   * persistent store (if any) is consulted first. Fresh entries are returned
+   * directly; stale entries (within the stale-while-revalidate window) are
+   * returned immediately while a background refresh runs.
+   */
+  private async getOrLoad<T>(
+    key: string,
+    method: CachedMethod,
+    load: () => Promise<T>
+  ): Promise<T> {
+    let cached = this.getCache<T>(key);
+    if (!cached && this.cacheStore && !this.inFlight.has(key)) {
+      await this.restore(key);
+      cached = this.getCache<T>(key);
+    }
+
+    if (cached && !cached.stale) {
+      this.stats.hits++;
+      return cached.data;
+    }
+    if (cached) {
+      this.stats.staleHits++;
+      // A failed refresh keeps serving the stale entry until its window closes
+      this.load(key, method, load).catch(() => undefined);
+      return cached.data;
+    }
+
+    this.stats.misses++;
+    return this.load(key, method, load);
+  }
+
+  /**
+   * Run `load` once for all concurrent callers of the same key. The result is
+   * cached on success; a failure rejects every waiter and is not cached.
+   */
+  private load<T>(key: string, method: CachedMethod, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = load()
+      .then(data => {
+        // Skip caching if the key was invalidated while the request was in flight
+        if (this.inFlight.get(key) === promise) this.setCache(key, data, method);
+        return data;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, promise);
+    return promise;
   }
 
-  private setCache<T>(key: string, data: T): void {
-    this.cache.set(key, {
-      data,
-      expires: Date.now() + this.CACHE_TTL,
+  /**
+   * Share one in-flight request among concurrent callers of `key`, without
+   * caching the result or counting it in the cache stats. Used for requests
+   * that only feed a result cached as a whole (e.g. getDealerDashboard).
+   */
+  private coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = load().finally(() => {
+      if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
     });
+    this.inFlight.set(key, promise);
+    return promise;
   }
 
   // =============================================================================
@@ -97,21 +462,16 @@ export class IndexerService {
    */
   public async getActiveMarkets(limit: number = 50): Promise<PaginatedResponse<MarketData>> {
     const cacheKey = this.getCacheKey('active-markets', limit);
-    const cached = this.getCache<PaginatedResponse<MarketData>>(cacheKey);
-    if (cached) return cached;
 
     try {
-      const result = await this.indexerClient.getMarkets({
-        status: 'Active',
-        limit,
-      });
-
-      this.setCache(cacheKey, result);
-      return result;
-    } catch (error) {
-      throw new Error(
-        `Failed to get active markets: ${error instanceof Error ? error.message : 'Unknown error'}`
+      return await this.getOrLoad(cacheKey, 'getActiveMarkets', () =>
+        this.indexerClient.getMarkets({
+          status: 'Active',
+          limit,
+        })
       );
+    } catch (error) {
+      throw toServiceError(error, 'get active markets');
     }
   }
 
@@ -129,21 +489,16 @@ export class IndexerService {
     filters?: Omit<PredictionFilters, 'user'>
   ): Promise<PaginatedResponse<PredictionData>> {
     const cacheKey = this.getCacheKey('user-predictions', walletAddress, filters);
-    const cached = this.getCache<PaginatedResponse<PredictionData>>(cacheKey);
-    if (cached) return cached;
 
     try {
-      const result = await this.indexerClient.getPredictions({
-        user: walletAddress,
-        ...filters,
-      });
-
-      this.setCache(cacheKey, result);
-      return result;
-    } catch (error) {
-      throw new Error(
-        `Failed to get user predictions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      return await this.getOrLoad(cacheKey, 'getUserPredictions', () =>
+        this.indexerClient.getPredictions({
+          user: walletAddress,
+          ...filters,
+        })
       );
+    } catch (error) {
+      throw toServiceError(error, 'get user predictions');
     }
   }
 
@@ -157,67 +512,78 @@ export class IndexerService {
    */
   public async getDealerNFTs(walletAddress: string): Promise<DealerWithPermissionsData[]> {
     const cacheKey = this.getCacheKey('dealer-nfts', walletAddress);
-    const cached = this.getCache<DealerWithPermissionsData[]>(cacheKey);
-    if (cached) return cached;
 
     try {
-      const result = await this.indexerClient.getDealers({
-        owner: walletAddress,
+      return await this.getOrLoad(cacheKey, 'getDealerNFTs', async () => {
+        const result = await this.indexerClient.getDealers({
+          owner: walletAddress,
+        });
+        return result.data ?? [];
       });
-
-      const nfts = result.data ?? [];
-      this.setCache(cacheKey, nfts);
-      return nfts;
     } catch (error) {
-      throw new Error(
-        `Failed to get dealer NFTs: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw toServiceError(error, 'get dealer NFTs');
     }
   }
 
   /**
-   * Get dealer's dashboard (all markets for their NFTs) with caching.
-   * Fetches dealer NFTs and then all markets for each NFT in parallel.
+   * Get dealer's dashboard (all markets and stats for their NFTs) with caching.
+   * Fetches dealer NFTs and then the markets and stats of each NFT in parallel.
+   * An NFT whose stats fail to load is left out of `stats` rather than failing the dashboard.
    * Results are cached for the configured TTL (default: 5 minutes).
    *
    * @param walletAddress - Dealer's wallet address
-   * @returns Object containing the dealer's NFTs and their aggregated markets (deduplicated)
+   * @returns Object containing the dealer's NFTs, their aggregated markets (deduplicated)
+   * and each NFT's volume and fee earnings keyed by NFT id
    * @throws Error if the API request fails
    */
   public async getDealerDashboard(walletAddress: string): Promise<{
     nfts: DealerWithPermissionsData[];
     markets: MarketData[];
+    stats: Record<string, DealerStatsData>;
   }> {
     const cacheKey = this.getCacheKey('dealer-dashboard', walletAddress);
-    const cached = this.getCache<{ nfts: DealerWithPermissionsData[]; markets: MarketData[] }>(
-      cacheKey
-    );
-    if (cached) return cached;
 
     try {
-      // Get dealer NFTs
-      const nfts = await this.getDealerNFTs(walletAddress);
-
-      // Get markets for each NFT
-      const marketPromises = nfts.map(nft => this.indexerClient.getDealerMarkets(nft.id));
-      const marketResults = await Promise.all(marketPromises);
-
-      // Flatten markets and remove duplicates
-      const marketsMap = new Map<string, MarketData>();
-      marketResults.forEach(result => {
-        if (result.data) {
-          result.data.forEach(market => marketsMap.set(market.id, market));
-        }
+      return await this.getOrLoad(cacheKey, 'getDealerDashboard', async () => {
+        // Get dealer NFTs
+        const nfts = await this.getDealerNFTs(walletAddress);
+
+        // Get markets for each NFT; concurrent dashboards share per-NFT requests
+        const marketPromises = nfts.map(nft =>
+          this.coalesce(this.getCacheKey('dealer-markets', nft.id), () =>
+            this.indexerClient.getDealerMarkets(nft.id)
+          )
+        );
+        const statsPromises = nfts.map(nft =>
+          this.coalesce(this.getCacheKey('dealer-stats', nft.id), () =>
+            this.indexerClient.getDealerStats(nft.id)
+          )
+        );
+        const [marketResults, statsResults] = await Promise.all([
+          Promise.all(marketPromises),
+          Promise.allSettled(statsPromises),
+        ]);
+
+        // Flatten markets and remove duplicates
+        const marketsMap = new Map<string, MarketData>();
+        marketResults.forEach(result => {
+          if (result.data) {
+            result.data.forEach(market => marketsMap.set(market.id, market));
+          }
+        });
+        const markets = Array.from(marketsMap.values());
+
+        const stats: Record<string, DealerStatsData> = {};
+        statsResults.forEach((result, index) => {
+          if (result.status === 'fulfilled' && result.value.data) {
+            stats[nfts[index].id] = result.value.data;
+          }
+        });
+
+        return { nfts, markets, stats };
       });
-      const markets = Array.from(marketsMap.values());
-
-      const result = { nfts, markets };
-      this.setCache(cacheKey, result);
-      return result;
     } catch (error) {
-      throw new Error(
-        `Failed to get dealer dashboard: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw toServiceError(error, 'get dealer dashboard');
     }
   }
 
@@ -236,42 +602,33 @@ export class IndexerService {
     history: MarketStateHistoryData[];
   }> {
     const cacheKey = this.getCacheKey('market-details', marketId);
-    const cached = this.getCache<{
-      market: MarketDetailData;
-      predictions: PredictionData[];
-      history: MarketStateHistoryData[];
-    }>(cacheKey);
-    if (cached) return cached;
 
     try {
-      const [marketResult, predictionsResult, historyResult] = await Promise.all([
-        this.indexerClient.getMarket(marketId),
-        this.indexerClient.getMarketPredictions(marketId),
-        this.indexerClient.getMarketHistory(marketId),
-      ]);
-
-      if (!marketResult.data) {
-        throw new Error('Market not found');
-      }
-
-      const result = {
-        market: marketResult.data,
-        predictions: predictionsResult.data || [],
-        history: historyResult.data || [],
-      };
+      return await this.getOrLoad(cacheKey, 'getMarketDetails', async () => {
+        const [marketResult, predictionsResult, historyResult] = await Promise.all([
+          this.indexerClient.getMarket(marketId),
+          this.indexerClient.getMarketPredictions(marketId),
+          this.indexerClient.getMarketHistory(marketId),
+        ]);
+
+        if (!marketResult.data) {
+          throw new Error('Market not found');
+        }
 
-      this.setCache(cacheKey, result);
-      return result;
+        return {
+          market: marketResult.data,
+          predictions: predictionsResult.data || [],
+          history: historyResult.data || [],
+        };
+      });
     } catch (error) {
-      throw new Error(
-        `Failed to get market details: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw toServiceError(error, 'get market details');
     }
   }
 
   /**
    * Get user's betting history (active + past bets) with caching.
-   * Fetches active and claimed predictions in parallel (limited to 100 each).
+   * Fetches active and claimed predictions in parallel, walking every page.
    * Results are cached for the configured TTL (default: 5 minutes).
    *
    * @param walletAddress - User's wallet address
@@ -283,34 +640,17 @@ export class IndexerService {
     claimed: PredictionData[];
   }> {
     const cacheKey = this.getCacheKey('user-betting-history', walletAddress);
-    const cached = this.getCache<{ active: PredictionData[]; claimed: PredictionData[] }>(cacheKey);
-    if (cached) return cached;
 
     try {
-      const [activeResult, claimedResult] = await Promise.all([
-        this.indexerClient.getPredictions({
-          user: walletAddress,
-          claimed: false,
-          limit: 100,
-        }),
-        this.indexerClient.getPredictions({
-          user: walletAddress,
-          claimed: true,
-          limit: 100,
-        }),
-      ]);
-
-      const result = {
-        active: activeResult.data || [],
-        claimed: claimedResult.data || [],
-      };
-
-      this.setCache(cacheKey, result);
-      return result;
+      return await this.getOrLoad(cacheKey, 'getUserBettingHistory', async () => {
+        const [active, claimed] = await Promise.all([
+          fetchAll(this.indexerClient.iteratePredictions({ user: walletAddress, claimed: false })),
+          fetchAll(this.indexerClient.iteratePredictions({ user: walletAddress, claimed: true })),
+        ]);
+        return { active, claimed };
+      });
     } catch (error) {
-      throw new Error(
-        `Failed to get user betting history: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw toServiceError(error, 'get user betting history');
     }
   }
 
@@ -333,9 +673,7 @@ export class IndexerService {
       const marketResult = await this.indexerClient.getMarket(predictionResult.data.marketId);
       return marketResult.data || null;
     } catch (error) {
-      throw new Error(
-        `Failed to get market from prediction: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw toServiceError(error, 'get market from prediction');
     }
   }
 
@@ -348,26 +686,82 @@ export class IndexerService {
    */
   public async getMarketStats(): Promise<ApiResponse<MarketStatsData>> {
     const cacheKey = this.getCacheKey('market-stats');
-    const cached = this.getCache<ApiResponse<MarketStatsData>>(cacheKey);
-    if (cached) return cached;
 
     try {
-      const result = await this.indexerClient.getMarketStats();
-      this.setCache(cacheKey, result);
-      return result;
-    } catch (error) {
-      throw new Error(
-        `Failed to get market stats: ${error instanceof Error ? error.message : 'Unknown error'}`
+      return await this.getOrLoad(cacheKey, 'getMarketStats', () =>
+        this.indexerClient.getMarketStats()
       );
+    } catch (error) {
+      throw toServiceError(error, 'get market stats');
+    }
+  }
+
+  /**
+   * Get a wallet's portfolio overview with caching: its balance summary, its
+   * per-market balance and its most recent history items, fetched in parallel.
+   * Results are cached for the configured TTL (default: 5 minutes).
+   *
+   * @param walletAddress - User's wallet address
+   * @param historyLimit - Number of recent history items to include (default: 20)
+   * @returns Object containing the balance summary, the per-market balance and recent history
+   * @throws Error if the wallet balance is not found or the API request fails
+   */
+  public async getWalletOverview(
+    walletAddress: string,
+    historyLimit: number = 20
+  ): Promise<{
+    balance: WalletBalanceSummaryData;
+    detail: WalletBalanceDetailData | null;
+    recentHistory: WalletHistoryItemData[];
+  }> {
+    const cacheKey = this.getCacheKey('wallet-overview', walletAddress, historyLimit);
+
+    try {
+      return await this.getOrLoad(cacheKey, 'getWalletOverview', async () => {
+        const [balanceResult, detailResult, historyResult] = await Promise.all([
+          this.indexerClient.getWalletBalance(walletAddress),
+          this.indexerClient.getWalletBalanceDetail(walletAddress),
+          this.indexerClient.getWalletHistory(walletAddress, { limit: historyLimit }),
+        ]);
+
+        if (!balanceResult.data) {
+          throw new Error('Wallet balance not found');
+        }
+
+        return {
+          balance: balanceResult.data,
+          detail: detailResult.data ?? null,
+          recentHistory: historyResult.data || [],
+        };
+      });
+    } catch (error) {
+      throw toServiceError(error, 'get wallet overview');
     }
   }
 
   /**
-   * Clear the entire internal cache.
+   * Clear the entire internal cache, including entries in the persistent store.
    * Use {@link invalidateCache} for targeted invalidation.
    */
   public clearCache(): void {
     this.cache.clear();
+    this.inFlight.clear();
+    void this.clearPersisted(() => true);
+  }
+
+  /**
+   * Get cache hit, miss and eviction counters since the service was created.
+   *
+   * @returns A snapshot of the cache statistics, including the current entry count
+   *
+   * @example
+   * ```ts
+   * const { hits, misses, evictions, size } = service.getCacheStats();
+   * metrics.gauge('indexer_cache_size', size);
+   * ```
+   */
+  public getCacheStats(): CacheStats {
+    return { ...this.stats, size: this.cache.size };
   }
 
   /**
@@ -376,7 +770,7 @@ export class IndexerService {
    * specific data has changed (e.g., invalidating all market-related caches).
    *
    * @param prefix - The cache key prefix to match (e.g., 'active-markets', 'dealer-dashboard')
-   * @returns The number of cache entries that were invalidated
+   * @returns The number of in-memory entries invalidated (persisted entries are removed in the background)
    *
    * @example
    * ```ts
@@ -388,14 +782,79 @@ export class IndexerService {
    * ```
    */
   public invalidateCache(prefix: string): number {
-    let count = 0;
-    for (const key of this.cache.keys()) {
-      if (key.startsWith(prefix)) {
-        this.cache.delete(key);
-        count++;
-      }
-    }
-    return count;
+    return this.invalidateWhere(key => key.startsWith(prefix));
+  }
+
+  /**
+   * Invalidate the cache entries made stale by an indexer event.
+   * Market events drop market lists, details and stats; prediction and claim
+   * events drop the predictor's predictions, betting history and wallet overview
+   * (market settlement drops every wallet overview); license and
+   * permission events drop the owner's dealer NFTs and dashboard.
+   * Addresses are matched case-insensitively.
+   *
+   * @param message - A `data_update` message received from the indexer's SSE endpoint
+   * @returns The number of in-memory entries invalidated
+   *
+   * @example
+   * ```ts
+   * useSSE(indexerUrl, { channel: 'markets', onEvent: event => service.handleEvent(event) });
+   * ```
+   */
+  public handleEvent(message: SSEDataUpdateMessage): number {
+    const prefixes = getEventCachePrefixes(message.eventType, message.data).map(prefix =>
+      prefix.toLowerCase()
+    );
+    if (prefixes.length === 0) return 0;
+    return this.invalidateWhere(key => {
+      const lowerKey = key.toLowerCase();
+      return prefixes.some(prefix => matchesEventPrefix(lowerKey, prefix));
+    });
+  }
+
+  /**
+   * Subscribe to the indexer's SSE endpoint and invalidate cached entries as
+   * events arrive (see {@link handleEvent}). Intended for non-React consumers;
+   * React apps can forward `useSSE` events to `handleEvent` instead.
+   *
+   * Events missed while a connection is down are replayed on reconnect; when
+   * the server reports that replay is impossible the whole cache is cleared.
+   *
+   * @param options - Channels, filters and an EventSource factory
+   * @returns A function that closes every connection
+   *
+   * @example
+   * ```ts
+   * import { EventSource } from 'eventsource';
+   *
+   * const unsubscribe = service.subscribeToEvents({
+   *   createEventSource: url => new EventSource(url),
+   * });
+   * ```
+   */
+  public subscribeToEvents(options: IndexerEventSubscriptionOptions = {}): () => void {
+    const {
+      channels = ['markets', 'predictions', 'dealers', 'oracle'],
+      filters,
+      createEventSource,
+      onError,
+    } = options;
+
+    const streams = channels.map(channel => {
+      const stream = new IndexerEventStream(this.indexerUrl, {
+        channel,
+        filters,
+        createEventSource,
+        maxReconnectAttempts: Infinity,
+      });
+      stream.on('*', message => this.handleEvent(message));
+      stream.onGap(() => this.clearCache());
+      stream.onError(error => onError?.(error, channel));
+      stream.connect();
+      return stream;
+    });
+
+    return () => streams.forEach(stream => stream.disconnect());
   }
 
   /**
@@ -0,0 +1,196 @@
+/**
+ * React context for the IndexerClient
+ * Inside an IndexerProvider, hooks can be called without their `client`
+ * argument, SSE hooks without their endpoint URL, and every query picks up
+ * the provider's default query options.
+ */
+
+import { createContext, createElement, useContext, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { IndexerClient } from '../network/IndexerClient';
+import type { SSEConnectionManagerOptions } from '../network/SSEConnectionManager';
+import { SSEProvider } from './SSEProvider';
+
+/**
+ * Default React Query options for every Heavymath query below an IndexerProvider.
+ * They override each hook's built-in defaults; options passed to a hook call override them.
+ */
+export interface IndexerQueryDefaults {
+  /** Time in ms before cached data is considered stale */
+  staleTime?: number;
+  /** Time in ms unused data stays in the cache */
+  gcTime?: number;
+  /** Retry failed queries (true, false, or a number of attempts) */
+  retry?: boolean | number;
+  /** Delay in ms between retries */
+  retryDelay?: number;
+  /** Refetch stale queries when the window regains focus */
+  refetchOnWindowFocus?: boolean | 'always';
+  /** Refetch stale queries when the network reconnects */
+  refetchOnReconnect?: boolean | 'always';
+  /** Poll interval in ms, or false to disable polling */
+  refetchInterval?: number | false;
+}
+
+/**
+ * Value held by an IndexerProvider
+ */
+export interface IndexerContextValue {
+  client: IndexerClient;
+  sseEndpointUrl: string | null;
+  queryDefaults: IndexerQueryDefaults;
+}
+
+/**
+ * Props for {@link IndexerProvider}
+ */
+export interface IndexerProviderProps {
+  /** Client used by hooks called without one */
+  client: IndexerClient;
+  /** Base URL for SSE hooks called without one; also shares their connections */
+  sseEndpointUrl?: string;
+  /** Reconnection settings for the shared SSE connections */
+  sseOptions?: SSEConnectionManagerOptions;
+  /** Default React Query options for every Heavymath query */
+  queryDefaults?: IndexerQueryDefaults;
+  children?: ReactNode;
+}
+
+/**
+ * Hook arguments with the leading IndexerClient optional inside an IndexerProvider
+ */
+export type WithClient<A extends unknown[]> = [client: IndexerClient, ...args: A] | A;
+
+/**
+ * Hook arguments for hooks that accept a null client (and stay disabled until one is set)
+ */
+export type WithNullableClient<A extends unknown[]> =
+  [client: IndexerClient | null, ...args: A] | A;
+
+const IndexerContext = createContext<IndexerContextValue | null>(null);
+
+const NO_QUERY_DEFAULTS: IndexerQueryDefaults = {};
+
+/**
+ * Provide an IndexerClient, SSE endpoint and default query options to every hook below it.
+ * When `sseEndpointUrl` is set, children are also wrapped in an SSEProvider.
+ *
+ * @example
+ * ```tsx
+ * const client = new IndexerClient('http://localhost:42069', networkClient);
+ *
+ * <IndexerProvider
+ *   client={client}
+ *   sseEndpointUrl="http://localhost:42069"
+ *   queryDefaults={{ refetchOnWindowFocus: false }}
+ * >
+ *   <App />
+ * </IndexerProvider>
+ *
+ * // Below the provider
+ * const { data } = useMarket('1-market-123');
+ * ```
+ */
+export function IndexerProvider({
+  client,
+  sseEndpointUrl,
+  sseOptions,
+  queryDefaults = NO_QUERY_DEFAULTS,
+  children,
+}: IndexerProviderProps) {
+  const value = useMemo<IndexerContextValue>(
+    () => ({ client, sseEndpointUrl: sseEndpointUrl ?? null, queryDefaults }),
+    [client, sseEndpointUrl, queryDefaults]
+  );
+
+  const content = sseEndpointUrl
+    ? createElement(SSEProvider, { endpointUrl: sseEndpointUrl, options: sseOptions }, children)
+    : children;
+  return createElement(IndexerContext.Provider, { value }, content);
+}
+
+/**
+ * Get the value of the nearest IndexerProvider, or null outside one.
+ */
+export function useIndexerContext(): IndexerContextValue | null {
+  return useContext(IndexerContext);
+}
+
+/**
+ * Get the IndexerClient from the nearest IndexerProvider.
+ *
+ * @throws Error when called outside an IndexerProvider
+ */
+export function useIndexerClient(): IndexerClient {
+  const context = useContext(IndexerContext);
+  if (!context) {
+    throw new Error('useIndexerClient must be used within an IndexerProvider');
+  }
+  return context.client;
+}
+
+/**
+ * Get the default query options of the nearest IndexerProvider (empty outside one).
+ */
+export function useIndexerQueryDefaults(): IndexerQueryDefaults {
+  return useContext(IndexerContext)?.queryDefaults ?? NO_QUERY_DEFAULTS;
+}
+
+/**
+ * Resolve the SSE endpoint URL of an SSE hook, falling back to the nearest
+ * IndexerProvider's `sseEndpointUrl` when the caller left it out.
+ *
+ * @throws Error when no endpoint URL is passed and the provider has none
+ */
+export function useSSEEndpointUrl(endpointUrl: string | undefined): string {
+  const context = useContext(IndexerContext);
+  const resolved = endpointUrl ?? context?.sseEndpointUrl;
+  if (resolved == null) {
+    throw new Error(
+      'No SSE endpoint URL: pass one as the first argument or set sseEndpointUrl on an IndexerProvider'
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Whether a hook's first argument is a client rather than its first regular argument.
+ * Duck-typed as well, so mocks and clients from another copy of the package still count.
+ */
+function isIndexerClient(value: unknown): value is IndexerClient {
+  return (
+    value instanceof IndexerClient ||
+    (typeof value === 'object' &&
+      value !== null &&
+      typeof (value as { getMarkets?: unknown }).getMarkets === 'function')
+  );
+}
+
+/**
+ * Resolve a hook's arguments to `[client, ...args]`, taking the client from
+ * the nearest IndexerProvider when the caller left it out.
+ *
+ * @throws Error when no client is passed and there is no IndexerProvider
+ */
+export function useClientArgs<A extends unknown[]>(args: WithClient<A>): [IndexerClient, ...A] {
+  const context = useContext(IndexerContext);
+  if (isIndexerClient(args[0])) return args as [IndexerClient, ...A];
+  if (!context) {
+    throw new Error(
+      'No IndexerClient: pass one as the first argument or render inside an IndexerProvider'
+    );
+  }
+  return [context.client, ...(args as A)];
+}
+
+/**
+ * Like {@link useClientArgs} for hooks that accept a null client: an explicit
+ * null is kept, and a missing client without an IndexerProvider resolves to null.
+ */
+export function useNullableClientArgs<A extends unknown[]>(
+  args: WithNullableClient<A>
+): [IndexerClient | null, ...A] {
+  const context = useContext(IndexerContext);
+  if (args[0] === null || isIndexerClient(args[0])) return args as [IndexerClient | null, ...A];
+  return [context?.client ?? null, ...(args as A)];
+}
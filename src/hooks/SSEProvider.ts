@@ -0,0 +1,57 @@
+/**
+ * React context for sharing SSE connections
+ * Inside an SSEProvider, useSSE and the convenience hooks built on it reuse one
+ * connection per channel and filter set instead of opening their own.
+ */
+
+import { createContext, createElement, useContext, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { SSEConnectionManager } from '../network/SSEConnectionManager';
+import type { SSEConnectionManagerOptions } from '../network/SSEConnectionManager';
+
+const SSEContext = createContext<SSEConnectionManager | null>(null);
+
+/**
+ * Props for {@link SSEProvider}
+ */
+export interface SSEProviderProps {
+  /** Base URL of the indexer (read on mount); hooks using another URL connect on their own */
+  endpointUrl: string;
+  /** Reconnection settings and EventSource factory for the shared connections */
+  options?: SSEConnectionManagerOptions;
+  /** Use an existing manager instead of creating one (e.g. to share it outside React) */
+  manager?: SSEConnectionManager;
+  children?: ReactNode;
+}
+
+/**
+ * Share SSE connections between every useSSE call below it.
+ * Connection options passed to individual hooks are ignored for shared connections.
+ *
+ * @example
+ * ```tsx
+ * <SSEProvider endpointUrl="http://localhost:42069">
+ *   <Dashboard />
+ * </SSEProvider>
+ * ```
+ */
+export function SSEProvider({ endpointUrl, options, manager, children }: SSEProviderProps) {
+  const [ownManager] = useState(() =>
+    manager ? null : new SSEConnectionManager(endpointUrl, options)
+  );
+  const value = manager ?? ownManager;
+
+  // Close connections opened by our own manager on unmount
+  useEffect(() => {
+    return () => ownManager?.closeAll();
+  }, [ownManager]);
+
+  return createElement(SSEContext.Provider, { value }, children);
+}
+
+/**
+ * Get the SSEConnectionManager from the nearest SSEProvider, or null outside one.
+ */
+export function useSSEConnectionManager(): SSEConnectionManager | null {
+  return useContext(SSEContext);
+}
@@ -2,6 +2,30 @@
  * React hooks for Heavymath Prediction Market Indexer API
  */
 
+// Query key factory shared by every hook
+export { heavymathKeys } from './query-keys';
+
+// Shared client, SSE endpoint and query defaults
+export {
+  IndexerProvider,
+  useIndexerClient,
+  useIndexerContext,
+  useIndexerQueryDefaults,
+} from './IndexerProvider';
+export type {
+  IndexerContextValue,
+  IndexerProviderProps,
+  IndexerQueryDefaults,
+  WithClient,
+  WithNullableClient,
+} from './IndexerProvider';
+
+// Server-side prefetch helpers
+export * from './prefetch';
+
+// Infinite-scroll list hook types
+export type { InfiniteListOptions, InfiniteListResult } from './infinite';
+
 // Market hooks
 export * from './useMarkets';
 
@@ -23,8 +47,12 @@ export * from './useStats';
 // Favorites hooks
 export * from './useFavorites';
 
+// Wallet balance hooks
+export * from './useWallet';
+
 // Real-time SSE hooks
 export * from './useSSE';
+export * from './SSEProvider';
 
 // Sports API proxy hooks
 export * from './sports';
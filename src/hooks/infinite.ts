@@ -0,0 +1,114 @@
+/**
+ * Shared plumbing for the infinite-scroll list hooks
+ * Pages are requested by limit/offset; the next offset is derived from each
+ * page's pagination metadata.
+ */
+
+import {
+  useInfiniteQuery,
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+  UseInfiniteQueryOptions,
+  UseInfiniteQueryResult,
+} from '@tanstack/react-query';
+import type { PaginatedResponse } from '../types';
+import { getNextOffset } from '../network/pagination';
+import type { PageFetcher } from '../network/pagination';
+import { useIndexerQueryDefaults } from './IndexerProvider';
+
+/** Page size used when the filters do not set `limit` (matches the server default). */
+const DEFAULT_INFINITE_PAGE_SIZE = 50;
+
+/**
+ * React Query options accepted by the `useInfinite*` hooks.
+ * Keys, the query function and page params are managed by the hook.
+ */
+export type InfiniteListOptions<T> = Omit<
+  UseInfiniteQueryOptions<
+    PaginatedResponse<T>,
+    Error,
+    InfiniteData<PaginatedResponse<T>, number>,
+    QueryKey,
+    number
+  >,
+  'queryKey' | 'queryFn' | 'initialPageParam' | 'getNextPageParam'
+>;
+
+/**
+ * Result of the `useInfinite*` hooks. `data.pages` holds one PaginatedResponse per page.
+ */
+export type InfiniteListResult<T> = UseInfiniteQueryResult<
+  InfiniteData<PaginatedResponse<T>, number>,
+  Error
+>;
+
+/**
+ * Query key, query function and page params of an infinite list, shared by
+ * useInfiniteList and prefetchInfiniteList so both fill the same cache entry.
+ */
+function infiniteListQuery<T>(
+  queryKey: QueryKey,
+  filters: { limit?: number; offset?: number } | undefined,
+  fetchPage: PageFetcher<T>
+) {
+  const limit = filters?.limit ?? DEFAULT_INFINITE_PAGE_SIZE;
+  return {
+    queryKey,
+    queryFn: async ({ pageParam, signal }: { pageParam: number; signal: AbortSignal }) => {
+      return await fetchPage(limit, pageParam, signal);
+    },
+    initialPageParam: filters?.offset ?? 0,
+    getNextPageParam: (
+      lastPage: PaginatedResponse<T>,
+      _allPages: PaginatedResponse<T>[],
+      lastPageParam: number
+    ) => getNextOffset(lastPage, lastPageParam, limit),
+  };
+}
+
+/**
+ * Run an infinite query over a limit/offset list endpoint.
+ * The first page starts at `filters.offset`; every page requests `filters.limit` items.
+ *
+ * @param queryKey - Query key; should start with the matching single-page hook's prefix
+ * @param filters - The list filters (only `limit` and `offset` are read here)
+ * @param fetchPage - Fetches one page
+ * @param defaults - Default React Query options for this list (e.g. staleTime)
+ * @param options - Caller-supplied React Query options
+ */
+export function useInfiniteList<T>(
+  queryKey: QueryKey,
+  filters: { limit?: number; offset?: number } | undefined,
+  fetchPage: PageFetcher<T>,
+  defaults: InfiniteListOptions<T>,
+  options?: InfiniteListOptions<T>
+): InfiniteListResult<T> {
+  const queryDefaults = useIndexerQueryDefaults();
+
+  return useInfiniteQuery({
+    ...infiniteListQuery(queryKey, filters, fetchPage),
+    retry: false,
+    ...defaults,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Fetch the first page of an infinite list into `queryClient`, under the key
+ * the matching `useInfinite*` hook reads.
+ *
+ * @param queryClient - Query client to fill (e.g. a per-request client on the server)
+ * @param queryKey - Same key as the hook
+ * @param filters - Same filters as the hook
+ * @param fetchPage - Fetches one page
+ */
+export function prefetchInfiniteList<T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  filters: { limit?: number; offset?: number } | undefined,
+  fetchPage: PageFetcher<T>
+): Promise<void> {
+  return queryClient.prefetchInfiniteQuery(infiniteListQuery(queryKey, filters, fetchPage));
+}
@@ -0,0 +1,202 @@
+/**
+ * Prefetch helpers for server-side rendering
+ * Each helper fills a QueryClient under the exact key the matching hook reads,
+ * so `dehydrate(queryClient)` can be sent to the browser and the hooks render
+ * the prefetched data without a loading state.
+ *
+ * Like `queryClient.prefetchQuery`, the helpers never throw: a failed request
+ * is left out of the dehydrated state and the hook fetches it again in the browser.
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+import type { MarketFilters, PredictionFilters } from '../types';
+import type { IndexerClient } from '../network/IndexerClient';
+import { prefetchInfiniteList } from './infinite';
+import { heavymathKeys } from './query-keys';
+
+/**
+ * Prefetch the markets list read by useMarkets.
+ *
+ * @param queryClient - Query client to fill (use a new one per request on the server)
+ * @param client - IndexerClient instance
+ * @param filters - Same filters as passed to useMarkets
+ */
+export function prefetchMarkets(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  filters?: MarketFilters
+): Promise<void> {
+  return queryClient.prefetchQuery({
+    queryKey: heavymathKeys.markets.list(filters),
+    queryFn: ({ signal }) => client.getMarkets(filters, signal),
+  });
+}
+
+/**
+ * Prefetch the first page read by useInfiniteMarkets.
+ */
+export function prefetchInfiniteMarkets(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  filters?: MarketFilters
+): Promise<void> {
+  return prefetchInfiniteList(
+    queryClient,
+    heavymathKeys.markets.infinite(filters),
+    filters,
+    (limit, offset, signal) => client.getMarkets({ ...filters, limit, offset }, signal)
+  );
+}
+
+/**
+ * Prefetch the active markets read by useActiveMarkets.
+ *
+ * @param limit - Same limit as passed to useActiveMarkets (default: 50)
+ */
+export function prefetchActiveMarkets(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  limit: number = 50
+): Promise<void> {
+  return prefetchMarkets(queryClient, client, { status: 'Active', limit });
+}
+
+/**
+ * Prefetch the market read by useMarket.
+ *
+ * @example
+ * ```tsx
+ * // app/markets/[id]/page.tsx
+ * const queryClient = new QueryClient();
+ * await prefetchMarket(queryClient, client, params.id);
+ * return (
+ *   <HydrationBoundary state={dehydrate(queryClient)}>
+ *     <MarketPage marketId={params.id} />
+ *   </HydrationBoundary>
+ * );
+ * ```
+ */
+export function prefetchMarket(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  marketId: string
+): Promise<void> {
+  return queryClient.prefetchQuery({
+    queryKey: heavymathKeys.markets.detail(marketId),
+    queryFn: ({ signal }) => client.getMarket(marketId, signal),
+  });
+}
+
+/**
+ * Prefetch the predictions read by useMarketPredictions.
+ */
+export function prefetchMarketPredictions(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  marketId: string
+): Promise<void> {
+  return queryClient.prefetchQuery({
+    queryKey: heavymathKeys.markets.predictions(marketId),
+    queryFn: ({ signal }) => client.getMarketPredictions(marketId, signal),
+  });
+}
+
+/**
+ * Prefetch the state history read by useMarketHistory.
+ */
+export function prefetchMarketHistory(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  marketId: string
+): Promise<void> {
+  return queryClient.prefetchQuery({
+    queryKey: heavymathKeys.markets.history(marketId),
+    queryFn: ({ signal }) => client.getMarketHistory(marketId, signal),
+  });
+}
+
+/**
+ * Prefetch everything useMarketDetails reads: the market, its predictions and its history.
+ */
+export async function prefetchMarketDetails(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  marketId: string
+): Promise<void> {
+  await Promise.all([
+    prefetchMarket(queryClient, client, marketId),
+    prefetchMarketPredictions(queryClient, client, marketId),
+    prefetchMarketHistory(queryClient, client, marketId),
+  ]);
+}
+
+/**
+ * Prefetch the stats read by useMarketStats.
+ */
+export function prefetchMarketStats(
+  queryClient: QueryClient,
+  client: IndexerClient
+): Promise<void> {
+  return queryClient.prefetchQuery({
+    queryKey: heavymathKeys.markets.stats(),
+    queryFn: ({ signal }) => client.getMarketStats(signal),
+  });
+}
+
+/**
+ * Prefetch the predictions list read by usePredictions.
+ */
+export function prefetchPredictions(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  filters?: PredictionFilters
+): Promise<void> {
+  return queryClient.prefetchQuery({
+    queryKey: heavymathKeys.predictions.list(filters),
+    queryFn: ({ signal }) => client.getPredictions(filters, signal),
+  });
+}
+
+/**
+ * Prefetch a wallet's predictions as read by useUserPredictions.
+ *
+ * @param walletAddress - Same wallet as passed to useUserPredictions
+ * @param filters - Same extra filters as passed to useUserPredictions
+ */
+export function prefetchUserPredictions(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  walletAddress: string,
+  filters?: Omit<PredictionFilters, 'user'>
+): Promise<void> {
+  return prefetchPredictions(queryClient, client, { user: walletAddress, ...filters });
+}
+
+/**
+ * Prefetch the active and past bets read by useUserBettingHistory
+ * (and useActiveBets / usePastBets).
+ */
+export async function prefetchUserBettingHistory(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  walletAddress: string
+): Promise<void> {
+  await Promise.all([
+    prefetchUserPredictions(queryClient, client, walletAddress, { claimed: false, limit: 100 }),
+    prefetchUserPredictions(queryClient, client, walletAddress, { claimed: true, limit: 100 }),
+  ]);
+}
+
+/**
+ * Prefetch the prediction read by usePrediction.
+ */
+export function prefetchPrediction(
+  queryClient: QueryClient,
+  client: IndexerClient,
+  predictionId: string
+): Promise<void> {
+  return queryClient.prefetchQuery({
+    queryKey: heavymathKeys.predictions.detail(predictionId),
+    queryFn: ({ signal }) => client.getPrediction(predictionId, signal),
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * React Query keys for every Heavymath hook
+ * Keys are hierarchical: each level is a prefix of the levels below it, so
+ * `heavymathKeys.markets.all()` matches every market query and
+ * `heavymathKeys.markets.lists()` every markets list, whatever its filters.
+ */
+
+import type {
+  DealerFilters,
+  DiscussionCommentsFilters,
+  MarketFilters,
+  ModerationQueueFilters,
+  OracleFilters,
+  PredictionFilters,
+  WalletFavoritesFilters,
+  WalletHistoryFilters,
+  WithdrawalFilters,
+} from '../types';
+
+const all = () => ['heavymath'] as const;
+
+const markets = {
+  all: () => [...all(), 'markets'] as const,
+  lists: () => [...markets.all(), 'list'] as const,
+  list: (filters?: MarketFilters) => [...markets.lists(), filters] as const,
+  infinite: (filters?: MarketFilters) => [...markets.lists(), 'infinite', filters] as const,
+  details: () => [...markets.all(), 'detail'] as const,
+  detail: (marketId?: string) => [...markets.details(), marketId] as const,
+  predictions: (marketId?: string) => [...markets.all(), 'predictions', marketId] as const,
+  history: (marketId?: string) => [...markets.all(), 'history', marketId] as const,
+  detailStats: (marketId?: string) => [...markets.all(), 'detail-stats', marketId] as const,
+  stats: () => [...markets.all(), 'stats'] as const,
+  categoryCounts: () => [...markets.all(), 'category-counts'] as const,
+};
+
+const predictions = {
+  all: () => [...all(), 'predictions'] as const,
+  lists: () => [...predictions.all(), 'list'] as const,
+  list: (filters?: PredictionFilters) => [...predictions.lists(), filters] as const,
+  infinite: (filters?: PredictionFilters) => [...predictions.lists(), 'infinite', filters] as const,
+  details: () => [...predictions.all(), 'detail'] as const,
+  detail: (predictionId?: string) => [...predictions.details(), predictionId] as const,
+};
+
+const dealers = {
+  all: () => [...all(), 'dealers'] as const,
+  lists: () => [...dealers.all(), 'list'] as const,
+  list: (filters?: DealerFilters) => [...dealers.lists(), filters] as const,
+  infinite: (filters?: DealerFilters) => [...dealers.lists(), 'infinite', filters] as const,
+  details: () => [...dealers.all(), 'detail'] as const,
+  detail: (dealerId?: string) => [...dealers.details(), dealerId] as const,
+  permissions: (dealerId?: string) => [...dealers.all(), 'permissions', dealerId] as const,
+  markets: (dealerId?: string) => [...dealers.all(), 'markets', dealerId] as const,
+  stats: (dealerId?: string) => [...dealers.all(), 'stats', dealerId] as const,
+  isDealer: (walletAddress?: string) => [...dealers.all(), 'is-dealer', walletAddress] as const,
+  nfts: (walletAddress?: string) => [...dealers.all(), 'nfts', walletAddress] as const,
+  dashboardMarkets: (walletAddress?: string) =>
+    [...dealers.all(), 'dashboard-markets', walletAddress] as const,
+};
+
+const withdrawals = {
+  all: () => [...all(), 'withdrawals'] as const,
+  lists: () => [...withdrawals.all(), 'list'] as const,
+  list: (filters?: WithdrawalFilters) => [...withdrawals.lists(), filters] as const,
+  infinite: (filters?: WithdrawalFilters) => [...withdrawals.lists(), 'infinite', filters] as const,
+};
+
+const oracle = {
+  all: () => [...all(), 'oracle'] as const,
+  lists: () => [...oracle.all(), 'list'] as const,
+  list: (filters?: OracleFilters) => [...oracle.lists(), filters] as const,
+  infinite: (filters?: OracleFilters) => [...oracle.lists(), 'infinite', filters] as const,
+  details: () => [...oracle.all(), 'detail'] as const,
+  detail: (requestId?: string) => [...oracle.details(), requestId] as const,
+  resolutionCheck: (marketId?: string) => [...oracle.all(), 'resolution-check', marketId] as const,
+  config: (marketId?: string) => [...oracle.all(), 'config', marketId] as const,
+};
+
+const status = {
+  all: () => [...all(), 'status'] as const,
+  apiInfo: () => [...status.all(), 'api-info'] as const,
+  services: () => [...status.all(), 'services'] as const,
+  sports: () => [...status.all(), 'sports'] as const,
+  sse: () => [...status.all(), 'sse'] as const,
+};
+
+const favorites = {
+  all: () => [...all(), 'favorites'] as const,
+  wallet: (walletAddress?: string) => [...favorites.all(), 'wallet', walletAddress] as const,
+  list: (walletAddress?: string, filters?: WalletFavoritesFilters) =>
+    [...favorites.wallet(walletAddress), filters] as const,
+  infinite: (walletAddress?: string, filters?: WalletFavoritesFilters) =>
+    [...favorites.wallet(walletAddress), 'infinite', filters] as const,
+  counts: (category?: string, subcategory?: string, type?: string) =>
+    [...favorites.all(), 'counts', category, subcategory, type] as const,
+};
+
+const wallet = {
+  all: () => [...all(), 'wallet'] as const,
+  address: (walletAddress?: string) => [...wallet.all(), walletAddress] as const,
+  balance: (walletAddress?: string) => [...wallet.address(walletAddress), 'balance'] as const,
+  histories: (walletAddress?: string) => [...wallet.address(walletAddress), 'history'] as const,
+  history: (walletAddress?: string, filters?: WalletHistoryFilters) =>
+    [...wallet.histories(walletAddress), filters] as const,
+};
+
+const discussions = {
+  all: () => [...all(), 'discussions'] as const,
+  details: () => [...discussions.all(), 'detail'] as const,
+  detail: (subjectType?: string, sport?: string, subjectId?: string) =>
+    [...discussions.details(), subjectType, sport, subjectId] as const,
+  allComments: () => [...discussions.all(), 'comments'] as const,
+  comments: (discussionId?: number | null, filters?: DiscussionCommentsFilters) =>
+    [...discussions.allComments(), discussionId, filters] as const,
+  reactions: (commentId?: number) => [...discussions.all(), 'reactions', commentId] as const,
+  moderationQueues: () => [...discussions.all(), 'moderation'] as const,
+  moderationQueue: (filters?: ModerationQueueFilters) =>
+    [...discussions.moderationQueues(), filters] as const,
+};
+
+const sports = {
+  all: () => [...all(), 'sports'] as const,
+  proxy: (sport: string, endpoint: string, params?: Record<string, unknown>) =>
+    [...sports.all(), sport, endpoint, params ?? {}] as const,
+  search: (query: string) => [...sports.all(), 'search', query] as const,
+};
+
+/**
+ * Query key factory used by every hook in this package.
+ * Use it to invalidate, prefetch or seed cached data without copying key literals.
+ *
+ * @example
+ * ```ts
+ * // Refetch every markets list (useMarkets, useInfiniteMarkets, useActiveMarkets)
+ * queryClient.invalidateQueries({ queryKey: heavymathKeys.markets.lists() });
+ *
+ * // Read the cached market used by useMarket(client, '1-market-1')
+ * queryClient.getQueryData(heavymathKeys.markets.detail('1-market-1'));
+ *
+ * // Drop everything this package cached (e.g. on chain switch)
+ * queryClient.removeQueries({ queryKey: heavymathKeys.all() });
+ * ```
+ */
+export const heavymathKeys = {
+  all,
+  markets,
+  predictions,
+  dealers,
+  withdrawals,
+  oracle,
+  health: () => [...all(), 'health'] as const,
+  status,
+  favorites,
+  wallet,
+  discussions,
+  sports,
+};
@@ -3,10 +3,11 @@
  */
 
 import type { UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
-import type { IndexerClient } from '../../network/IndexerClient';
 import type { SportsApiResponse, SportsQueryParams } from '../../types/sports';
 import type { BaseballLeagueResponse } from '../../types/baseball';
 import { useSportsProxy } from './useSportsProxy';
+import { useClientArgs } from '../IndexerProvider';
+import type { WithClient } from '../IndexerProvider';
 
 type Opts<T = any> = Omit<UseQueryOptions<SportsApiResponse<T>>, 'queryKey' | 'queryFn'>;
 
@@ -14,70 +15,63 @@ type Result<T = any> = UseQueryResult<SportsApiResponse<T>>;
 
 const S = 'baseball';
 
-export function useBaseballTimezone(client: IndexerClient, opts?: Opts): Result {
+export function useBaseballTimezone(...args: WithClient<[opts?: Opts]>): Result {
+  const [client, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/timezone', undefined, opts);
 }
 
 export function useBaseballCountries(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/countries', params, opts);
 }
 
 export function useBaseballSeasons(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/seasons', params, opts);
 }
 
 export function useBaseballLeagues(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts<BaseballLeagueResponse>
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts<BaseballLeagueResponse>]>
 ): Result<BaseballLeagueResponse> {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/leagues', params, opts);
 }
 
 export function useBaseballTeams(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/teams', params, opts);
 }
 
 export function useBaseballTeamStatistics(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/statistics', params, opts);
 }
 
 export function useBaseballGames(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/games', params, opts);
 }
 
 export function useBaseballGamesH2H(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/games/h2h', params, opts);
 }
 
 export function useBaseballStandings(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/standings', params, opts);
 }
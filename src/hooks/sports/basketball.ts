@@ -3,10 +3,11 @@
  */
 
 import type { UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
-import type { IndexerClient } from '../../network/IndexerClient';
 import type { SportsApiResponse, SportsQueryParams } from '../../types/sports';
 import type { BasketballLeagueResponse } from '../../types/basketball';
 import { useSportsProxy } from './useSportsProxy';
+import { useClientArgs } from '../IndexerProvider';
+import type { WithClient } from '../IndexerProvider';
 
 type Opts<T = any> = Omit<UseQueryOptions<SportsApiResponse<T>>, 'queryKey' | 'queryFn'>;
 
@@ -14,70 +15,63 @@ type Result<T = any> = UseQueryResult<SportsApiResponse<T>>;
 
 const S = 'basketball';
 
-export function useBasketballTimezone(client: IndexerClient, opts?: Opts): Result {
+export function useBasketballTimezone(...args: WithClient<[opts?: Opts]>): Result {
+  const [client, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/timezone', undefined, opts);
 }
 
 export function useBasketballCountries(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/countries', params, opts);
 }
 
 export function useBasketballSeasons(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/seasons', params, opts);
 }
 
 export function useBasketballLeagues(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts<BasketballLeagueResponse>
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts<BasketballLeagueResponse>]>
 ): Result<BasketballLeagueResponse> {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/leagues', params, opts);
 }
 
 export function useBasketballTeams(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/teams', params, opts);
 }
 
 export function useBasketballTeamStatistics(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/statistics', params, opts);
 }
 
 export function useBasketballGames(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/games', params, opts);
 }
 
 export function useBasketballGamesH2H(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/games/h2h', params, opts);
 }
 
 export function useBasketballStandings(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/standings', params, opts);
 }
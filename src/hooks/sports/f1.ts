@@ -3,9 +3,10 @@
  */
 
 import type { UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
-import type { IndexerClient } from '../../network/IndexerClient';
 import type { SportsApiResponse, SportsQueryParams } from '../../types/sports';
 import { useSportsProxy } from './useSportsProxy';
+import { useClientArgs } from '../IndexerProvider';
+import type { WithClient } from '../IndexerProvider';
 
 type Opts = Omit<UseQueryOptions<SportsApiResponse<any>>, 'queryKey' | 'queryFn'>;
 
@@ -13,70 +14,66 @@ type Result = UseQueryResult<SportsApiResponse<any>>;
 
 const S = 'formula1';
 
-export function useF1Timezone(client: IndexerClient, opts?: Opts): Result {
+export function useF1Timezone(...args: WithClient<[opts?: Opts]>): Result {
+  const [client, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/timezone', undefined, opts);
 }
 
 export function useF1Seasons(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/seasons', params, opts);
 }
 
 export function useF1Circuits(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/circuits', params, opts);
 }
 
 export function useF1Competitions(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/competitions', params, opts);
 }
 
-export function useF1Teams(client: IndexerClient, params?: SportsQueryParams, opts?: Opts): Result {
+export function useF1Teams(...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/teams', params, opts);
 }
 
 export function useF1Drivers(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/drivers', params, opts);
 }
 
-export function useF1Races(client: IndexerClient, params?: SportsQueryParams, opts?: Opts): Result {
+export function useF1Races(...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/races', params, opts);
 }
 
 export function useF1DriverRankings(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/rankings/drivers', params, opts);
 }
 
 export function useF1TeamRankings(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/rankings/teams', params, opts);
 }
 
 export function useF1PitStops(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/pitstops', params, opts);
 }
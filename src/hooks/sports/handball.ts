@@ -3,10 +3,11 @@
  */
 
 import type { UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
-import type { IndexerClient } from '../../network/IndexerClient';
 import type { SportsApiResponse, SportsQueryParams } from '../../types/sports';
 import type { HandballLeagueResponse } from '../../types/handball';
 import { useSportsProxy } from './useSportsProxy';
+import { useClientArgs } from '../IndexerProvider';
+import type { WithClient } from '../IndexerProvider';
 
 type Opts<T = any> = Omit<UseQueryOptions<SportsApiResponse<T>>, 'queryKey' | 'queryFn'>;
 
@@ -14,70 +15,63 @@ type Result<T = any> = UseQueryResult<SportsApiResponse<T>>;
 
 const S = 'handball';
 
-export function useHandballTimezones(client: IndexerClient, opts?: Opts): Result {
+export function useHandballTimezones(...args: WithClient<[opts?: Opts]>): Result {
+  const [client, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/timezone', undefined, opts);
 }
 
 export function useHandballCountries(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/countries', params, opts);
 }
 
 export function useHandballSeasons(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/seasons', params, opts);
 }
 
 export function useHandballLeagues(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts<HandballLeagueResponse>
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts<HandballLeagueResponse>]>
 ): Result<HandballLeagueResponse> {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/leagues', params, opts);
 }
 
 export function useHandballTeams(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/teams', params, opts);
 }
 
 export function useHandballStandings(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/standings', params, opts);
 }
 
 export function useHandballGames(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/games', params, opts);
 }
 
 export function useHandballH2H(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/games/h2h', params, opts);
 }
 
 export function useHandballOdds(
-  client: IndexerClient,
-  params?: SportsQueryParams,
-  opts?: Opts
+  ...args: WithClient<[params?: SportsQueryParams, opts?: Opts]>
 ): Result {
+  const [client, params, opts] = useClientArgs(args);
   return useSportsProxy(client, S, '/odds', params, opts);
 }
@@ -5,8 +5,10 @@
 
 import { useQuery } from '@tanstack/react-query';
 import type { UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
-import type { IndexerClient } from '../../network/IndexerClient';
 import type { SportsApiResponse, SportsQueryParams } from '../../types/sports';
+import { heavymathKeys } from '../query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from '../IndexerProvider';
+import type { WithClient } from '../IndexerProvider';
 
 /**
  * Generic hook for fetching sports data through the indexer proxy.
@@ -19,17 +21,23 @@ import type { SportsApiResponse, SportsQueryParams } from '../../types/sports';
  * @param options - React Query options (enabled, staleTime overrides, etc.)
  */
 export function useSportsProxy<T = unknown>(
-  client: IndexerClient,
-  sport: string,
-  endpoint: string,
-  params?: SportsQueryParams,
-  options?: Omit<UseQueryOptions<SportsApiResponse<T>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      sport: string,
+      endpoint: string,
+      params?: SportsQueryParams,
+      options?: Omit<UseQueryOptions<SportsApiResponse<T>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<SportsApiResponse<T>> {
+  const [client, sport, endpoint, params, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['sports', sport, endpoint, params ?? {}],
-    queryFn: () => client.getSportsData<T>(sport, endpoint, params),
+    queryKey: heavymathKeys.sports.proxy(sport, endpoint, params),
+    queryFn: ({ signal }) => client.getSportsData<T>(sport, endpoint, params, signal),
     staleTime: 30_000, // 30s client-side; server handles real caching
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -5,9 +5,11 @@
 
 import { useQuery } from '@tanstack/react-query';
 import type { UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
-import type { IndexerClient } from '../../network/IndexerClient';
 import type { ApiResponse } from '../../types';
 import type { SportsSearchResponse } from '../../types/sports';
+import { heavymathKeys } from '../query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from '../IndexerProvider';
+import type { WithClient } from '../IndexerProvider';
 
 /**
  * Search teams across all sports.
@@ -18,16 +20,22 @@ import type { SportsSearchResponse } from '../../types/sports';
  * @param options - React Query options overrides
  */
 export function useSportsSearch(
-  client: IndexerClient,
-  query: string,
-  options?: Omit<UseQueryOptions<ApiResponse<SportsSearchResponse>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      query: string,
+      options?: Omit<UseQueryOptions<ApiResponse<SportsSearchResponse>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<ApiResponse<SportsSearchResponse>> {
+  const [client, query, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['sports', 'search', query],
-    queryFn: () => client.searchSports(query),
+    queryKey: heavymathKeys.sports.search(query),
+    queryFn: ({ signal }) => client.searchSports(query, signal),
     staleTime: 60_000,
     retry: false,
     enabled: query.length >= 3,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -0,0 +1,250 @@
+/**
+ * Direct React Query cache updates from SSE events
+ * Applies event payloads to cached data with setQueryData so screens update
+ * without a refetch. Patches are best effort; callers still schedule a refetch
+ * to reconcile with the indexer.
+ */
+
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  MarketData,
+  MarketDetailData,
+  MarketStatus,
+  PaginatedResponse,
+  PredictionData,
+  SSEEventMessage,
+} from '../types';
+import { heavymathKeys } from './query-keys';
+
+/** Number of recent events remembered per QueryClient to avoid patching twice */
+const DEDUPE_WINDOW = 500;
+
+const MARKET_STATUS: Partial<Record<SSEEventMessage['eventType'], MarketStatus>> = {
+  MarketResolved: 'Resolved',
+  MarketCancelled: 'Cancelled',
+  MarketAbandoned: 'Abandoned',
+};
+
+const patchedEvents = new WeakMap<QueryClient, Set<string>>();
+
+type ListData<T> = PaginatedResponse<T> | InfiniteData<PaginatedResponse<T>, number>;
+
+/**
+ * Record an event for a QueryClient; false if it was already applied
+ * (hooks sharing a connection, or overlapping channels, see the same event).
+ */
+function markPatched(queryClient: QueryClient, message: SSEEventMessage): boolean {
+  let seen = patchedEvents.get(queryClient);
+  if (!seen) {
+    seen = new Set();
+    patchedEvents.set(queryClient, seen);
+  }
+  const key = `${message.timestamp}:${message.eventType}:${JSON.stringify(message.data ?? null)}`;
+  if (seen.has(key)) return false;
+  seen.add(key);
+  if (seen.size > DEDUPE_WINDOW) seen.delete(seen.values().next().value as string);
+  return true;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** `a + sign * b` for bigint strings; undefined when either is not an integer */
+function combineAmounts(a: unknown, b: string, sign: 1 | -1 = 1): string | undefined {
+  if (typeof a !== 'string') return undefined;
+  try {
+    return (BigInt(a) + BigInt(sign) * BigInt(b)).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/** Apply `update` to every item of a single-page or infinite list */
+function mapList<T>(
+  data: ListData<T> | undefined,
+  update: (item: T) => T
+): ListData<T> | undefined {
+  if (!data) return data;
+  if ('pages' in data) {
+    return {
+      ...data,
+      pages: data.pages.map(page => ({ ...page, data: page.data?.map(update) })),
+    };
+  }
+  return { ...data, data: data.data?.map(update) };
+}
+
+/**
+ * Bump `totalPool` and `predictionCount` on a cached market detail.
+ * Only totals the cached market already carries are touched.
+ */
+function patchMarketPool(
+  queryClient: QueryClient,
+  marketId: string,
+  amountDelta: string | undefined,
+  countDelta: number
+): void {
+  if (amountDelta === undefined) return;
+  queryClient.setQueryData<ApiResponse<MarketDetailData>>(
+    heavymathKeys.markets.detail(marketId),
+    old => {
+      if (!old?.data) return old;
+      const market = { ...old.data } as Record<string, unknown>;
+      const totalPool = combineAmounts(market.totalPool, amountDelta);
+      if (totalPool !== undefined) market.totalPool = totalPool;
+      if (typeof market.predictionCount === 'number') {
+        market.predictionCount = market.predictionCount + countDelta;
+      }
+      return { ...old, data: market as unknown as MarketDetailData };
+    }
+  );
+}
+
+/**
+ * Insert or update a predictor's prediction in the market's cached predictions.
+ * Returns the previous amount when the predictor was already listed, null when
+ * they were added, and undefined when the market's predictions are not cached.
+ */
+function upsertPrediction(
+  queryClient: QueryClient,
+  marketId: string,
+  predictor: string,
+  changes: Pick<PredictionData, 'amount' | 'percentage'>,
+  chainId: number,
+  timestamp: string
+): string | null | undefined {
+  let previousAmount: string | null | undefined;
+  queryClient.setQueryData<PaginatedResponse<PredictionData>>(
+    heavymathKeys.markets.predictions(marketId),
+    old => {
+      if (!old?.data) return old;
+      const existing = old.data.find(p => sameAddress(p.userAddress, predictor));
+      if (existing) {
+        previousAmount = existing.amount;
+        return {
+          ...old,
+          data: old.data.map(p =>
+            p === existing ? { ...p, ...changes, updatedAt: timestamp } : p
+          ),
+        };
+      }
+      previousAmount = null;
+      // Placeholder until the reconciling refetch fills in the outcome and transaction
+      const prediction: PredictionData = {
+        id: `${marketId}-${predictor.toLowerCase()}`,
+        chainId,
+        marketId,
+        userAddress: predictor,
+        ...changes,
+        outcome: '',
+        hasClaimed: false,
+        claimedAmount: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        lastBlockNumber: '',
+        lastTransactionHash: '',
+      } as PredictionData;
+      return { ...old, data: [...old.data, prediction] };
+    }
+  );
+  return previousAmount;
+}
+
+/**
+ * Apply an SSE event to cached query data.
+ *
+ * - `PredictionPlaced` / `PredictionUpdated`: upsert the prediction in the market's
+ *   predictions and adjust the market's pool totals
+ * - `WinningsClaimed` / `RefundClaimed`: mark the predictor's prediction as claimed
+ * - `MarketResolved` / `MarketCancelled` / `MarketAbandoned`: set the market status
+ *   on the market detail and every cached markets list
+ *
+ * Only queries already in the cache are patched; other events are ignored.
+ *
+ * @param queryClient - Query client holding the cached data
+ * @param message - SSE data update message
+ */
+export function patchEventQueries(queryClient: QueryClient, message: SSEEventMessage): void {
+  if (!markPatched(queryClient, message)) return;
+  const timestamp = new Date(message.timestamp).toISOString();
+
+  switch (message.eventType) {
+    case 'PredictionPlaced': {
+      const { marketId, predictor, amount, percentage, chainId } = message.data;
+      const previous = upsertPrediction(
+        queryClient,
+        marketId,
+        predictor,
+        { amount, percentage: Number(percentage) },
+        chainId,
+        timestamp
+      );
+      if (typeof previous === 'string') {
+        patchMarketPool(queryClient, marketId, combineAmounts(amount, previous, -1), 0);
+      } else {
+        // Without cached predictions a repeat bet looks like a new predictor, so the
+        // predictor count is left to the reconciling refetch
+        patchMarketPool(queryClient, marketId, amount, previous === null ? 1 : 0);
+      }
+      break;
+    }
+
+    case 'PredictionUpdated': {
+      const { marketId, predictor, newAmount, newPercentage, chainId } = message.data;
+      const previous = upsertPrediction(
+        queryClient,
+        marketId,
+        predictor,
+        { amount: newAmount, percentage: Number(newPercentage) },
+        chainId,
+        timestamp
+      );
+      // Without the previous amount the change in pool size is unknown
+      if (typeof previous === 'string') {
+        patchMarketPool(queryClient, marketId, combineAmounts(newAmount, previous, -1), 0);
+      }
+      break;
+    }
+
+    case 'WinningsClaimed':
+    case 'RefundClaimed': {
+      const { marketId, predictor, amount } = message.data;
+      queryClient.setQueryData<PaginatedResponse<PredictionData>>(
+        heavymathKeys.markets.predictions(marketId),
+        old =>
+          mapList(old, p =>
+            sameAddress(p.userAddress, predictor)
+              ? { ...p, hasClaimed: true, claimedAmount: amount, updatedAt: timestamp }
+              : p
+          ) as PaginatedResponse<PredictionData> | undefined
+      );
+      break;
+    }
+
+    case 'MarketResolved':
+    case 'MarketCancelled':
+    case 'MarketAbandoned': {
+      const marketId = message.data.marketId;
+      const status = MARKET_STATUS[message.eventType];
+      if (typeof marketId !== 'string' || !status) break;
+      const resolution =
+        message.eventType === 'MarketResolved'
+          ? { outcome: message.data.resolution, resolvedAt: timestamp }
+          : {};
+      const update = <T extends MarketData>(market: T): T =>
+        market.id === marketId ? { ...market, status, ...resolution } : market;
+
+      queryClient.setQueryData<ApiResponse<MarketDetailData>>(
+        heavymathKeys.markets.detail(marketId),
+        old => (old?.data ? { ...old, data: update(old.data) } : old)
+      );
+      queryClient.setQueriesData<ListData<MarketData>>(
+        { queryKey: heavymathKeys.markets.lists() },
+        old => mapList(old, update)
+      );
+      break;
+    }
+  }
+}
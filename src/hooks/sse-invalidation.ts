@@ -0,0 +1,240 @@
+/**
+ * React Query invalidation for SSE events
+ * Maps each event type to the queries it makes stale, scoped by the market,
+ * user and dealer in the payload so unrelated entries and lists stay cached.
+ */
+
+import type { InvalidateQueryFilters, Query, QueryClient, QueryKey } from '@tanstack/react-query';
+import type { SSEEventMessage, SSEEventType } from '../types';
+import { heavymathKeys } from './query-keys';
+
+/** Filter values an event pins down; unset values match any filter */
+type ListScope = Record<string, string | undefined>;
+
+function eventField(data: Record<string, unknown>, field: string): string | undefined {
+  const value = data[field];
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function sameId(a: unknown, b: string): boolean {
+  return (
+    (typeof a === 'string' || typeof a === 'number') && String(a).toLowerCase() === b.toLowerCase()
+  );
+}
+
+/**
+ * Queries for `id` under a key builder or prefix (compared case-insensitively, since
+ * wallet addresses arrive checksummed or lowercased), or for every id when it is unknown.
+ */
+function entity(
+  key: QueryKey | ((id?: string) => QueryKey),
+  id: string | undefined
+): InvalidateQueryFilters {
+  const prefix = typeof key === 'function' ? key().slice(0, -1) : key;
+  if (!id) return { queryKey: prefix };
+  return { queryKey: prefix, predicate: query => sameId(query.queryKey[prefix.length], id) };
+}
+
+/**
+ * Single-page and infinite list queries under `prefix` whose filters could
+ * include the changed entity. A list filtered on a different value is skipped.
+ */
+function list(prefix: QueryKey, scope: ListScope): InvalidateQueryFilters {
+  return {
+    queryKey: prefix,
+    predicate: query => {
+      const key = query.queryKey;
+      const filters =
+        key[prefix.length] === 'infinite' ? key[prefix.length + 1] : key[prefix.length];
+      if (typeof filters !== 'object' || filters === null) return true;
+      return Object.entries(scope).every(([field, value]) => {
+        const current = (filters as Record<string, unknown>)[field];
+        return value === undefined || current === undefined || sameId(current, value);
+      });
+    },
+  };
+}
+
+/**
+ * Get the query filters an SSE event invalidates.
+ *
+ * @param eventType - Event type from the data update message
+ * @param data - Event payload
+ * @returns Filters to pass to `queryClient.invalidateQueries`
+ */
+export function getEventInvalidations(
+  eventType: SSEEventType,
+  data: unknown
+): InvalidateQueryFilters[] {
+  const eventData = (typeof data === 'object' && data !== null ? data : {}) as Record<
+    string,
+    unknown
+  >;
+  const marketId = eventField(eventData, 'marketId');
+  const dealer = eventField(eventData, 'dealer');
+  const predictor = eventField(eventData, 'predictor');
+
+  switch (eventType) {
+    case 'MarketCreated':
+    case 'MarketResolved':
+    case 'MarketCancelled':
+    case 'MarketAbandoned':
+    case 'DealerFeeSet':
+      // Dealer markets and stats are keyed by NFT id, which market events do not carry
+      return [
+        entity(heavymathKeys.markets.detail, marketId),
+        entity(heavymathKeys.markets.history, marketId),
+        entity(heavymathKeys.markets.detailStats, marketId),
+        entity(heavymathKeys.oracle.resolutionCheck, marketId),
+        list(heavymathKeys.markets.lists(), {
+          dealer,
+          category: eventField(eventData, 'category'),
+        }),
+        { queryKey: heavymathKeys.markets.stats() },
+        { queryKey: heavymathKeys.markets.categoryCounts() },
+        entity(heavymathKeys.dealers.markets, undefined),
+        entity(heavymathKeys.dealers.stats, undefined),
+        entity(heavymathKeys.dealers.dashboardMarkets, dealer),
+        // Settling a market changes the claimable balance of every wallet with a stake
+        ...(eventType === 'MarketCreated' || eventType === 'DealerFeeSet'
+          ? []
+          : [{ queryKey: heavymathKeys.wallet.all() }]),
+      ];
+
+    case 'PredictionPlaced':
+    case 'PredictionUpdated':
+    case 'WinningsClaimed':
+    case 'RefundClaimed':
+      // Pool totals live on the market; the prediction id and dealer NFT id are not in the payload
+      return [
+        entity(heavymathKeys.markets.detail, marketId),
+        entity(heavymathKeys.markets.detailStats, marketId),
+        entity(heavymathKeys.markets.predictions, marketId),
+        list(heavymathKeys.predictions.lists(), { user: predictor, market: marketId }),
+        entity(heavymathKeys.predictions.detail, undefined),
+        { queryKey: heavymathKeys.markets.stats() },
+        entity(heavymathKeys.dealers.stats, undefined),
+        entity(heavymathKeys.wallet.address, predictor),
+      ];
+
+    case 'LicenseIssued':
+    case 'LicenseTransferred':
+    case 'PermissionsSet': {
+      const owners = ['owner', 'to', 'from', 'dealer']
+        .map(field => eventField(eventData, field))
+        .filter((owner): owner is string => !!owner);
+      const wallets = owners.length > 0 ? owners : [undefined];
+      return [
+        ...wallets.flatMap(wallet => [
+          list(heavymathKeys.dealers.lists(), { owner: wallet }),
+          entity(heavymathKeys.dealers.isDealer, wallet),
+          entity(heavymathKeys.dealers.nfts, wallet),
+          entity(heavymathKeys.dealers.dashboardMarkets, wallet),
+        ]),
+        // Dealer detail and permissions are keyed by NFT id
+        entity(heavymathKeys.dealers.detail, undefined),
+        entity(heavymathKeys.dealers.permissions, undefined),
+      ];
+    }
+
+    case 'OracleRegistered':
+    case 'OracleDataUpdated':
+      return [
+        list(heavymathKeys.oracle.lists(), { market: marketId }),
+        entity(heavymathKeys.oracle.detail, eventField(eventData, 'requestId')),
+        entity(heavymathKeys.oracle.config, marketId),
+        entity(heavymathKeys.oracle.resolutionCheck, marketId),
+        entity(heavymathKeys.markets.detail, marketId),
+      ];
+
+    case 'DealerFeesWithdrawn':
+      return [
+        list(heavymathKeys.withdrawals.lists(), {
+          withdrawer: eventField(eventData, 'withdrawer') ?? dealer,
+          market: marketId,
+        }),
+        entity(heavymathKeys.dealers.stats, undefined),
+      ];
+
+    case 'CommentAdded':
+    case 'CommentDeleted':
+      // Comment counts live on the discussion, which is keyed by subject rather than id
+      return [
+        entity(heavymathKeys.discussions.allComments(), eventField(eventData, 'discussionId')),
+        { queryKey: heavymathKeys.discussions.details() },
+      ];
+  }
+}
+
+/**
+ * Invalidate the queries an SSE event makes stale.
+ */
+export function invalidateEventQueries(
+  queryClient: QueryClient,
+  eventType: SSEEventType,
+  data: unknown
+): void {
+  getEventInvalidations(eventType, data).forEach(filters => {
+    queryClient.invalidateQueries(filters);
+  });
+}
+
+/**
+ * Invalidate the queries a batch of SSE events makes stale, refetching each
+ * affected query once no matter how many events touched it.
+ */
+export function invalidateEventBatch(
+  queryClient: QueryClient,
+  events: Pick<SSEEventMessage, 'eventType' | 'data'>[]
+): void {
+  const cache = queryClient.getQueryCache();
+  const stale = new Set<Query>();
+  events.forEach(({ eventType, data }) => {
+    getEventInvalidations(eventType, data).forEach(filters => {
+      cache.findAll(filters).forEach(query => stale.add(query));
+    });
+  });
+  if (stale.size > 0) {
+    queryClient.invalidateQueries({ predicate: query => stale.has(query) });
+  }
+}
+
+interface PendingReconcile {
+  events: Pick<SSEEventMessage, 'eventType' | 'data'>[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** Patched events awaiting a reconciling refetch, shared by every hook on a QueryClient */
+const pendingReconciles = new WeakMap<QueryClient, PendingReconcile>();
+
+/**
+ * Queue a patched event for a reconciling refetch after `delay` ms. Events queued on
+ * the same QueryClient are refetched as one batch, so hooks sharing a connection
+ * invalidate each affected query once.
+ */
+export function scheduleEventReconcile(
+  queryClient: QueryClient,
+  event: Pick<SSEEventMessage, 'eventType' | 'data'>,
+  delay: number
+): void {
+  let pending = pendingReconciles.get(queryClient);
+  if (!pending) {
+    pending = { events: [], timer: null };
+    pendingReconciles.set(queryClient, pending);
+  }
+  pending.events.push(event);
+  pending.timer ??= setTimeout(() => flushEventReconcile(queryClient), delay);
+}
+
+/**
+ * Refetch the queries of every queued event now, or drop the queue with `discard`
+ * when the caller invalidates everything anyway.
+ */
+export function flushEventReconcile(queryClient: QueryClient, discard = false): void {
+  const pending = pendingReconciles.get(queryClient);
+  if (!pending) return;
+  pendingReconciles.delete(queryClient);
+  if (pending.timer) clearTimeout(pending.timer);
+  if (!discard) invalidateEventBatch(queryClient, pending.events);
+}
@@ -4,13 +4,15 @@
 
 import { useMutation } from '@tanstack/react-query';
 import type { ApiResponse, AuthNonceResponse, AuthVerifyResponse } from '../types';
-import type { IndexerClient } from '../network/IndexerClient';
 import { useAuthStore } from '../stores/auth-store';
+import { useClientArgs } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 /**
  * Hook for getting a SIWE nonce from the server.
  */
-export function useAuthNonce(client: IndexerClient) {
+export function useAuthNonce(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
   return useMutation({
     mutationFn: async (): Promise<ApiResponse<AuthNonceResponse>> => {
       return await client.getNonce();
@@ -22,7 +24,8 @@ export function useAuthNonce(client: IndexerClient) {
  * Hook for verifying a SIWE signature and establishing a session.
  * On success, stores the JWT in the auth store.
  */
-export function useAuthVerify(client: IndexerClient) {
+export function useAuthVerify(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
   const { setSession } = useAuthStore();
 
   return useMutation({
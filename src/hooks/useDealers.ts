@@ -6,13 +6,18 @@
 import { useQuery, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
 import type {
   DealerWithPermissionsData,
+  DealerStatsData,
   LicensePermissionData,
   MarketData,
   PaginatedResponse,
   ApiResponse,
   DealerFilters,
 } from '../types';
-import { IndexerClient } from '../network/IndexerClient';
+import { useInfiniteList } from './infinite';
+import type { InfiniteListOptions, InfiniteListResult } from './infinite';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 /**
  * Get all dealer NFTs with optional filtering
@@ -24,24 +29,57 @@ import { IndexerClient } from '../network/IndexerClient';
  * ```
  */
 export function useDealers(
-  client: IndexerClient,
-  filters?: DealerFilters,
-  options?: Omit<
-    UseQueryOptions<PaginatedResponse<DealerWithPermissionsData>>,
-    'queryKey' | 'queryFn'
+  ...args: WithClient<
+    [
+      filters?: DealerFilters,
+      options?: Omit<
+        UseQueryOptions<PaginatedResponse<DealerWithPermissionsData>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
   >
 ): UseQueryResult<PaginatedResponse<DealerWithPermissionsData>> {
+  const [client, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'dealers', filters],
-    queryFn: async () => {
-      return await client.getDealers(filters);
+    queryKey: heavymathKeys.dealers.list(filters),
+    queryFn: async ({ signal }) => {
+      return await client.getDealers(filters, signal);
     },
     staleTime: 5 * 60 * 1000, // 5 minutes - NFT ownership doesn't change often
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
 
+/**
+ * Get dealer NFTs page by page for infinite scrolling
+ * GET /api/dealers
+ *
+ * Shares the `heavymathKeys.dealers.lists()` key prefix with useDealers,
+ * so SSE invalidation refreshes the loaded pages.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteDealers(client, { owner: '0x123...' });
+ * ```
+ */
+export function useInfiniteDealers(
+  ...args: WithClient<
+    [filters?: DealerFilters, options?: InfiniteListOptions<DealerWithPermissionsData>]
+  >
+): InfiniteListResult<DealerWithPermissionsData> {
+  const [client, filters, options] = useClientArgs(args);
+  return useInfiniteList(
+    heavymathKeys.dealers.infinite(filters),
+    filters,
+    (limit, offset, signal) => client.getDealers({ ...filters, limit, offset }, signal),
+    { staleTime: 5 * 60 * 1000 }, // 5 minutes
+    options
+  );
+}
+
 /**
  * Check if wallet is a dealer (owns dealer NFTs)
  * Convenience hook for checking dealer status
@@ -52,20 +90,26 @@ export function useDealers(
  * ```
  */
 export function useIsDealer(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  options?: Omit<UseQueryOptions<boolean>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      options?: Omit<UseQueryOptions<boolean>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<boolean> {
+  const [client, walletAddress, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'is-dealer', walletAddress],
-    queryFn: async () => {
+    queryKey: heavymathKeys.dealers.isDealer(walletAddress),
+    queryFn: async ({ signal }) => {
       if (!walletAddress) return false;
-      const result = await client.getDealers({ owner: walletAddress });
+      const result = await client.getDealers({ owner: walletAddress }, signal);
       return (result.data?.length ?? 0) > 0;
     },
     enabled: !!walletAddress,
     staleTime: 5 * 60 * 1000,
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -80,20 +124,26 @@ export function useIsDealer(
  * ```
  */
 export function useDealerNFTs(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  options?: Omit<UseQueryOptions<DealerWithPermissionsData[]>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      options?: Omit<UseQueryOptions<DealerWithPermissionsData[]>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<DealerWithPermissionsData[]> {
+  const [client, walletAddress, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'dealer-nfts', walletAddress],
-    queryFn: async () => {
+    queryKey: heavymathKeys.dealers.nfts(walletAddress),
+    queryFn: async ({ signal }) => {
       if (!walletAddress) return [];
-      const result = await client.getDealers({ owner: walletAddress });
+      const result = await client.getDealers({ owner: walletAddress }, signal);
       return result.data ?? [];
     },
     enabled: !!walletAddress,
     staleTime: 5 * 60 * 1000,
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -108,19 +158,28 @@ export function useDealerNFTs(
  * ```
  */
 export function useDealer(
-  client: IndexerClient,
-  dealerId: string | undefined,
-  options?: Omit<UseQueryOptions<ApiResponse<DealerWithPermissionsData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      dealerId: string | undefined,
+      options?: Omit<
+        UseQueryOptions<ApiResponse<DealerWithPermissionsData>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
 ): UseQueryResult<ApiResponse<DealerWithPermissionsData>> {
+  const [client, dealerId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'dealer', dealerId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.dealers.detail(dealerId),
+    queryFn: async ({ signal }) => {
       if (!dealerId) throw new Error('Dealer ID is required');
-      return await client.getDealer(dealerId);
+      return await client.getDealer(dealerId, signal);
     },
     enabled: !!dealerId,
     staleTime: 5 * 60 * 1000,
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -135,19 +194,25 @@ export function useDealer(
  * ```
  */
 export function useDealerPermissions(
-  client: IndexerClient,
-  dealerId: string | undefined,
-  options?: Omit<UseQueryOptions<ApiResponse<LicensePermissionData[]>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      dealerId: string | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<LicensePermissionData[]>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<ApiResponse<LicensePermissionData[]>> {
+  const [client, dealerId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'dealer-permissions', dealerId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.dealers.permissions(dealerId),
+    queryFn: async ({ signal }) => {
       if (!dealerId) throw new Error('Dealer ID is required');
-      return await client.getDealerPermissions(dealerId);
+      return await client.getDealerPermissions(dealerId, signal);
     },
     enabled: !!dealerId,
     staleTime: 10 * 60 * 1000, // 10 minutes - permissions rarely change
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -162,19 +227,58 @@ export function useDealerPermissions(
  * ```
  */
 export function useDealerMarkets(
-  client: IndexerClient,
-  dealerId: string | undefined,
-  options?: Omit<UseQueryOptions<PaginatedResponse<MarketData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      dealerId: string | undefined,
+      options?: Omit<UseQueryOptions<PaginatedResponse<MarketData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<MarketData>> {
+  const [client, dealerId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.dealers.markets(dealerId),
+    queryFn: async ({ signal }) => {
+      if (!dealerId) throw new Error('Dealer ID is required');
+      return await client.getDealerMarkets(dealerId, signal);
+    },
+    enabled: !!dealerId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Get volume and fee earnings of a specific dealer NFT
+ * GET /api/dealers/:id/stats
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useDealerStats(client, '1-1');
+ * ```
+ */
+export function useDealerStats(
+  ...args: WithClient<
+    [
+      dealerId: string | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<DealerStatsData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
+): UseQueryResult<ApiResponse<DealerStatsData>> {
+  const [client, dealerId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'dealer-markets', dealerId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.dealers.stats(dealerId),
+    queryFn: async ({ signal }) => {
       if (!dealerId) throw new Error('Dealer ID is required');
-      return await client.getDealerMarkets(dealerId);
+      return await client.getDealerStats(dealerId, signal);
     },
     enabled: !!dealerId,
     staleTime: 2 * 60 * 1000, // 2 minutes
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -188,23 +292,22 @@ export function useDealerMarkets(
  * const { nfts, markets, isLoading } = useDealerDashboard(client, '0x123...');
  * ```
  */
-export function useDealerDashboard(
-  client: IndexerClient,
-  walletAddress: string | undefined
-): {
+export function useDealerDashboard(...args: WithClient<[walletAddress: string | undefined]>): {
   nfts: UseQueryResult<DealerWithPermissionsData[]>;
   markets: UseQueryResult<MarketData[]>;
   isLoading: boolean;
   isError: boolean;
 } {
+  const [client, walletAddress] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   const nfts = useDealerNFTs(client, walletAddress);
 
   const markets = useQuery({
-    queryKey: ['heavymath', 'dealer-dashboard-markets', walletAddress],
-    queryFn: async () => {
+    queryKey: heavymathKeys.dealers.dashboardMarkets(walletAddress),
+    queryFn: async ({ signal }) => {
       if (!nfts.data || nfts.data.length === 0) return [];
 
-      const marketPromises = nfts.data.map(nft => client.getDealerMarkets(nft.id));
+      const marketPromises = nfts.data.map(nft => client.getDealerMarkets(nft.id, signal));
       const marketResults = await Promise.all(marketPromises);
 
       // Flatten markets and remove duplicates
@@ -220,6 +323,7 @@ export function useDealerDashboard(
     enabled: !!walletAddress && !!nfts.data && nfts.data.length > 0,
     staleTime: 2 * 60 * 1000,
     retry: false,
+    ...queryDefaults,
   });
 
   return {
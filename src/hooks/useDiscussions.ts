@@ -2,7 +2,14 @@
  * React hooks for discussion and comment operations
  */
 
-import { useQuery, useMutation, useQueryClient, type UseQueryOptions } from '@tanstack/react-query';
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+  type QueryKey,
+  type UseQueryOptions,
+} from '@tanstack/react-query';
 import type {
   ApiResponse,
   DiscussionData,
@@ -11,28 +18,239 @@ import type {
   PostCommentRequest,
   DiscussionQuery,
   DiscussionCommentsFilters,
+  ModerateCommentRequest,
+  ModerationQueueFilters,
+  EditCommentRequest,
+  ReplyCommentRequest,
+  ReportCommentRequest,
+  CommentReactionData,
 } from '../types';
 import type { IndexerClient } from '../network/IndexerClient';
 import { useAuthStore } from '../stores/auth-store';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 const STALE_TIME = 60 * 1000; // 1 minute
 
+type CommentsCache = ApiResponse<DiscussionCommentsResponse> | undefined;
+
+/** Cached comment lists as they were before an optimistic update */
+type CommentsSnapshot = Array<[QueryKey, CommentsCache]>;
+
+/**
+ * The cached list a comments cache entry belongs to
+ */
+interface CommentList {
+  /** Discussion of a comments list (undefined for a moderation queue) */
+  discussionId?: number | null;
+  /** Filters of a comments list */
+  filters?: DiscussionCommentsFilters;
+  /** Filters of a moderation queue (undefined for a comments list) */
+  queue?: ModerationQueueFilters;
+}
+
+const LIST_KEY_LENGTH = heavymathKeys.discussions.allComments().length;
+
+function requireToken(token: string | null): string {
+  if (!token) {
+    throw new Error('Authentication required. Please sign in with your wallet.');
+  }
+  return token;
+}
+
+function commentListOf(queryKey: QueryKey): CommentList {
+  if (queryKey[LIST_KEY_LENGTH - 1] === 'moderation') {
+    return { queue: (queryKey[LIST_KEY_LENGTH] as ModerationQueueFilters | undefined) ?? {} };
+  }
+  return {
+    discussionId: queryKey[LIST_KEY_LENGTH] as number | null | undefined,
+    filters: queryKey[LIST_KEY_LENGTH + 1] as DiscussionCommentsFilters | undefined,
+  };
+}
+
+function getCommentCaches(queryClient: QueryClient): CommentsSnapshot {
+  return [
+    ...queryClient.getQueriesData<ApiResponse<DiscussionCommentsResponse>>({
+      queryKey: heavymathKeys.discussions.allComments(),
+    }),
+    ...queryClient.getQueriesData<ApiResponse<DiscussionCommentsResponse>>({
+      queryKey: heavymathKeys.discussions.moderationQueues(),
+    }),
+  ];
+}
+
+/**
+ * Apply `update` to the comment with `commentId` in a threaded list, including
+ * nested replies. Returning null removes the comment (and its replies).
+ */
+function mapComments(
+  comments: CommentData[],
+  commentId: number,
+  update: (comment: CommentData) => CommentData | null
+): CommentData[] {
+  return comments.flatMap(comment => {
+    const next = comment.id === commentId ? update(comment) : comment;
+    if (!next) return [];
+    return Array.isArray(next.replies)
+      ? [{ ...next, replies: mapComments(next.replies, commentId, update) }]
+      : [next];
+  });
+}
+
+/**
+ * Rewrite every cached comments list and moderation queue in place.
+ */
+function setCommentCaches(
+  queryClient: QueryClient,
+  update: (comments: CommentData[], list: CommentList) => CommentData[]
+) {
+  for (const [queryKey, old] of getCommentCaches(queryClient)) {
+    if (!old?.data) continue;
+    const comments = update(old.data.comments, commentListOf(queryKey));
+    if (comments === old.data.comments) continue;
+    queryClient.setQueryData<ApiResponse<DiscussionCommentsResponse>>(queryKey, {
+      ...old,
+      data: { ...old.data, comments },
+    });
+  }
+}
+
+/**
+ * Update one comment wherever it is cached. `update` also receives the list,
+ * e.g. to drop the comment from a moderation queue.
+ */
+function setCachedComment(
+  queryClient: QueryClient,
+  commentId: number,
+  update: (comment: CommentData, list: CommentList) => CommentData | null
+) {
+  setCommentCaches(queryClient, (comments, list) =>
+    mapComments(comments, commentId, comment => update(comment, list))
+  );
+}
+
+/**
+ * Merge a comment returned by the server into the cache, keeping the cached replies.
+ */
+function mergeServerComment(queryClient: QueryClient, comment: CommentData | null | undefined) {
+  if (!comment) return;
+  setCachedComment(queryClient, comment.id, cached => ({
+    ...cached,
+    ...comment,
+    replies: cached.replies,
+  }));
+}
+
+/**
+ * Add `delta` to the cached `pagination.total` of the comment lists that `match` selects.
+ */
+function adjustCommentTotals(
+  queryClient: QueryClient,
+  match: (list: CommentList) => boolean,
+  delta: number
+) {
+  for (const [queryKey, old] of getCommentCaches(queryClient)) {
+    const list = commentListOf(queryKey);
+    if (!old?.data || list.queue || !match(list)) continue;
+    const pagination = old.data.pagination;
+    if (typeof pagination?.total !== 'number') continue;
+    queryClient.setQueryData<ApiResponse<DiscussionCommentsResponse>>(queryKey, {
+      ...old,
+      data: { ...old.data, pagination: { ...pagination, total: pagination.total + delta } },
+    });
+  }
+}
+
+/**
+ * Refetch the cached comment lists that `match` selects.
+ */
+function invalidateCommentLists(queryClient: QueryClient, match: (list: CommentList) => boolean) {
+  queryClient.invalidateQueries({
+    queryKey: heavymathKeys.discussions.allComments(),
+    predicate: query => match(commentListOf(query.queryKey)),
+  });
+}
+
+/**
+ * Refetch the cached discussions with the given ids. Discussions are keyed by
+ * subject, so they are matched on the id of their cached data.
+ */
+function invalidateDiscussions(
+  queryClient: QueryClient,
+  discussionIds: ReadonlySet<number | null | undefined>
+) {
+  if (discussionIds.size === 0) return;
+  queryClient.invalidateQueries({
+    queryKey: heavymathKeys.discussions.details(),
+    predicate: query =>
+      discussionIds.has(
+        (query.state.data as ApiResponse<DiscussionData | null> | undefined)?.data?.id
+      ),
+  });
+}
+
+/**
+ * Cancel in-flight comment list fetches, so they cannot overwrite an optimistic
+ * update, and save the cached lists for {@link restoreCommentCaches}.
+ */
+async function snapshotCommentCaches(queryClient: QueryClient): Promise<CommentsSnapshot> {
+  await Promise.all([
+    queryClient.cancelQueries({ queryKey: heavymathKeys.discussions.allComments() }),
+    queryClient.cancelQueries({ queryKey: heavymathKeys.discussions.moderationQueues() }),
+  ]);
+  return getCommentCaches(queryClient);
+}
+
+/**
+ * Put back the cached comment lists saved by {@link snapshotCommentCaches}.
+ */
+function restoreCommentCaches(queryClient: QueryClient, snapshot: CommentsSnapshot | undefined) {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+/**
+ * Add or remove the signed-in wallet's reaction in a reactions list.
+ */
+function toggleReaction(
+  reactions: CommentReactionData[],
+  reaction: string,
+  reacted: boolean
+): CommentReactionData[] {
+  const existing = reactions.find(item => item.reaction === reaction);
+  if (!existing) {
+    return reacted ? [...reactions, { reaction, count: 1, reacted: true }] : reactions;
+  }
+  if (existing.reacted === reacted) return reactions;
+
+  const count = existing.count + (reacted ? 1 : -1);
+  return count > 0
+    ? reactions.map(item => (item === existing ? { ...item, count, reacted } : item))
+    : reactions.filter(item => item !== existing);
+}
+
 /**
  * Fetch discussion metadata for a subject.
  * Returns null if no discussion exists yet.
  */
 export function useDiscussion(
-  client: IndexerClient,
-  query: DiscussionQuery,
-  options?: Omit<UseQueryOptions<ApiResponse<DiscussionData | null>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      query: DiscussionQuery,
+      options?: Omit<UseQueryOptions<ApiResponse<DiscussionData | null>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ) {
+  const [client, query, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   const enabled = Boolean(query.subjectType && query.sport && query.subjectId);
 
   const result = useQuery({
-    queryKey: ['heavymath', 'discussion', query.subjectType, query.sport, query.subjectId],
-    queryFn: () => client.getDiscussion(query),
+    queryKey: heavymathKeys.discussions.detail(query.subjectType, query.sport, query.subjectId),
+    queryFn: ({ signal }) => client.getDiscussion(query, signal),
     staleTime: STALE_TIME,
     enabled,
+    ...queryDefaults,
     ...options,
   });
 
@@ -49,16 +267,25 @@ export function useDiscussion(
  * Fetch paginated, threaded comments for a discussion.
  */
 export function useDiscussionComments(
-  client: IndexerClient,
-  discussionId: number | null | undefined,
-  filters?: DiscussionCommentsFilters,
-  options?: Omit<UseQueryOptions<ApiResponse<DiscussionCommentsResponse>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      discussionId: number | null | undefined,
+      filters?: DiscussionCommentsFilters,
+      options?: Omit<
+        UseQueryOptions<ApiResponse<DiscussionCommentsResponse>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
 ) {
+  const [client, discussionId, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   const result = useQuery({
-    queryKey: ['heavymath', 'discussionComments', discussionId, filters],
-    queryFn: () => client.getDiscussionComments(discussionId!, filters),
+    queryKey: heavymathKeys.discussions.comments(discussionId, filters),
+    queryFn: ({ signal }) => client.getDiscussionComments(discussionId!, filters, signal),
     staleTime: STALE_TIME,
     enabled: discussionId != null,
+    ...queryDefaults,
     ...options,
   });
 
@@ -75,59 +302,369 @@ export function useDiscussionComments(
 
 /**
  * Mutation hook for posting a comment.
- * Invalidates discussion and comments queries on success.
+ * Adds the comment to the top of the discussion's cached newest-first lists
+ * (first page only), raises their comment total and refetches its oldest-first
+ * lists and the discussion.
  */
-export function usePostComment(client: IndexerClient) {
+export function usePostComment(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
   const queryClient = useQueryClient();
   const { getToken } = useAuthStore();
 
   return useMutation({
     mutationFn: async (body: PostCommentRequest): Promise<ApiResponse<CommentData>> => {
-      const token = getToken();
-      if (!token) {
-        throw new Error('Authentication required. Please sign in with your wallet.');
+      return await client.postComment(requireToken(getToken()), body);
+    },
+    onSuccess: (response, variables) => {
+      const detailKey = heavymathKeys.discussions.detail(
+        variables.subjectType,
+        variables.sport,
+        variables.subjectId
+      );
+      const discussionId =
+        queryClient.getQueryData<ApiResponse<DiscussionData | null>>(detailKey)?.data?.id;
+      const comment = response.data;
+
+      if (comment && discussionId != null) {
+        setCommentCaches(queryClient, (comments, list) =>
+          list.discussionId === discussionId &&
+          list.filters?.sort !== 'oldest' &&
+          (list.filters?.page ?? 1) === 1
+            ? [comment, ...comments]
+            : comments
+        );
+        adjustCommentTotals(queryClient, list => list.discussionId === discussionId, 1);
+        invalidateCommentLists(
+          queryClient,
+          list => list.discussionId === discussionId && list.filters?.sort === 'oldest'
+        );
       }
-      return await client.postComment(token, body);
+      queryClient.invalidateQueries({ queryKey: detailKey });
     },
-    onSuccess: (_data, variables) => {
-      queryClient.invalidateQueries({
-        queryKey: [
-          'heavymath',
-          'discussion',
-          variables.subjectType,
-          variables.sport,
-          variables.subjectId,
-        ],
-      });
-      queryClient.invalidateQueries({
-        queryKey: ['heavymath', 'discussionComments'],
+  });
+}
+
+/**
+ * Mutation hook for replying to a comment.
+ * Appends the reply under its parent in every cached comments list, raises the
+ * comment total of the parent's discussion and refetches that discussion.
+ */
+export function useReplyToComment(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
+  const queryClient = useQueryClient();
+  const { getToken } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async ({
+      parentId,
+      request,
+    }: {
+      parentId: number;
+      request: ReplyCommentRequest;
+    }): Promise<ApiResponse<CommentData>> => {
+      return await client.replyToComment(requireToken(getToken()), parentId, request);
+    },
+    onSuccess: (response, { parentId }) => {
+      const reply = response.data;
+      if (!reply) return;
+      const discussionIds = new Set<number | null | undefined>();
+      setCachedComment(queryClient, parentId, (parent, list) => {
+        if (list.queue) return parent;
+        discussionIds.add(list.discussionId);
+        return { ...parent, replies: [...(parent.replies ?? []), reply] };
       });
+      adjustCommentTotals(queryClient, list => discussionIds.has(list.discussionId), 1);
+      invalidateDiscussions(queryClient, discussionIds);
     },
   });
 }
 
 /**
- * Mutation hook for deleting a comment.
- * Invalidates discussion and comments queries on success.
+ * Mutation hook for editing a comment.
+ * Optimistically replaces the content in every cached list, rolls back on
+ * error and merges the server's copy on success.
  */
-export function useDeleteComment(client: IndexerClient) {
+export function useEditComment(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
+  const queryClient = useQueryClient();
+  const { getToken } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async ({
+      commentId,
+      request,
+    }: {
+      commentId: number;
+      request: EditCommentRequest;
+    }): Promise<ApiResponse<CommentData>> => {
+      return await client.editComment(requireToken(getToken()), commentId, request);
+    },
+    onMutate: async ({ commentId, request }) => {
+      const snapshot = await snapshotCommentCaches(queryClient);
+      setCachedComment(queryClient, commentId, comment => ({
+        ...comment,
+        content: request.content,
+      }));
+      return { snapshot };
+    },
+    onSuccess: response => {
+      mergeServerComment(queryClient, response.data);
+    },
+    onError: (_error, _variables, context) => {
+      restoreCommentCaches(queryClient, context?.snapshot);
+    },
+  });
+}
+
+/**
+ * Mutation hook for soft-deleting a comment.
+ * Optimistically marks the comment deleted in every cached list, keeping its
+ * replies, and lowers the discussion's comment total. Refetches the discussion
+ * on success; on error rolls back and refetches its comment lists.
+ */
+export function useDeleteComment(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
   const queryClient = useQueryClient();
   const { getToken } = useAuthStore();
 
   return useMutation({
     mutationFn: async (commentId: number): Promise<ApiResponse<{ message: string }>> => {
-      const token = getToken();
-      if (!token) {
-        throw new Error('Authentication required. Please sign in with your wallet.');
-      }
-      return await client.deleteComment(token, commentId);
+      return await client.deleteComment(requireToken(getToken()), commentId);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ['heavymath', 'discussion'],
+    onMutate: async commentId => {
+      const snapshot = await snapshotCommentCaches(queryClient);
+      const discussionIds = new Set<number | null | undefined>();
+      setCachedComment(queryClient, commentId, (comment, list) => {
+        if (!list.queue) discussionIds.add(list.discussionId);
+        return { ...comment, content: '', isDeleted: true };
       });
+      adjustCommentTotals(queryClient, list => discussionIds.has(list.discussionId), -1);
+      return { snapshot, discussionIds };
+    },
+    onSuccess: (_data, _commentId, context) => {
+      invalidateDiscussions(queryClient, context.discussionIds);
+    },
+    onError: (_error, _commentId, context) => {
+      restoreCommentCaches(queryClient, context?.snapshot);
+      const discussionIds = context?.discussionIds;
+      if (discussionIds?.size) {
+        invalidateCommentLists(queryClient, list => discussionIds.has(list.discussionId));
+      }
+    },
+  });
+}
+
+/**
+ * Fetch the reactions on a comment.
+ * Sends the token from the auth store when signed in, so `reacted` is filled in.
+ */
+export function useCommentReactions(
+  ...args: WithClient<
+    [
+      commentId: number | null | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<CommentReactionData[]>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
+) {
+  const [client, commentId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  const { getToken } = useAuthStore();
+
+  const result = useQuery({
+    queryKey: heavymathKeys.discussions.reactions(commentId ?? undefined),
+    queryFn: ({ signal }) => client.getCommentReactions(commentId!, getToken(), signal),
+    staleTime: STALE_TIME,
+    enabled: commentId != null,
+    ...queryDefaults,
+    ...options,
+  });
+
+  return {
+    reactions: result.data?.data ?? [],
+    isLoading: result.isLoading,
+    isError: result.isError,
+    error: result.error,
+    refetch: result.refetch,
+  };
+}
+
+/**
+ * Shared implementation of useAddReaction and useRemoveReaction: optimistically
+ * toggles the reaction in the comment's cached reactions, rolls back on error
+ * and stores the server's list on success.
+ */
+function useReactionMutation(client: IndexerClient, reacted: boolean) {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async ({
+      commentId,
+      reaction,
+    }: {
+      commentId: number;
+      reaction: string;
+    }): Promise<ApiResponse<CommentReactionData[]>> => {
+      const token = requireToken(getToken());
+      return reacted
+        ? await client.addReaction(token, commentId, reaction)
+        : await client.removeReaction(token, commentId, reaction);
+    },
+    onMutate: async ({ commentId, reaction }) => {
+      const queryKey = heavymathKeys.discussions.reactions(commentId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<ApiResponse<CommentReactionData[]>>(queryKey);
+      if (previous?.data) {
+        queryClient.setQueryData<ApiResponse<CommentReactionData[]>>(queryKey, {
+          ...previous,
+          data: toggleReaction(previous.data, reaction, reacted),
+        });
+      }
+      return { previous };
+    },
+    onSuccess: (response, { commentId }) => {
+      if (!response.data) return;
+      queryClient.setQueryData(heavymathKeys.discussions.reactions(commentId), response);
+    },
+    onError: (_error, { commentId }, context) => {
+      queryClient.setQueryData(heavymathKeys.discussions.reactions(commentId), context?.previous);
+    },
+  });
+}
+
+/**
+ * Mutation hook for adding a reaction to a comment.
+ *
+ * @example
+ * ```tsx
+ * const addReaction = useAddReaction(client);
+ * addReaction.mutate({ commentId: 42, reaction: '🔥' });
+ * ```
+ */
+export function useAddReaction(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
+  return useReactionMutation(client, true);
+}
+
+/**
+ * Mutation hook for removing the signed-in wallet's reaction from a comment.
+ */
+export function useRemoveReaction(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
+  return useReactionMutation(client, false);
+}
+
+/**
+ * Mutation hook for reporting a comment to the moderators.
+ * Reports only reach the moderation queue, so no cached data changes.
+ */
+export function useReportComment(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
+  const { getToken } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async ({
+      commentId,
+      request,
+    }: {
+      commentId: number;
+      request: ReportCommentRequest;
+    }): Promise<ApiResponse<{ message: string }>> => {
+      return await client.reportComment(requireToken(getToken()), commentId, request);
+    },
+  });
+}
+
+/**
+ * Fetch the moderation queue (admin only).
+ * Uses the token from the auth store and stays disabled until signed in.
+ *
+ * @example
+ * ```tsx
+ * const { comments, pagination } = useModerationQueue(client, { status: 'pending' });
+ * ```
+ */
+export function useModerationQueue(
+  ...args: WithClient<
+    [
+      filters?: ModerationQueueFilters,
+      options?: Omit<
+        UseQueryOptions<ApiResponse<DiscussionCommentsResponse>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
+) {
+  const [client, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  const { token, getToken } = useAuthStore();
+
+  const result = useQuery({
+    queryKey: heavymathKeys.discussions.moderationQueue(filters),
+    queryFn: ({ signal }) => client.getModerationQueue(requireToken(getToken()), filters, signal),
+    staleTime: STALE_TIME,
+    enabled: token != null,
+    ...queryDefaults,
+    ...options,
+  });
+
+  return {
+    data: result.data?.data ?? null,
+    comments: result.data?.data?.comments ?? [],
+    pagination: result.data?.data?.pagination ?? null,
+    isLoading: result.isLoading,
+    isError: result.isError,
+    error: result.error,
+    refetch: result.refetch,
+  };
+}
+
+/**
+ * Mutation hook for moderating a comment (admin only).
+ * Optimistically sets the comment's moderation status in every cached comments
+ * list and drops it from moderation queues filtered by another status; rolls
+ * back on error, merges the server's copy on success and refetches the queues
+ * once settled.
+ *
+ * @example
+ * ```tsx
+ * const moderate = useModerateComment(client);
+ * moderate.mutate({ commentId: 42, request: { status: 'approved' } });
+ * ```
+ */
+export function useModerateComment(...args: WithClient<[]>) {
+  const [client] = useClientArgs(args);
+  const queryClient = useQueryClient();
+  const { getToken } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async ({
+      commentId,
+      request,
+    }: {
+      commentId: number;
+      request: ModerateCommentRequest;
+    }): Promise<ApiResponse<CommentData>> => {
+      return await client.moderateComment(requireToken(getToken()), commentId, request);
+    },
+    onMutate: async ({ commentId, request }) => {
+      const snapshot = await snapshotCommentCaches(queryClient);
+      setCachedComment(queryClient, commentId, (comment, list) =>
+        list.queue?.status && list.queue.status !== request.status
+          ? null
+          : { ...comment, moderationStatus: request.status }
+      );
+      return { snapshot };
+    },
+    onSuccess: response => {
+      mergeServerComment(queryClient, response.data);
+    },
+    onError: (_error, _variables, context) => {
+      restoreCommentCaches(queryClient, context?.snapshot);
+    },
+    onSettled: () => {
       queryClient.invalidateQueries({
-        queryKey: ['heavymath', 'discussionComments'],
+        queryKey: heavymathKeys.discussions.moderationQueues(),
       });
     },
   });
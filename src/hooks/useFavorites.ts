@@ -19,9 +19,13 @@ import type {
   WalletFavoritesFilters,
   CreateFavoriteRequest,
 } from '../types';
-import { IndexerClient } from '../network/IndexerClient';
+import { useInfiniteList } from './infinite';
+import type { InfiniteListOptions, InfiniteListResult } from './infinite';
 import { useFavoritesStore } from '../stores/favorites-store';
 import { getNow, getTestMode } from '../utils/datetime';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 /**
  * Hook for managing wallet favorites
@@ -45,10 +49,16 @@ import { getNow, getTestMode } from '../utils/datetime';
  * ```
  */
 export function useFavorites(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  filters?: WalletFavoritesFilters,
-  options?: Omit<UseQueryOptions<PaginatedResponse<WalletFavoriteData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      filters?: WalletFavoritesFilters,
+      options?: Omit<
+        UseQueryOptions<PaginatedResponse<WalletFavoriteData>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
 ): {
   favorites: WalletFavoriteData[];
   query: UseQueryResult<PaginatedResponse<WalletFavoriteData>>;
@@ -59,8 +69,10 @@ export function useFavorites(
   removeFavorite: UseMutationResult<ApiResponse<void>, Error, number>;
   refresh: () => void;
 } {
+  const [client, walletAddress, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   const queryClient = useQueryClient();
-  const queryKey = ['heavymath', 'favorites', walletAddress, filters];
+  const queryKey = heavymathKeys.favorites.list(walletAddress, filters);
 
   // Zustand store actions
   const {
@@ -89,7 +101,7 @@ export function useFavorites(
   // Query for fetching favorites from server
   const query = useQuery({
     queryKey,
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       const testMode = getTestMode();
       if (!walletAddress) {
         return {
@@ -104,7 +116,7 @@ export function useFavorites(
           timestamp: getNow(testMode).toISOString(),
         } as PaginatedResponse<WalletFavoriteData>;
       }
-      const response = await client.getFavorites(walletAddress, filters);
+      const response = await client.getFavorites(walletAddress, filters, signal);
       // Update store with server data (without filters to get all favorites)
       if (!filters) {
         setFavorites(walletAddress, response.data ?? []);
@@ -115,6 +127,7 @@ export function useFavorites(
     retry: false,
     // Only fetch if store needs refresh or no data
     enabled: walletAddress ? needsRefresh(walletAddress) || storedFavorites.length === 0 : false,
+    ...queryDefaults,
     ...options,
   });
 
@@ -198,6 +211,40 @@ export function useFavorites(
   };
 }
 
+/**
+ * Get a wallet's favorites page by page for infinite scrolling
+ * GET /api/wallet/:address/favorites
+ *
+ * Reads straight from the server (no Zustand store sync). Shares the
+ * `heavymathKeys.favorites.wallet(walletAddress)` key prefix with useFavorites.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteFavorites(client, '0x123...');
+ * ```
+ */
+export function useInfiniteFavorites(
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      filters?: WalletFavoritesFilters,
+      options?: InfiniteListOptions<WalletFavoriteData>,
+    ]
+  >
+): InfiniteListResult<WalletFavoriteData> {
+  const [client, walletAddress, filters, options] = useClientArgs(args);
+  return useInfiniteList(
+    heavymathKeys.favorites.infinite(walletAddress, filters),
+    filters,
+    (limit, offset, signal) => {
+      if (!walletAddress) throw new Error('Wallet address is required');
+      return client.getFavorites(walletAddress, { ...filters, limit, offset }, signal);
+    },
+    { staleTime: 2 * 60 * 1000, enabled: !!walletAddress }, // 2 minutes
+    options
+  );
+}
+
 /**
  * Get favorites for a specific category
  *
@@ -211,11 +258,18 @@ export function useFavorites(
  * ```
  */
 export function useCategoryFavorites(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  category: string,
-  options?: Omit<UseQueryOptions<PaginatedResponse<WalletFavoriteData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      category: string,
+      options?: Omit<
+        UseQueryOptions<PaginatedResponse<WalletFavoriteData>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
 ) {
+  const [client, walletAddress, category, options] = useClientArgs(args);
   return useFavorites(client, walletAddress, { category }, options);
 }
 
@@ -233,15 +287,14 @@ export function useCategoryFavorites(
  * ```
  */
 export function useIsFavorite(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  item: CreateFavoriteRequest
+  ...args: WithClient<[walletAddress: string | undefined, item: CreateFavoriteRequest]>
 ): {
   isFavorite: boolean;
   favoriteId: number | undefined;
   isLoading: boolean;
   toggleFavorite: () => Promise<void>;
 } {
+  const [client, walletAddress, item] = useClientArgs(args);
   const { isFavorite: checkIsFavorite, findFavorite } = useFavoritesStore();
 
   // Use store directly for immediate response
@@ -297,22 +350,21 @@ const FIVE_MINUTES = 5 * 60 * 1000;
  * ```
  */
 export function useFavoriteCounts(
-  client: IndexerClient,
-  category: string,
-  subcategory: string,
-  type: string,
-  itemIds: string[]
+  ...args: WithClient<[category: string, subcategory: string, type: string, itemIds: string[]]>
 ): {
   counts: Record<string, number>;
   isLoading: boolean;
 } {
+  const [client, category, subcategory, type, itemIds] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   const enabled = itemIds.length > 0;
 
   const query = useQuery({
-    queryKey: ['heavymath', 'favoriteCounts', category, subcategory, type],
-    queryFn: () => client.getFavoriteCounts({ category, subcategory, type }),
+    queryKey: heavymathKeys.favorites.counts(category, subcategory, type),
+    queryFn: ({ signal }) => client.getFavoriteCounts({ category, subcategory, type }, signal),
     enabled,
     staleTime: FIVE_MINUTES,
+    ...queryDefaults,
   });
 
   const counts = query.data?.data ?? {};
@@ -9,17 +9,22 @@ import type {
   MarketDetailData,
   PredictionData,
   MarketStateHistoryData,
+  MarketDetailStatsData,
   PaginatedResponse,
   ApiResponse,
   MarketFilters,
 } from '../types';
-import { IndexerClient } from '../network/IndexerClient';
+import { useInfiniteList } from './infinite';
+import type { InfiniteListOptions, InfiniteListResult } from './infinite';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 /**
  * Get all markets with optional filtering.
  * GET /api/markets
  *
- * @param client - IndexerClient instance (from useIndexer() context)
+ * @param client - IndexerClient instance (optional inside an IndexerProvider)
  * @param filters - Optional market filters (status, dealer, category, limit, offset)
  * @param options - Additional React Query options (excluding queryKey and queryFn)
  * @returns React Query result with paginated market data
@@ -33,21 +38,58 @@ import { IndexerClient } from '../network/IndexerClient';
  * ```
  */
 export function useMarkets(
-  client: IndexerClient,
-  filters?: MarketFilters,
-  options?: Omit<UseQueryOptions<PaginatedResponse<MarketData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      filters?: MarketFilters,
+      options?: Omit<UseQueryOptions<PaginatedResponse<MarketData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<MarketData>> {
+  const [client, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'markets', filters],
-    queryFn: async () => {
-      return await client.getMarkets(filters);
+    queryKey: heavymathKeys.markets.list(filters),
+    queryFn: async ({ signal }) => {
+      return await client.getMarkets(filters, signal);
     },
     staleTime: 2 * 60 * 1000, // 2 minutes
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
 
+/**
+ * Get markets page by page for infinite scrolling.
+ * GET /api/markets
+ *
+ * Shares the `heavymathKeys.markets.lists()` key prefix with useMarkets, so SSE
+ * market events refresh the loaded pages as well.
+ *
+ * @param client - IndexerClient instance
+ * @param filters - Optional market filters; `limit` is the page size, `offset` the first page's offset
+ * @param options - Additional React Query infinite query options
+ * @returns React Query infinite result; call `fetchNextPage` while `hasNextPage` is true
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteMarkets(client, { status: 'Active' });
+ * const markets = data?.pages.flatMap(page => page.data ?? []) ?? [];
+ * ```
+ */
+export function useInfiniteMarkets(
+  ...args: WithClient<[filters?: MarketFilters, options?: InfiniteListOptions<MarketData>]>
+): InfiniteListResult<MarketData> {
+  const [client, filters, options] = useClientArgs(args);
+  return useInfiniteList(
+    heavymathKeys.markets.infinite(filters),
+    filters,
+    (limit, offset, signal) => client.getMarkets({ ...filters, limit, offset }, signal),
+    { staleTime: 2 * 60 * 1000 }, // 2 minutes
+    options
+  );
+}
+
 /**
  * Get active markets only.
  * Convenience hook for the most common use case.
@@ -63,10 +105,14 @@ export function useMarkets(
  * ```
  */
 export function useActiveMarkets(
-  client: IndexerClient,
-  limit: number = 50,
-  options?: Omit<UseQueryOptions<PaginatedResponse<MarketData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      limit?: number,
+      options?: Omit<UseQueryOptions<PaginatedResponse<MarketData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<MarketData>> {
+  const [client, limit = 50, options] = useClientArgs(args);
   return useMarkets(
     client,
     {
@@ -92,19 +138,25 @@ export function useActiveMarkets(
  * ```
  */
 export function useMarket(
-  client: IndexerClient,
-  marketId: string | undefined,
-  options?: Omit<UseQueryOptions<ApiResponse<MarketDetailData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      marketId: string | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<MarketDetailData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<ApiResponse<MarketDetailData>> {
+  const [client, marketId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'market', marketId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.markets.detail(marketId),
+    queryFn: async ({ signal }) => {
       if (!marketId) throw new Error('Market ID is required');
-      return await client.getMarket(marketId);
+      return await client.getMarket(marketId, signal);
     },
     enabled: !!marketId,
     staleTime: 2 * 60 * 1000,
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -124,19 +176,25 @@ export function useMarket(
  * ```
  */
 export function useMarketPredictions(
-  client: IndexerClient,
-  marketId: string | undefined,
-  options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      marketId: string | undefined,
+      options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<PredictionData>> {
+  const [client, marketId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'market-predictions', marketId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.markets.predictions(marketId),
+    queryFn: async ({ signal }) => {
       if (!marketId) throw new Error('Market ID is required');
-      return await client.getMarketPredictions(marketId);
+      return await client.getMarketPredictions(marketId, signal);
     },
     enabled: !!marketId,
     staleTime: 1 * 60 * 1000, // 1 minute - predictions update frequently
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -156,19 +214,66 @@ export function useMarketPredictions(
  * ```
  */
 export function useMarketHistory(
-  client: IndexerClient,
-  marketId: string | undefined,
-  options?: Omit<UseQueryOptions<ApiResponse<MarketStateHistoryData[]>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      marketId: string | undefined,
+      options?: Omit<
+        UseQueryOptions<ApiResponse<MarketStateHistoryData[]>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
 ): UseQueryResult<ApiResponse<MarketStateHistoryData[]>> {
+  const [client, marketId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'market-history', marketId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.markets.history(marketId),
+    queryFn: async ({ signal }) => {
       if (!marketId) throw new Error('Market ID is required');
-      return await client.getMarketHistory(marketId);
+      return await client.getMarketHistory(marketId, signal);
     },
     enabled: !!marketId,
     staleTime: 5 * 60 * 1000, // 5 minutes - history doesn't change often
     retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Get pool and participation statistics of a specific market.
+ * GET /api/markets/:id/stats
+ *
+ * @param client - IndexerClient instance
+ * @param marketId - The chain-prefixed market ID, or undefined to disable the query
+ * @param options - Additional React Query options
+ * @returns React Query result with the market's statistics
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useMarketDetailStats(client, '1-market-123');
+ * ```
+ */
+export function useMarketDetailStats(
+  ...args: WithClient<
+    [
+      marketId: string | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<MarketDetailStatsData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
+): UseQueryResult<ApiResponse<MarketDetailStatsData>> {
+  const [client, marketId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.markets.detailStats(marketId),
+    queryFn: async ({ signal }) => {
+      if (!marketId) throw new Error('Market ID is required');
+      return await client.getMarketDetailStats(marketId, signal);
+    },
+    enabled: !!marketId,
+    staleTime: 1 * 60 * 1000, // 1 minute - changes with every prediction
+    retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -186,16 +291,14 @@ export function useMarketHistory(
  * const { market, predictions, history, isLoading } = useMarketDetails(client, '1-market-123');
  * ```
  */
-export function useMarketDetails(
-  client: IndexerClient,
-  marketId: string | undefined
-): {
+export function useMarketDetails(...args: WithClient<[marketId: string | undefined]>): {
   market: UseQueryResult<ApiResponse<MarketDetailData>>;
   predictions: UseQueryResult<PaginatedResponse<PredictionData>>;
   history: UseQueryResult<ApiResponse<MarketStateHistoryData[]>>;
   isLoading: boolean;
   isError: boolean;
 } {
+  const [client, marketId] = useClientArgs(args);
   const market = useMarket(client, marketId);
   const predictions = useMarketPredictions(client, marketId);
   const history = useMarketHistory(client, marketId);
@@ -22,7 +22,11 @@ import type {
   TriggerLockResponseData,
   TriggerResolveResponseData,
 } from '@sudobility/heavymath_types';
-import { IndexerClient } from '../network/IndexerClient';
+import { useInfiniteList } from './infinite';
+import type { InfiniteListOptions, InfiniteListResult } from './infinite';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useNullableClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient, WithNullableClient } from './IndexerProvider';
 
 /**
  * Get oracle requests with optional filtering
@@ -34,21 +38,52 @@ import { IndexerClient } from '../network/IndexerClient';
  * ```
  */
 export function useOracleRequests(
-  client: IndexerClient,
-  filters?: OracleFilters,
-  options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      filters?: OracleFilters,
+      options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<OracleRequestData>> {
+  const [client, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'oracle-requests', filters],
-    queryFn: async () => {
-      return await client.getOracleRequests(filters);
+    queryKey: heavymathKeys.oracle.list(filters),
+    queryFn: async ({ signal }) => {
+      return await client.getOracleRequests(filters, signal);
     },
     staleTime: 1 * 60 * 1000, // 1 minute
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
 
+/**
+ * Get oracle requests page by page for infinite scrolling
+ * GET /api/oracle/requests
+ *
+ * Shares the `heavymathKeys.oracle.lists()` key prefix with useOracleRequests,
+ * so invalidating oracle request queries refreshes the loaded pages too.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteOracleRequests(client, { timedOut: false });
+ * ```
+ */
+export function useInfiniteOracleRequests(
+  ...args: WithClient<[filters?: OracleFilters, options?: InfiniteListOptions<OracleRequestData>]>
+): InfiniteListResult<OracleRequestData> {
+  const [client, filters, options] = useClientArgs(args);
+  return useInfiniteList(
+    heavymathKeys.oracle.infinite(filters),
+    filters,
+    (limit, offset, signal) => client.getOracleRequests({ ...filters, limit, offset }, signal),
+    { staleTime: 1 * 60 * 1000 }, // 1 minute
+    options
+  );
+}
+
 /**
  * Get a specific oracle request by ID
  * GET /api/oracle/requests/:id
@@ -59,19 +94,25 @@ export function useOracleRequests(
  * ```
  */
 export function useOracleRequest(
-  client: IndexerClient,
-  requestId: string | undefined,
-  options?: Omit<UseQueryOptions<ApiResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      requestId: string | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<ApiResponse<OracleRequestData>> {
+  const [client, requestId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'oracle-request', requestId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.oracle.detail(requestId),
+    queryFn: async ({ signal }) => {
       if (!requestId) throw new Error('Request ID is required');
-      return await client.getOracleRequest(requestId);
+      return await client.getOracleRequest(requestId, signal);
     },
     enabled: !!requestId,
     staleTime: 2 * 60 * 1000,
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -86,10 +127,14 @@ export function useOracleRequest(
  * ```
  */
 export function useMarketOracle(
-  client: IndexerClient,
-  marketId: string | undefined,
-  options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      marketId: string | undefined,
+      options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<OracleRequestData>> {
+  const [client, marketId, options] = useClientArgs(args);
   return useOracleRequests(
     client,
     {
@@ -112,9 +157,11 @@ export function useMarketOracle(
  * ```
  */
 export function useTimedOutOracleRequests(
-  client: IndexerClient,
-  options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>]
+  >
 ): UseQueryResult<PaginatedResponse<OracleRequestData>> {
+  const [client, options] = useClientArgs(args);
   return useOracleRequests(
     client,
     {
@@ -134,9 +181,11 @@ export function useTimedOutOracleRequests(
  * ```
  */
 export function usePendingOracleRequests(
-  client: IndexerClient,
-  options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<PaginatedResponse<OracleRequestData>>, 'queryKey' | 'queryFn'>]
+  >
 ): UseQueryResult<PaginatedResponse<OracleRequestData>> {
+  const [client, options] = useClientArgs(args);
   return useOracleRequests(
     client,
     {
@@ -165,19 +214,20 @@ export function usePendingOracleRequests(
  * ```
  */
 export function useCheckMarketResolution(
-  client: IndexerClient | null,
-  marketId: string | undefined,
-  options?: { enabled?: boolean }
+  ...args: WithNullableClient<[marketId: string | undefined, options?: { enabled?: boolean }]>
 ): UseQueryResult<MarketResolutionCheck> {
+  const [client, marketId, options] = useNullableClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'market-resolution-check', marketId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.oracle.resolutionCheck(marketId),
+    queryFn: async ({ signal }) => {
       if (!client || !marketId) throw new Error('Client and marketId are required');
-      return await client.checkMarketResolution(marketId);
+      return await client.checkMarketResolution(marketId, signal);
     },
     enabled: !!client && !!marketId && options?.enabled !== false,
     staleTime: 30 * 1000, // 30s - game status can change
     retry: false,
+    ...queryDefaults,
   });
 }
 
@@ -192,19 +242,25 @@ export function useCheckMarketResolution(
  * ```
  */
 export function useMarketOracleConfig(
-  client: IndexerClient | null,
-  marketId: string | undefined,
-  options?: Omit<UseQueryOptions<ApiResponse<MarketOracleConfigData>>, 'queryKey' | 'queryFn'>
+  ...args: WithNullableClient<
+    [
+      marketId: string | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<MarketOracleConfigData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<ApiResponse<MarketOracleConfigData>> {
+  const [client, marketId, options] = useNullableClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'market-oracle-config', marketId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.oracle.config(marketId),
+    queryFn: async ({ signal }) => {
       if (!client || !marketId) throw new Error('Client and marketId are required');
-      return await client.getMarketOracleConfig(marketId);
+      return await client.getMarketOracleConfig(marketId, signal);
     },
     enabled: !!client && !!marketId && (options?.enabled ?? true),
     staleTime: 5 * 60 * 1000, // 5 minutes - config rarely changes
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -216,8 +272,9 @@ export function useMarketOracleConfig(
  * Gas is paid by the resolver wallet, not the user.
  */
 export function useTriggerLock(
-  client: IndexerClient | null
+  ...args: WithNullableClient<[]>
 ): UseMutationResult<ApiResponse<TriggerLockResponseData>, Error, string> {
+  const [client] = useNullableClientArgs(args);
   return useMutation({
     mutationFn: async (marketId: string) => {
       if (!client) throw new Error('Client is required');
@@ -234,8 +291,9 @@ export function useTriggerLock(
  * Gas is paid by the resolver wallet, not the user.
  */
 export function useTriggerResolve(
-  client: IndexerClient | null
+  ...args: WithNullableClient<[]>
 ): UseMutationResult<ApiResponse<TriggerResolveResponseData>, Error, string> {
+  const [client] = useNullableClientArgs(args);
   return useMutation({
     mutationFn: async (marketId: string) => {
       if (!client) throw new Error('Client is required');
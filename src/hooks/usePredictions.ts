@@ -5,7 +5,11 @@
 
 import { useQuery, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
 import type { PredictionData, PaginatedResponse, ApiResponse, PredictionFilters } from '../types';
-import { IndexerClient } from '../network/IndexerClient';
+import { useInfiniteList } from './infinite';
+import type { InfiniteListOptions, InfiniteListResult } from './infinite';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 /**
  * Get predictions with optional filtering
@@ -20,21 +24,52 @@ import { IndexerClient } from '../network/IndexerClient';
  * ```
  */
 export function usePredictions(
-  client: IndexerClient,
-  filters?: PredictionFilters,
-  options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      filters?: PredictionFilters,
+      options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<PredictionData>> {
+  const [client, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'predictions', filters],
-    queryFn: async () => {
-      return await client.getPredictions(filters);
+    queryKey: heavymathKeys.predictions.list(filters),
+    queryFn: async ({ signal }) => {
+      return await client.getPredictions(filters, signal);
     },
     staleTime: 1 * 60 * 1000, // 1 minute
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
 
+/**
+ * Get predictions page by page for infinite scrolling
+ * GET /api/predictions
+ *
+ * Shares the `heavymathKeys.predictions.lists()` key prefix with usePredictions,
+ * so SSE invalidation refreshes the loaded pages.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfinitePredictions(client, { user: '0x123...' });
+ * ```
+ */
+export function useInfinitePredictions(
+  ...args: WithClient<[filters?: PredictionFilters, options?: InfiniteListOptions<PredictionData>]>
+): InfiniteListResult<PredictionData> {
+  const [client, filters, options] = useClientArgs(args);
+  return useInfiniteList(
+    heavymathKeys.predictions.infinite(filters),
+    filters,
+    (limit, offset, signal) => client.getPredictions({ ...filters, limit, offset }, signal),
+    { staleTime: 1 * 60 * 1000 }, // 1 minute
+    options
+  );
+}
+
 /**
  * Get user's predictions
  * Convenience hook for user's betting history
@@ -45,11 +80,15 @@ export function usePredictions(
  * ```
  */
 export function useUserPredictions(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  filters?: Omit<PredictionFilters, 'user'>,
-  options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      filters?: Omit<PredictionFilters, 'user'>,
+      options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<PredictionData>> {
+  const [client, walletAddress, filters, options] = useClientArgs(args);
   return usePredictions(
     client,
     {
@@ -72,10 +111,14 @@ export function useUserPredictions(
  * ```
  */
 export function useActiveBets(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<PredictionData>> {
+  const [client, walletAddress, options] = useClientArgs(args);
   return useUserPredictions(
     client,
     walletAddress,
@@ -96,10 +139,14 @@ export function useActiveBets(
  * ```
  */
 export function usePastBets(
-  client: IndexerClient,
-  walletAddress: string | undefined,
-  options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      options?: Omit<UseQueryOptions<PaginatedResponse<PredictionData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<PredictionData>> {
+  const [client, walletAddress, options] = useClientArgs(args);
   return useUserPredictions(
     client,
     walletAddress,
@@ -121,19 +168,25 @@ export function usePastBets(
  * ```
  */
 export function usePrediction(
-  client: IndexerClient,
-  predictionId: string | undefined,
-  options?: Omit<UseQueryOptions<ApiResponse<PredictionData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      predictionId: string | undefined,
+      options?: Omit<UseQueryOptions<ApiResponse<PredictionData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<ApiResponse<PredictionData>> {
+  const [client, predictionId, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'prediction', predictionId],
-    queryFn: async () => {
+    queryKey: heavymathKeys.predictions.detail(predictionId),
+    queryFn: async ({ signal }) => {
       if (!predictionId) throw new Error('Prediction ID is required');
-      return await client.getPrediction(predictionId);
+      return await client.getPrediction(predictionId, signal);
     },
     enabled: !!predictionId,
     staleTime: 2 * 60 * 1000,
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -147,15 +200,13 @@ export function usePrediction(
  * const { active, claimed, isLoading } = useUserBettingHistory(client, '0x123...');
  * ```
  */
-export function useUserBettingHistory(
-  client: IndexerClient,
-  walletAddress: string | undefined
-): {
+export function useUserBettingHistory(...args: WithClient<[walletAddress: string | undefined]>): {
   active: UseQueryResult<PaginatedResponse<PredictionData>>;
   claimed: UseQueryResult<PaginatedResponse<PredictionData>>;
   isLoading: boolean;
   isError: boolean;
 } {
+  const [client, walletAddress] = useClientArgs(args);
   const active = useActiveBets(client, walletAddress);
   const claimed = usePastBets(client, walletAddress);
 
@@ -1,55 +1,98 @@
 /**
  * React hooks for Server-Sent Events (SSE) subscriptions
  * Provides real-time updates from the Heavymath Indexer
+ * Connection handling lives in IndexerEventStream; these hooks mirror its state into React.
+ * Inside an SSEProvider, hooks with the same channel and filters share one connection.
+ * Inside an IndexerProvider with `sseEndpointUrl`, the endpoint URL argument can be left out.
+ * During server-side rendering the hooks stay disconnected and never touch EventSource.
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
+import { SSEConnectionManager } from '../network/SSEConnectionManager';
+import type { SSESubscriptionHandle } from '../network/SSEConnectionManager';
+import type { EventSourceFactory } from '../network/IndexerEventStream';
+import { useSSEConnectionManager } from './SSEProvider';
+import { useSSEEndpointUrl } from './IndexerProvider';
+import { heavymathKeys } from './query-keys';
+import {
+  flushEventReconcile,
+  invalidateEventQueries,
+  scheduleEventReconcile,
+} from './sse-invalidation';
+import { patchEventQueries } from './sse-cache-patch';
 import type {
   SubscriptionChannel,
   SSEFilters,
-  SSEMessage,
-  SSEDataUpdateMessage,
   SSEConnectionState,
+  SSEEventMessage,
   SSEEventType,
+  SSEReplayUnavailableMessage,
 } from '../types';
 
+/** Number of events kept in `events` when `maxEvents` is not set */
+const DEFAULT_MAX_EVENTS = 100;
+
+/** Delay in ms before patched caches are refetched when `reconcileDelay` is not set */
+const DEFAULT_RECONCILE_DELAY = 2000;
+
 /**
  * Options for SSE subscription
+ * `E` is inferred from `eventTypes` and narrows the type of delivered events.
  */
-export interface UseSSEOptions {
+export interface UseSSEOptions<E extends SSEEventType = SSEEventType> {
   /** Subscription channel */
   channel?: SubscriptionChannel;
   /** Subscription filters */
   filters?: SSEFilters;
   /** Whether to automatically reconnect on disconnect */
   autoReconnect?: boolean;
-  /** Reconnection delay in ms (default: 3000) */
+  /** Base reconnection delay in ms; doubled on every attempt (default: 3000) */
   reconnectDelay?: number;
+  /** Upper bound in ms for a single reconnection delay (default: 30000) */
+  maxReconnectDelay?: number;
   /** Maximum reconnection attempts (default: 5) */
   maxReconnectAttempts?: number;
+  /** Reconnect when no message arrives for this many ms; 0 disables (default: 60000) */
+  heartbeatTimeout?: number;
+  /** Only deliver these event types to `events`, `lastEvent` and `onEvent` (default: all) */
+  eventTypes?: readonly E[];
+  /** Maximum number of events kept in `events`; the oldest are dropped first (default: 100) */
+  maxEvents?: number;
   /** Callback for incoming events */
-  onEvent?: (event: SSEDataUpdateMessage) => void;
+  onEvent?: (event: SSEEventMessage<E>) => void;
   /** Callback for connection state changes */
   onStateChange?: (state: SSEConnectionState) => void;
   /** Callback for errors */
   onError?: (error: Error) => void;
+  /** Callback when events missed during a reconnect cannot be replayed; refetch affected data */
+  onGap?: (message: SSEReplayUnavailableMessage) => void;
   /** Whether to automatically invalidate React Query caches */
   invalidateQueries?: boolean;
+  /**
+   * Apply event payloads directly to cached data (new predictions, pool totals,
+   * market status) instead of refetching on every event. Affected queries are
+   * refetched once per `reconcileDelay` to reconcile with the indexer.
+   */
+  patchQueries?: boolean;
+  /** Delay in ms before patched queries are refetched; events in between share one refetch (default: 2000) */
+  reconcileDelay?: number;
   /** Whether the subscription is enabled */
   enabled?: boolean;
+  /** EventSource factory (default: the global EventSource); useful for tests */
+  createEventSource?: EventSourceFactory;
 }
 
 /**
  * Return type for useSSE hook
  */
-export interface UseSSEReturn {
+export interface UseSSEReturn<E extends SSEEventType = SSEEventType> {
   /** Current connection state */
   connectionState: SSEConnectionState;
   /** Last received event */
-  lastEvent: SSEDataUpdateMessage | null;
-  /** All received events */
-  events: SSEDataUpdateMessage[];
+  lastEvent: SSEEventMessage<E> | null;
+  /** The most recent events, oldest first (at most `maxEvents`) */
+  events: SSEEventMessage<E>[];
   /** Client ID assigned by server */
   clientId: string | null;
   /** Subscription ID */
@@ -94,172 +137,200 @@ export interface UseSSEReturn {
  *     invalidateQueries: true, // Auto-refresh React Query caches
  *   }
  * );
+ *
+ * // Show new bets on a busy market without refetching on every event
+ * useSSE('http://localhost:42069', {
+ *   channel: 'market',
+ *   filters: { marketId: '1-market-123' },
+ *   patchQueries: true,
+ * });
+ *
+ * // Keep the last 20 bets; event.data is typed as PredictionPlacedEventData
+ * const { events: bets } = useSSE('http://localhost:42069', {
+ *   channel: 'predictions',
+ *   eventTypes: ['PredictionPlaced'],
+ *   maxEvents: 20,
+ * });
+ *
+ * // Inside an IndexerProvider with sseEndpointUrl
+ * const { lastEvent } = useSSE({ channel: 'markets' });
  * ```
  */
-export function useSSE(endpointUrl: string, options: UseSSEOptions = {}): UseSSEReturn {
+export function useSSE<E extends SSEEventType = SSEEventType>(
+  ...args: WithOptionalEndpoint<UseSSEOptions<E>>
+): UseSSEReturn<E> {
+  const [ownEndpointUrl, options = {}] = optionsArgs(args);
+  const endpointUrl = useSSEEndpointUrl(ownEndpointUrl);
   const {
     channel = 'markets',
     filters = {},
     autoReconnect = true,
     reconnectDelay = 3000,
+    maxReconnectDelay,
     maxReconnectAttempts = 5,
+    heartbeatTimeout,
+    eventTypes,
+    maxEvents = DEFAULT_MAX_EVENTS,
     onEvent,
     onStateChange,
     onError,
+    onGap,
     invalidateQueries = false,
+    patchQueries = false,
+    reconcileDelay = DEFAULT_RECONCILE_DELAY,
     enabled = true,
+    createEventSource,
   } = options;
 
   const [connectionState, setConnectionState] = useState<SSEConnectionState>('disconnected');
-  const [lastEvent, setLastEvent] = useState<SSEDataUpdateMessage | null>(null);
-  const [events, setEvents] = useState<SSEDataUpdateMessage[]>([]);
+  const [lastEvent, setLastEvent] = useState<SSEEventMessage<E> | null>(null);
+  const [events, setEvents] = useState<SSEEventMessage<E>[]>([]);
   const [clientId, setClientId] = useState<string | null>(null);
   const [subscriptionId, setSubscriptionId] = useState<string | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
-  const eventSourceRef = useRef<EventSource | null>(null);
-  const reconnectAttemptsRef = useRef(0);
-  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const subscriptionRef = useRef<SSESubscriptionHandle | null>(null);
+  const [connectionKey, setConnectionKey] = useState(0);
+
+  // Callbacks are read through a ref so passing new closures does not reconnect
+  const callbacksRef = useRef({
+    onEvent,
+    onStateChange,
+    onError,
+    onGap,
+    invalidateQueries,
+    patchQueries,
+    reconcileDelay,
+  });
+  callbacksRef.current = {
+    onEvent,
+    onStateChange,
+    onError,
+    onGap,
+    invalidateQueries,
+    patchQueries,
+    reconcileDelay,
+  };
+  const bufferRef = useRef({ eventTypes, maxEvents });
+  bufferRef.current = { eventTypes, maxEvents };
 
   const queryClient = useQueryClient();
+  const sharedManager = useSSEConnectionManager();
+  const filtersKey = JSON.stringify(filters);
+
+  // Stop receiving events and report this hook as disconnected
+  const release = useCallback((subscription: SSESubscriptionHandle) => {
+    subscription.unsubscribe();
+    if (subscriptionRef.current === subscription) subscriptionRef.current = null;
+    setConnectionState('disconnected');
+    setClientId(null);
+    setSubscriptionId(null);
+    callbacksRef.current.onStateChange?.('disconnected');
+  }, []);
 
-  // Update connection state and notify callback
-  const updateConnectionState = useCallback(
-    (state: SSEConnectionState) => {
-      setConnectionState(state);
-      onStateChange?.(state);
-    },
-    [onStateChange]
-  );
-
-  // Handle incoming SSE message
-  const handleMessage = useCallback(
-    (messageEvent: MessageEvent) => {
-      try {
-        const message: SSEMessage = JSON.parse(messageEvent.data);
-
-        if (message.type === 'connected') {
-          setClientId(message.clientId);
-          setSubscriptionId(message.subscriptionId);
-          updateConnectionState('connected');
-          reconnectAttemptsRef.current = 0;
-        } else if (message.type === 'data_update') {
-          const dataMessage = message as SSEDataUpdateMessage;
-          setLastEvent(dataMessage);
-          setEvents(prev => [...prev, dataMessage]);
-          onEvent?.(dataMessage);
-
-          // Invalidate relevant React Query caches
-          if (invalidateQueries) {
-            invalidateQueryCaches(queryClient, dataMessage.eventType, dataMessage.data);
-          }
-        }
-        // Heartbeat messages are handled silently
-      } catch (err) {
-        console.error('[SSE] Failed to parse message:', err);
-      }
-    },
-    [onEvent, invalidateQueries, queryClient, updateConnectionState]
-  );
-
-  // Connect to SSE endpoint
-  const connect = useCallback(() => {
-    if (!enabled) return;
-
-    // Close existing connection
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
+  // (Re)connect whenever the subscription changes
+  useEffect(() => {
+    // Never open an EventSource on the server; the browser connects after hydration
+    if (!enabled || isServer()) {
+      setConnectionState('disconnected');
+      return;
     }
 
-    // Build URL with query params
-    const url = new URL(`${endpointUrl}/api/events`);
-    url.searchParams.set('channel', channel);
-    if (filters.marketId) url.searchParams.set('marketId', filters.marketId);
-    if (filters.dealer) url.searchParams.set('dealer', filters.dealer);
-    if (filters.user) url.searchParams.set('user', filters.user);
-    if (filters.category) url.searchParams.set('category', filters.category);
-
-    updateConnectionState('connecting');
-    setError(null);
-
-    try {
-      const eventSource = new EventSource(url.toString());
-      eventSourceRef.current = eventSource;
-
-      // Handle all message types
-      eventSource.onmessage = handleMessage;
-
-      // Handle specific event types
-      eventSource.addEventListener('connected', handleMessage);
-      eventSource.addEventListener('data_update', handleMessage);
-      eventSource.addEventListener('heartbeat', () => {
-        // Heartbeat received - connection is alive
-      });
-      eventSource.addEventListener('subscription_confirmed', handleMessage);
-
-      eventSource.onerror = () => {
-        updateConnectionState('error');
-        const err = new Error('SSE connection error');
+    // Share the provider's connections when it serves this endpoint
+    const manager =
+      sharedManager && sharedManager.endpointUrl === endpointUrl
+        ? sharedManager
+        : new SSEConnectionManager(endpointUrl, {
+            autoReconnect,
+            reconnectDelay,
+            maxReconnectDelay,
+            maxReconnectAttempts,
+            heartbeatTimeout,
+            createEventSource,
+          });
+
+    let subscription: SSESubscriptionHandle | null = null;
+    const syncState = (state: SSEConnectionState) => {
+      setConnectionState(state);
+      setClientId(subscription?.clientId ?? null);
+      setSubscriptionId(subscription?.subscriptionId ?? null);
+    };
+
+    subscription = manager.subscribe(channel, JSON.parse(filtersKey) as SSEFilters, {
+      onStateChange: state => {
+        syncState(state);
+        if (state === 'connecting') setError(null);
+        callbacksRef.current.onStateChange?.(state);
+      },
+      onError: err => {
         setError(err);
-        onError?.(err);
-
-        // Attempt reconnection
-        if (autoReconnect && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current++;
-          console.log(
-            `[SSE] Reconnecting (attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})...`
-          );
-
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, reconnectDelay);
-        } else if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-          console.error('[SSE] Max reconnection attempts reached');
-          updateConnectionState('disconnected');
+        callbacksRef.current.onError?.(err);
+      },
+      onGap: message => {
+        callbacksRef.current.onGap?.(message);
+
+        // Any cached query may have missed updates
+        if (callbacksRef.current.invalidateQueries || callbacksRef.current.patchQueries) {
+          flushEventReconcile(queryClient, true); // covered by the full invalidation below
+          queryClient.invalidateQueries({ queryKey: heavymathKeys.all() });
         }
-      };
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error('Failed to connect to SSE');
-      setError(error);
-      onError?.(error);
-      updateConnectionState('error');
-    }
+      },
+      onEvent: message => {
+        // Patch or invalidate relevant React Query caches
+        const { patchQueries: patch, reconcileDelay: delay } = callbacksRef.current;
+        if (patch) {
+          patchEventQueries(queryClient, message);
+          scheduleEventReconcile(queryClient, message, delay);
+        } else if (callbacksRef.current.invalidateQueries) {
+          invalidateEventQueries(queryClient, message.eventType, message.data);
+        }
+
+        const { eventTypes: wanted, maxEvents: limit } = bufferRef.current;
+        if (wanted && !(wanted as readonly SSEEventType[]).includes(message.eventType)) return;
+        const event = message as SSEEventMessage<E>;
+
+        setLastEvent(event);
+        setEvents(prev => appendBounded(prev, event, limit));
+        callbacksRef.current.onEvent?.(event);
+      },
+    });
+    subscriptionRef.current = subscription;
+
+    // A shared connection may already be open
+    syncState(subscription.state);
+
+    const current = subscription;
+    return () => release(current);
   }, [
     enabled,
     endpointUrl,
     channel,
-    filters,
-    handleMessage,
+    filtersKey,
     autoReconnect,
-    maxReconnectAttempts,
     reconnectDelay,
-    updateConnectionState,
-    onError,
+    maxReconnectDelay,
+    maxReconnectAttempts,
+    heartbeatTimeout,
+    createEventSource,
+    queryClient,
+    sharedManager,
+    connectionKey,
+    release,
   ]);
 
   // Disconnect from SSE endpoint
   const disconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-      eventSourceRef.current = null;
-    }
-
-    setClientId(null);
-    setSubscriptionId(null);
-    updateConnectionState('disconnected');
-  }, [updateConnectionState]);
+    if (subscriptionRef.current) release(subscriptionRef.current);
+  }, [release]);
 
   // Reconnect
   const reconnect = useCallback(() => {
-    reconnectAttemptsRef.current = 0;
-    disconnect();
-    connect();
-  }, [disconnect, connect]);
+    if (subscriptionRef.current) {
+      subscriptionRef.current.reconnect();
+    } else {
+      setConnectionKey(key => key + 1);
+    }
+  }, []);
 
   // Clear events history
   const clearEvents = useCallback(() => {
@@ -267,26 +338,6 @@ export function useSSE(endpointUrl: string, options: UseSSEOptions = {}): UseSSE
     setLastEvent(null);
   }, []);
 
-  // Effect to connect/disconnect based on enabled state
-  useEffect(() => {
-    if (enabled) {
-      connect();
-    } else {
-      disconnect();
-    }
-
-    return () => {
-      disconnect();
-    };
-  }, [enabled, connect, disconnect]);
-
-  // Effect to reconnect when filters change
-  useEffect(() => {
-    if (enabled && connectionState === 'connected') {
-      reconnect();
-    }
-  }, [channel, JSON.stringify(filters), enabled, connectionState, reconnect]);
-
   return {
     connectionState,
     lastEvent,
@@ -310,14 +361,18 @@ export function useSSE(endpointUrl: string, options: UseSSEOptions = {}): UseSSE
  *   'http://localhost:42069',
  *   '1-market-123'
  * );
+ *
+ * // Inside an IndexerProvider with sseEndpointUrl
+ * const { lastEvent } = useMarketUpdates('1-market-123');
  * ```
  */
 export function useMarketUpdates(
-  endpointUrl: string,
-  marketId: string | undefined,
-  options: Omit<UseSSEOptions, 'channel' | 'filters'> = {}
+  ...args: WithEndpoint<
+    [marketId: string | undefined, options?: Omit<UseSSEOptions, 'channel' | 'filters'>]
+  >
 ): UseSSEReturn {
-  return useSSE(endpointUrl, {
+  const [endpointUrl, marketId, options = {}] = endpointArgs(args);
+  return useSSE(useSSEEndpointUrl(endpointUrl), {
     ...options,
     channel: 'market',
     filters: { marketId },
@@ -331,13 +386,16 @@ export function useMarketUpdates(
  * @example
  * ```tsx
  * const { events, connectionState } = useAllMarketUpdates('http://localhost:42069');
+ *
+ * // Inside an IndexerProvider with sseEndpointUrl
+ * const { events } = useAllMarketUpdates();
  * ```
  */
 export function useAllMarketUpdates(
-  endpointUrl: string,
-  options: Omit<UseSSEOptions, 'channel'> = {}
+  ...args: WithOptionalEndpoint<Omit<UseSSEOptions, 'channel'>>
 ): UseSSEReturn {
-  return useSSE(endpointUrl, {
+  const [endpointUrl, options = {}] = optionsArgs(args);
+  return useSSE(useSSEEndpointUrl(endpointUrl), {
     ...options,
     channel: 'markets',
   });
@@ -352,14 +410,18 @@ export function useAllMarketUpdates(
  *   'http://localhost:42069',
  *   '0x123...'
  * );
+ *
+ * // Inside an IndexerProvider with sseEndpointUrl
+ * const { lastEvent } = useUserPredictionUpdates('0x123...');
  * ```
  */
 export function useUserPredictionUpdates(
-  endpointUrl: string,
-  userAddress: string | undefined,
-  options: Omit<UseSSEOptions, 'channel' | 'filters'> = {}
+  ...args: WithEndpoint<
+    [userAddress: string | undefined, options?: Omit<UseSSEOptions, 'channel' | 'filters'>]
+  >
 ): UseSSEReturn {
-  return useSSE(endpointUrl, {
+  const [endpointUrl, userAddress, options = {}] = endpointArgs(args);
+  return useSSE(useSSEEndpointUrl(endpointUrl), {
     ...options,
     channel: 'predictions',
     filters: { user: userAddress },
@@ -368,59 +430,51 @@ export function useUserPredictionUpdates(
 }
 
 /**
- * Invalidate React Query caches based on event type
+ * Whether the code runs on a server (no `window`), e.g. during server-side rendering
+ */
+function isServer(): boolean {
+  return typeof window === 'undefined';
+}
+
+/**
+ * Arguments of an SSE hook taking only options, with the endpoint URL optional
+ */
+type WithOptionalEndpoint<O extends object> =
+  [endpointUrl: string | undefined, options?: O] | [options?: O];
+
+/**
+ * Split `[endpointUrl, options]` / `[options]` arguments.
+ * The first argument is the options only when it is an object, so an `undefined`
+ * endpoint URL followed by options keeps the options.
+ */
+function optionsArgs<O extends object>(args: WithOptionalEndpoint<O>): [string | undefined, O?] {
+  return typeof args[0] === 'object' && args[0] !== null
+    ? [undefined, args[0]]
+    : (args as [string | undefined, O?]);
+}
+
+/**
+ * Arguments of an SSE hook whose first regular argument is an id, with the endpoint URL optional
+ */
+type WithEndpoint<A extends [string | undefined, object?]> = [endpointUrl: string, ...args: A] | A;
+
+/**
+ * Split `[endpointUrl, id, options]` / `[id, options]` arguments.
+ * The second argument is an id (never an object) only when the endpoint URL was passed.
+ */
+function endpointArgs<A extends [string | undefined, object?]>(
+  args: WithEndpoint<A>
+): [string | undefined, ...A] {
+  return args.length >= 2 && typeof args[1] !== 'object'
+    ? (args as [string, ...A])
+    : [undefined, ...(args as A)];
+}
+
+/**
+ * Append an item, dropping the oldest items beyond `limit`.
  */
-function invalidateQueryCaches(
-  queryClient: ReturnType<typeof useQueryClient>,
-  eventType: SSEEventType,
-  data: unknown
-): void {
-  const eventData = data as Record<string, unknown>;
-
-  switch (eventType) {
-    case 'MarketCreated':
-    case 'MarketResolved':
-    case 'MarketCancelled':
-    case 'MarketAbandoned':
-    case 'DealerFeeSet':
-      // Invalidate markets list and specific market
-      queryClient.invalidateQueries({ queryKey: ['heavymath', 'markets'] });
-      if (eventData.marketId) {
-        queryClient.invalidateQueries({
-          queryKey: ['heavymath', 'market', eventData.marketId],
-        });
-      }
-      break;
-
-    case 'PredictionPlaced':
-    case 'PredictionUpdated':
-    case 'WinningsClaimed':
-    case 'RefundClaimed':
-      // Invalidate predictions
-      queryClient.invalidateQueries({ queryKey: ['heavymath', 'predictions'] });
-      if (eventData.marketId) {
-        queryClient.invalidateQueries({
-          queryKey: ['heavymath', 'market-predictions', eventData.marketId],
-        });
-      }
-      break;
-
-    case 'LicenseIssued':
-    case 'LicenseTransferred':
-    case 'PermissionsSet':
-      // Invalidate dealers
-      queryClient.invalidateQueries({ queryKey: ['heavymath', 'dealers'] });
-      break;
-
-    case 'OracleRegistered':
-    case 'OracleDataUpdated':
-      // Invalidate oracle requests
-      queryClient.invalidateQueries({ queryKey: ['heavymath', 'oracle'] });
-      break;
-
-    case 'DealerFeesWithdrawn':
-      // Invalidate withdrawals
-      queryClient.invalidateQueries({ queryKey: ['heavymath', 'withdrawals'] });
-      break;
-  }
+function appendBounded<T>(items: T[], item: T, limit: number): T[] {
+  if (limit <= 0) return [];
+  const kept = items.length >= limit ? items.slice(items.length - limit + 1) : items;
+  return [...kept, item];
 }
@@ -4,8 +4,19 @@
  */
 
 import { useQuery, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
-import type { MarketStatsData, HealthData, ApiResponse } from '../types';
-import { IndexerClient } from '../network/IndexerClient';
+import type {
+  MarketStatsData,
+  CategoryCountData,
+  HealthData,
+  ApiInfoData,
+  ServiceHealthData,
+  SportsHealthData,
+  SSEStatsData,
+  ApiResponse,
+} from '../types';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 /**
  * Get market statistics
@@ -20,16 +31,49 @@ import { IndexerClient } from '../network/IndexerClient';
  * ```
  */
 export function useMarketStats(
-  client: IndexerClient,
-  options?: Omit<UseQueryOptions<ApiResponse<MarketStatsData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<ApiResponse<MarketStatsData>>, 'queryKey' | 'queryFn'>]
+  >
 ): UseQueryResult<ApiResponse<MarketStatsData>> {
+  const [client, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'market-stats'],
-    queryFn: async () => {
-      return await client.getMarketStats();
+    queryKey: heavymathKeys.markets.stats(),
+    queryFn: async ({ signal }) => {
+      return await client.getMarketStats(signal);
     },
     staleTime: 5 * 60 * 1000, // 5 minutes - stats don't change frequently
     retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Get the number of markets in each category
+ * GET /api/stats/categories
+ *
+ * @example
+ * ```tsx
+ * const { data } = useCategoryCounts(client);
+ * const categories = data?.data ?? [];
+ * ```
+ */
+export function useCategoryCounts(
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<ApiResponse<CategoryCountData[]>>, 'queryKey' | 'queryFn'>]
+  >
+): UseQueryResult<ApiResponse<CategoryCountData[]>> {
+  const [client, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.markets.categoryCounts(),
+    queryFn: async ({ signal }) => {
+      return await client.getCategoryCounts(signal);
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes - categories change only with new markets
+    retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
@@ -47,16 +91,282 @@ export function useMarketStats(
  * ```
  */
 export function useHealth(
-  client: IndexerClient,
-  options?: Omit<UseQueryOptions<ApiResponse<HealthData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<ApiResponse<HealthData>>, 'queryKey' | 'queryFn'>]
+  >
 ): UseQueryResult<ApiResponse<HealthData>> {
+  const [client, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.health(),
+    queryFn: async ({ signal }) => {
+      return await client.getHealth(signal);
+    },
+    staleTime: 1 * 60 * 1000, // 1 minute
+    retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Get the indexer's API information (name, version, available endpoints)
+ * GET /api
+ *
+ * @example
+ * ```tsx
+ * const { data } = useApiInfo(client);
+ * ```
+ */
+export function useApiInfo(
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<ApiResponse<ApiInfoData>>, 'queryKey' | 'queryFn'>]
+  >
+): UseQueryResult<ApiResponse<ApiInfoData>> {
+  const [client, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.status.apiInfo(),
+    queryFn: async ({ signal }) => {
+      return await client.getApiInfo(signal);
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes - only changes on deploy
+    retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Get the health of each service behind the indexer
+ * GET /api/health/services
+ *
+ * @example
+ * ```tsx
+ * const { data } = useServiceHealth(client);
+ * ```
+ */
+export function useServiceHealth(
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<ApiResponse<ServiceHealthData>>, 'queryKey' | 'queryFn'>]
+  >
+): UseQueryResult<ApiResponse<ServiceHealthData>> {
+  const [client, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.status.services(),
+    queryFn: async ({ signal }) => {
+      return await client.getServiceHealth(signal);
+    },
+    staleTime: 1 * 60 * 1000, // 1 minute
+    retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Get the health of the sports API proxy
+ * GET /api/sports/health
+ *
+ * @example
+ * ```tsx
+ * const { data } = useSportsHealth(client);
+ * ```
+ */
+export function useSportsHealth(
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<ApiResponse<SportsHealthData>>, 'queryKey' | 'queryFn'>]
+  >
+): UseQueryResult<ApiResponse<SportsHealthData>> {
+  const [client, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'health'],
-    queryFn: async () => {
-      return await client.getHealth();
+    queryKey: heavymathKeys.status.sports(),
+    queryFn: async ({ signal }) => {
+      return await client.getSportsHealth(signal);
     },
     staleTime: 1 * 60 * 1000, // 1 minute
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
+
+/**
+ * Get statistics of the SSE event stream
+ * GET /api/events/stats
+ *
+ * @example
+ * ```tsx
+ * const { data } = useSSEStats(client);
+ * ```
+ */
+export function useSSEStats(
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<ApiResponse<SSEStatsData>>, 'queryKey' | 'queryFn'>]
+  >
+): UseQueryResult<ApiResponse<SSEStatsData>> {
+  const [client, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.status.sse(),
+    queryFn: async ({ signal }) => {
+      return await client.getSSEStats(signal);
+    },
+    staleTime: 1 * 60 * 1000, // 1 minute
+    retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Overall indexer status: `down` when the indexer itself does not answer,
+ * `degraded` when it answers but a subsystem is failing.
+ */
+export type IndexerStatus = 'ok' | 'degraded' | 'down';
+
+/**
+ * Subsystems checked by {@link useIndexerStatus}
+ */
+export type IndexerSubsystem = 'health' | 'info' | 'services' | 'sports' | 'sse';
+
+/**
+ * Status of one subsystem
+ */
+export interface IndexerSubsystemStatus {
+  status: IndexerStatus;
+  /** Why the subsystem is not ok, or null when it is */
+  reason: string | null;
+  /** Whether the first check is still in flight (status is 'ok' until it settles) */
+  isLoading: boolean;
+}
+
+/**
+ * Options for {@link useIndexerStatus}, applied to every underlying query.
+ * The checks never retry and are always stale, overriding provider `queryDefaults`.
+ */
+export interface UseIndexerStatusOptions {
+  /** Set to false to stop checking */
+  enabled?: boolean;
+  /** Poll interval in ms, or false to disable polling (default: 30s) */
+  refetchInterval?: number | false;
+}
+
+/**
+ * Return type of {@link useIndexerStatus}
+ */
+export interface UseIndexerStatusReturn {
+  status: IndexerStatus;
+  subsystems: Record<IndexerSubsystem, IndexerSubsystemStatus>;
+  /** Reasons of every subsystem that is not ok, for display */
+  reasons: string[];
+  apiInfo: ApiInfoData | undefined;
+  isLoading: boolean;
+  /** Refetch every check */
+  refetch: () => void;
+}
+
+const SUBSYSTEM_LABELS: Record<IndexerSubsystem, string> = {
+  health: 'Indexer API',
+  info: 'API info',
+  services: 'Services',
+  sports: 'Sports proxy',
+  sse: 'Event stream',
+};
+
+const OK_STATUSES = ['ok', 'healthy', 'up', 'pass'];
+const DEGRADED_STATUSES = ['degraded', 'warn', 'warning'];
+
+/**
+ * Map a query to a subsystem status. A failed request or an unsuccessful
+ * response is `down`; otherwise the `status` field the server reports (if any)
+ * decides, and an unrecognized value counts as `degraded`.
+ */
+function subsystemStatus(
+  subsystem: IndexerSubsystem,
+  query: UseQueryResult<ApiResponse<unknown>>
+): IndexerSubsystemStatus {
+  const label = SUBSYSTEM_LABELS[subsystem];
+  const isLoading = query.isLoading;
+
+  if (query.isError) {
+    return { status: 'down', reason: `${label} unreachable: ${query.error.message}`, isLoading };
+  }
+  if (!query.data) {
+    return { status: 'ok', reason: null, isLoading };
+  }
+  if (!query.data.success) {
+    return {
+      status: 'down',
+      reason: `${label} failed: ${query.data.error ?? 'unsuccessful response'}`,
+      isLoading,
+    };
+  }
+
+  const reported = (query.data.data as { status?: unknown } | null | undefined)?.status;
+  if (typeof reported !== 'string' || OK_STATUSES.includes(reported.toLowerCase())) {
+    return { status: 'ok', reason: null, isLoading };
+  }
+  const status = DEGRADED_STATUSES.includes(reported.toLowerCase()) ? 'degraded' : 'down';
+  return { status, reason: `${label} reports status "${reported}"`, isLoading };
+}
+
+/**
+ * Combine health, API info, service health, sports health and SSE stats into
+ * a single status for a status banner. The indexer is `down` only when
+ * /api/health fails; any other failing subsystem makes it `degraded`.
+ *
+ * @example
+ * ```tsx
+ * const { status, reasons } = useIndexerStatus(client);
+ * if (status !== 'ok') {
+ *   return <Banner level={status}>{reasons.join(', ')}</Banner>;
+ * }
+ * ```
+ */
+export function useIndexerStatus(
+  ...args: WithClient<[options?: UseIndexerStatusOptions]>
+): UseIndexerStatusReturn {
+  const [client, { enabled = true, refetchInterval = 30 * 1000 } = {}] = useClientArgs(args);
+  // Provider defaults must not slow the checks down: failures show at once, data is never fresh
+  const queryOptions = { enabled, refetchInterval, staleTime: 0, retry: false };
+
+  const health = useHealth(client, queryOptions);
+  const info = useApiInfo(client, queryOptions);
+  const services = useServiceHealth(client, queryOptions);
+  const sports = useSportsHealth(client, queryOptions);
+  const sse = useSSEStats(client, queryOptions);
+
+  const subsystems: Record<IndexerSubsystem, IndexerSubsystemStatus> = {
+    health: subsystemStatus('health', health),
+    info: subsystemStatus('info', info),
+    services: subsystemStatus('services', services),
+    sports: subsystemStatus('sports', sports),
+    sse: subsystemStatus('sse', sse),
+  };
+  const all = Object.values(subsystems);
+
+  let status: IndexerStatus = 'ok';
+  if (subsystems.health.status === 'down') {
+    status = 'down';
+  } else if (all.some(subsystem => subsystem.status !== 'ok')) {
+    status = 'degraded';
+  }
+
+  return {
+    status,
+    subsystems,
+    reasons: all.flatMap(subsystem => (subsystem.reason ? [subsystem.reason] : [])),
+    apiInfo: info.data?.data ?? undefined,
+    isLoading: all.some(subsystem => subsystem.isLoading),
+    refetch: () => {
+      void health.refetch();
+      void info.refetch();
+      void services.refetch();
+      void sports.refetch();
+      void sse.refetch();
+    },
+  };
+}
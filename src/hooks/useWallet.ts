@@ -0,0 +1,92 @@
+/**
+ * React hooks for wallet balance operations
+ * Uses React Query for caching and data fetching
+ */
+
+import { useQuery, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  WalletBalanceSummaryData,
+  WalletHistoryFilters,
+  WalletHistoryItemData,
+} from '../types';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
+
+/**
+ * Get the balance summary of a wallet
+ * GET /api/wallet/:address/balance
+ *
+ * Refetched when SSE prediction and claim events for the wallet arrive
+ * (with `invalidateQueries`), and on market resolution.
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useWalletBalance(client, '0x123...');
+ * ```
+ */
+export function useWalletBalance(
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      options?: Omit<
+        UseQueryOptions<ApiResponse<WalletBalanceSummaryData>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
+): UseQueryResult<ApiResponse<WalletBalanceSummaryData>> {
+  const [client, walletAddress, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.wallet.balance(walletAddress),
+    queryFn: async ({ signal }) => {
+      if (!walletAddress) throw new Error('Wallet address is required');
+      return await client.getWalletBalance(walletAddress, signal);
+    },
+    enabled: !!walletAddress,
+    staleTime: 30 * 1000, // 30s - changes with every bet and claim
+    retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
+
+/**
+ * Get the balance history of a wallet, newest first
+ * GET /api/wallet/:address/history
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useWalletHistory(client, '0x123...', { limit: 20 });
+ * ```
+ */
+export function useWalletHistory(
+  ...args: WithClient<
+    [
+      walletAddress: string | undefined,
+      filters?: WalletHistoryFilters,
+      options?: Omit<
+        UseQueryOptions<PaginatedResponse<WalletHistoryItemData>>,
+        'queryKey' | 'queryFn'
+      >,
+    ]
+  >
+): UseQueryResult<PaginatedResponse<WalletHistoryItemData>> {
+  const [client, walletAddress, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
+  return useQuery({
+    queryKey: heavymathKeys.wallet.history(walletAddress, filters),
+    queryFn: async ({ signal }) => {
+      if (!walletAddress) throw new Error('Wallet address is required');
+      return await client.getWalletHistory(walletAddress, filters, signal);
+    },
+    enabled: !!walletAddress,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    retry: false,
+    ...queryDefaults,
+    ...options,
+  });
+}
@@ -5,7 +5,11 @@
 
 import { useQuery, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
 import type { FeeWithdrawalData, PaginatedResponse, WithdrawalFilters } from '../types';
-import { IndexerClient } from '../network/IndexerClient';
+import { useInfiniteList } from './infinite';
+import type { InfiniteListOptions, InfiniteListResult } from './infinite';
+import { heavymathKeys } from './query-keys';
+import { useClientArgs, useIndexerQueryDefaults } from './IndexerProvider';
+import type { WithClient } from './IndexerProvider';
 
 /**
  * Get fee withdrawals with optional filtering
@@ -20,21 +24,54 @@ import { IndexerClient } from '../network/IndexerClient';
  * ```
  */
 export function useWithdrawals(
-  client: IndexerClient,
-  filters?: WithdrawalFilters,
-  options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      filters?: WithdrawalFilters,
+      options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<FeeWithdrawalData>> {
+  const [client, filters, options] = useClientArgs(args);
+  const queryDefaults = useIndexerQueryDefaults();
   return useQuery({
-    queryKey: ['heavymath', 'withdrawals', filters],
-    queryFn: async () => {
-      return await client.getWithdrawals(filters);
+    queryKey: heavymathKeys.withdrawals.list(filters),
+    queryFn: async ({ signal }) => {
+      return await client.getWithdrawals(filters, signal);
     },
     staleTime: 2 * 60 * 1000, // 2 minutes
     retry: false,
+    ...queryDefaults,
     ...options,
   });
 }
 
+/**
+ * Get fee withdrawals page by page for infinite scrolling
+ * GET /api/withdrawals
+ *
+ * Shares the `heavymathKeys.withdrawals.lists()` key prefix with useWithdrawals,
+ * so SSE invalidation refreshes the loaded pages.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteWithdrawals(client, { type: 'dealer' });
+ * ```
+ */
+export function useInfiniteWithdrawals(
+  ...args: WithClient<
+    [filters?: WithdrawalFilters, options?: InfiniteListOptions<FeeWithdrawalData>]
+  >
+): InfiniteListResult<FeeWithdrawalData> {
+  const [client, filters, options] = useClientArgs(args);
+  return useInfiniteList(
+    heavymathKeys.withdrawals.infinite(filters),
+    filters,
+    (limit, offset, signal) => client.getWithdrawals({ ...filters, limit, offset }, signal),
+    { staleTime: 2 * 60 * 1000 }, // 2 minutes
+    options
+  );
+}
+
 /**
  * Get dealer withdrawals for a specific address
  * Convenience hook for dealer's withdrawal history
@@ -45,10 +82,14 @@ export function useWithdrawals(
  * ```
  */
 export function useDealerWithdrawals(
-  client: IndexerClient,
-  dealerAddress: string | undefined,
-  options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      dealerAddress: string | undefined,
+      options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<FeeWithdrawalData>> {
+  const [client, dealerAddress, options] = useClientArgs(args);
   return useWithdrawals(
     client,
     {
@@ -72,9 +113,11 @@ export function useDealerWithdrawals(
  * ```
  */
 export function useSystemWithdrawals(
-  client: IndexerClient,
-  options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>]
+  >
 ): UseQueryResult<PaginatedResponse<FeeWithdrawalData>> {
+  const [client, options] = useClientArgs(args);
   return useWithdrawals(
     client,
     {
@@ -94,10 +137,14 @@ export function useSystemWithdrawals(
  * ```
  */
 export function useMarketWithdrawals(
-  client: IndexerClient,
-  marketId: string | undefined,
-  options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>
+  ...args: WithClient<
+    [
+      marketId: string | undefined,
+      options?: Omit<UseQueryOptions<PaginatedResponse<FeeWithdrawalData>>, 'queryKey' | 'queryFn'>,
+    ]
+  >
 ): UseQueryResult<PaginatedResponse<FeeWithdrawalData>> {
+  const [client, marketId, options] = useClientArgs(args);
   return useWithdrawals(
     client,
     {
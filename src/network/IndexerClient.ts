@@ -5,7 +5,7 @@
  * NetworkClient for transport, making it environment-agnostic (browser, Node, React Native).
  */
 
-import type { NetworkClient, NetworkResponse } from '@sudobility/types';
+import type { NetworkClient, NetworkRequestOptions, NetworkResponse } from '@sudobility/types';
 import type {
   ApiResponse,
   PaginatedResponse,
@@ -13,12 +13,19 @@ import type {
   MarketDetailData,
   PredictionData,
   DealerWithPermissionsData,
+  DealerStatsData,
   LicensePermissionData,
   MarketStateHistoryData,
   FeeWithdrawalData,
   OracleRequestData,
   MarketStatsData,
+  MarketDetailStatsData,
+  CategoryCountData,
   HealthData,
+  ApiInfoData,
+  ServiceHealthData,
+  SportsHealthData,
+  SSEStatsData,
   TriggerLockResponseData,
   TriggerResolveResponseData,
   MarketFilters,
@@ -30,6 +37,12 @@ import type {
   WalletFavoritesFilters,
   CreateFavoriteRequest,
   FavoriteCountsFilters,
+  WalletBalanceSummaryData,
+  WalletBalanceDetailData,
+  WalletTransactionData,
+  WalletHistoryItemData,
+  WalletTransactionFilters,
+  WalletHistoryFilters,
   SetMarketOracleConfigRequest,
   MarketOracleConfigData,
   MarketResolutionCheck,
@@ -43,9 +56,53 @@ import type {
   PostCommentRequest,
   DiscussionQuery,
   DiscussionCommentsFilters,
+  ModerateCommentRequest,
+  ModerationQueueFilters,
+  EditCommentRequest,
+  ReplyCommentRequest,
+  ReportCommentRequest,
+  CommentReactionData,
 } from '../types';
 import type { SportsApiResponse, SportsQueryParams, SportsSearchResponse } from '../types/sports';
 import { getNow, getTestMode } from '../utils/datetime';
+import {
+  delay,
+  getEndpointTimeout,
+  getRetryDelay,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+  raceAbort,
+  resolveRetryPolicy,
+} from './request-policy';
+import {
+  IndexerCancelledError,
+  IndexerError,
+  IndexerHttpError,
+  IndexerNetworkError,
+  IndexerNotFoundError,
+  IndexerRateLimitError,
+  IndexerResponseValidationError,
+  IndexerValidationError,
+  isIndexerError,
+  isIndexerHttpError,
+} from './errors';
+import type { IndexerEndpoint, RequestPolicy, RetryPolicy } from './request-policy';
+import {
+  apiResponseOf,
+  commentData,
+  dealerWithPermissionsData,
+  discussionCommentsResponse,
+  formatValidationIssue,
+  marketData,
+  oracleRequestData,
+  paginatedResponseOf,
+  predictionData,
+  walletFavoriteData,
+} from './validation';
+import type { ResponseValidationOptions, Validator } from './validation';
+import { paginate } from './pagination';
+import type { PaginationOptions } from './pagination';
 
 /**
  * Build a full URL by joining a base URL and path.
@@ -61,25 +118,123 @@ function buildUrl(baseUrl: string, path: string): string {
 }
 
 /**
- * Create a standardized Error from an API response failure.
- * Includes the HTTP status code, endpoint URL, and error details for easier debugging.
+ * Parse a response body that may still be a raw JSON string.
+ */
+function parseErrorBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Create a typed IndexerHttpError for a non-2xx status.
+ * Picks the subclass matching the status (404, 429, 400/422) and includes
+ * the HTTP status code, endpoint URL, and error details in the message.
+ *
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @param rawBody - Response body (parsed JSON or raw string)
+ * @param operation - A description of the operation that failed (used in error message)
+ * @param url - Optional request URL to include in the error message for debugging
+ * @param headers - Response headers, used to read Retry-After on 429
+ * @returns The IndexerHttpError subclass matching the status
+ */
+function createHttpError(
+  status: number,
+  statusText: string | undefined,
+  rawBody: unknown,
+  operation: string,
+  url?: string,
+  headers?: Record<string, string>
+): IndexerHttpError {
+  const body = parseErrorBody(rawBody);
+  const data = body as { error?: string } | undefined;
+  const errorMessage =
+    (typeof data === 'object' && data?.error) || statusText || `Failed to ${operation}`;
+  const urlSuffix = url ? ` [${url}]` : '';
+  const message = `API Error (${status}): ${errorMessage}${urlSuffix}`;
+  const options = { status, statusText, operation, url, body };
+
+  switch (status) {
+    case 404:
+      return new IndexerNotFoundError(message, options);
+    case 429:
+      return new IndexerRateLimitError(message, {
+        ...options,
+        retryAfter: parseRetryAfter(headers),
+      });
+    case 400:
+    case 422:
+      return new IndexerValidationError(message, options);
+    default:
+      return new IndexerHttpError(message, options);
+  }
+}
+
+/**
+ * Create a typed error from an API response failure.
  *
  * @param response - The failed network response
  * @param operation - A description of the operation that failed (used in error message)
  * @param url - Optional request URL to include in the error message for debugging
- * @returns An Error with a formatted message including the HTTP status code
+ * @returns An IndexerHttpError (or subclass) carrying the status, URL and parsed body
  */
 function handleApiError(
   response: NetworkResponse<unknown>,
   operation: string,
   url?: string
-): Error {
-  const data = response.data as { error?: string } | undefined;
-  const errorMessage = data?.error || response.statusText || `Failed to ${operation}`;
-  const urlSuffix = url ? ` [${url}]` : '';
-  return new Error(`API Error (${response.status}): ${errorMessage}${urlSuffix}`);
+): IndexerHttpError {
+  return createHttpError(
+    response.status,
+    response.statusText,
+    response.data,
+    operation,
+    url,
+    response.headers
+  );
+}
+
+/**
+ * Classify an error thrown by the NetworkClient.
+ * Errors carrying an HTTP status (e.g. NetworkError from WebNetworkClient,
+ * which throws on non-2xx) become IndexerHttpError; anything else is a
+ * transport failure and becomes IndexerNetworkError.
+ *
+ * @param error - The thrown error
+ * @param operation - A description of the operation that failed
+ * @param url - The request URL
+ * @returns A typed IndexerError
+ */
+function classifyTransportError(error: unknown, operation: string, url: string): IndexerError {
+  if (isIndexerError(error)) return error;
+  if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+    const networkError = error as { status: number; statusText?: string; response?: unknown };
+    return createHttpError(
+      networkError.status,
+      networkError.statusText,
+      networkError.response,
+      operation,
+      url
+    );
+  }
+  return new IndexerNetworkError(operation, url, error);
+}
+
+/**
+ * Turn an endpoint name into an operation description (e.g. 'getMarket' -> 'get market').
+ */
+function describeEndpoint(endpoint: IndexerEndpoint): string {
+  return endpoint.replace(/([A-Z])/g, ' $1').toLowerCase();
 }
 
+/**
+ * Per-request transport options forwarded to the NetworkClient.
+ */
+type RequestOptions = Omit<NetworkRequestOptions, 'method' | 'body'>;
+
 /**
  * Indexer API client for Heavymath Prediction Market.
  * Provides type-safe methods for all REST endpoints exposed by the heavymath_indexer.
@@ -88,15 +243,167 @@ function handleApiError(
 export class IndexerClient {
   private readonly baseUrl: string;
   private readonly networkClient: NetworkClient;
+  private readonly policy: RequestPolicy;
+  private readonly retryPolicy: Required<RetryPolicy> | null;
+  private readonly validation: ResponseValidationOptions;
 
   /**
    * Create an IndexerClient instance
    * @param endpointUrl - The base URL for the indexer API
    * @param networkClient - A NetworkClient instance from @sudobility/di
+   * @param policy - Optional timeout and retry policy (retries are disabled by default)
+   * @param validation - Optional runtime response validation (disabled by default)
    */
-  constructor(endpointUrl: string, networkClient: NetworkClient) {
+  constructor(
+    endpointUrl: string,
+    networkClient: NetworkClient,
+    policy: RequestPolicy = {},
+    validation: ResponseValidationOptions = {}
+  ) {
     this.baseUrl = endpointUrl;
     this.networkClient = networkClient;
+    this.policy = policy;
+    this.retryPolicy = resolveRetryPolicy(policy);
+    this.validation = validation;
+  }
+
+  // =============================================================================
+  // REQUEST HELPERS
+  // =============================================================================
+
+  /**
+   * Merge the endpoint's timeout into the per-request options.
+   * Returns undefined when there is nothing to forward, so the NetworkClient
+   * is called without an options argument.
+   */
+  private buildRequestOptions(
+    endpoint: IndexerEndpoint,
+    options?: RequestOptions
+  ): RequestOptions | undefined {
+    const merged: RequestOptions = {
+      ...options,
+      timeout: getEndpointTimeout(this.policy, endpoint),
+    };
+    const defined = Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== undefined)
+    ) as RequestOptions;
+    return Object.keys(defined).length > 0 ? defined : undefined;
+  }
+
+  /**
+   * Run a request, retrying retryable failures according to the retry policy.
+   * Only idempotent requests are retried; others run exactly once.
+   *
+   * When `signal` aborts, the returned promise rejects with an
+   * IndexerCancelledError immediately, even if the NetworkClient ignores the
+   * signal; its late result is discarded. Other thrown errors are classified
+   * into IndexerHttpError or IndexerNetworkError.
+   */
+  private async withRetry<T>(
+    endpoint: IndexerEndpoint,
+    url: string,
+    idempotent: boolean,
+    signal: AbortSignal | undefined,
+    call: () => Promise<NetworkResponse<T>>
+  ): Promise<NetworkResponse<T>> {
+    const operation = describeEndpoint(endpoint);
+    const retry = idempotent ? this.retryPolicy : null;
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = retry !== null && attempt < retry.maxRetries;
+
+      let response: NetworkResponse<T>;
+      try {
+        response = await raceAbort(call(), signal, operation);
+      } catch (error) {
+        if (signal?.aborted) throw new IndexerCancelledError(operation);
+        if (!canRetry || !isRetryableError(error)) {
+          throw classifyTransportError(error, operation, url);
+        }
+        await delay(getRetryDelay(retry, attempt), signal, operation);
+        continue;
+      }
+
+      if (!canRetry || !isRetryableStatus(response.status)) return response;
+      await delay(getRetryDelay(retry, attempt, response), signal, operation);
+    }
+  }
+
+  /**
+   * Check a response payload against its validator according to the
+   * validation mode. Strict mode throws IndexerResponseValidationError;
+   * lenient mode reports the issue and returns the data unchanged.
+   */
+  private validate<T>(data: T, validator: Validator, operation: string, url: string): T {
+    const mode = this.validation.mode ?? 'off';
+    if (mode === 'off') return data;
+
+    const issue = validator(data, 'response');
+    if (!issue) return data;
+    if (mode === 'strict') throw new IndexerResponseValidationError(operation, url, issue);
+
+    if (this.validation.onIssue) {
+      this.validation.onIssue(issue, operation);
+    } else {
+      console.warn(
+        `[IndexerClient] Invalid response for ${operation} at ${formatValidationIssue(issue)}`
+      );
+    }
+    return data;
+  }
+
+  private getRequest<T>(
+    endpoint: IndexerEndpoint,
+    url: string,
+    options?: RequestOptions
+  ): Promise<NetworkResponse<T>> {
+    const requestOptions = this.buildRequestOptions(endpoint, options);
+    return this.withRetry(endpoint, url, true, options?.signal ?? undefined, () =>
+      requestOptions
+        ? this.networkClient.get<T>(url, requestOptions)
+        : this.networkClient.get<T>(url)
+    );
+  }
+
+  private postRequest<T>(
+    endpoint: IndexerEndpoint,
+    url: string,
+    body?: unknown,
+    options?: RequestOptions
+  ): Promise<NetworkResponse<T>> {
+    const requestOptions = this.buildRequestOptions(endpoint, options);
+    return this.withRetry(endpoint, url, false, options?.signal ?? undefined, () =>
+      requestOptions
+        ? this.networkClient.post<T>(url, body, requestOptions)
+        : this.networkClient.post<T>(url, body)
+    );
+  }
+
+  private putRequest<T>(
+    endpoint: IndexerEndpoint,
+    url: string,
+    body?: unknown,
+    options?: RequestOptions
+  ): Promise<NetworkResponse<T>> {
+    const requestOptions = this.buildRequestOptions(endpoint, options);
+    return this.withRetry(endpoint, url, false, options?.signal ?? undefined, () =>
+      requestOptions
+        ? this.networkClient.put<T>(url, body, requestOptions)
+        : this.networkClient.put<T>(url, body)
+    );
+  }
+
+  private deleteRequest<T>(
+    endpoint: IndexerEndpoint,
+    url: string,
+    options?: RequestOptions
+  ): Promise<NetworkResponse<T>> {
+    const requestOptions = this.buildRequestOptions(endpoint, options);
+    return this.withRetry(endpoint, url, false, options?.signal ?? undefined, () =>
+      requestOptions
+        ? this.networkClient.delete<T>(url, requestOptions)
+        : this.networkClient.delete<T>(url)
+    );
   }
 
   // =============================================================================
@@ -108,10 +415,14 @@ export class IndexerClient {
    * GET /api/markets
    *
    * @param filters - Optional query parameters (status, dealer, category, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Paginated list of markets
-   * @throws Error if the API request fails
+   * @throws IndexerError if the API request fails
    */
-  async getMarkets(filters?: MarketFilters): Promise<PaginatedResponse<MarketData>> {
+  async getMarkets(
+    filters?: MarketFilters,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<MarketData>> {
     const params = new URLSearchParams();
 
     if (filters?.status) params.append('status', filters.status);
@@ -123,15 +434,16 @@ export class IndexerClient {
     const queryString = params.toString();
     const path = `/api/markets/list${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<PaginatedResponse<MarketData>>(
-      buildUrl(this.baseUrl, path)
-    );
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<MarketData>>('getMarkets', url, {
+      signal,
+    });
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get markets');
+      throw handleApiError(response, 'get markets', url);
     }
 
-    return response.data;
+    return this.validate(response.data, paginatedResponseOf(marketData), 'get markets', url);
   }
 
   /**
@@ -139,19 +451,21 @@ export class IndexerClient {
    * GET /api/markets/:id
    *
    * @param id - The chain-prefixed market ID (e.g., "1-market-123")
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The market data wrapped in an API response
-   * @throws Error if the market is not found or the request fails
+   * @throws IndexerNotFoundError if the market is not found, IndexerError if the request fails
    */
-  async getMarket(id: string): Promise<ApiResponse<MarketDetailData>> {
-    const response = await this.networkClient.get<ApiResponse<MarketDetailData>>(
-      buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(id)}`)
-    );
+  async getMarket(id: string, signal?: AbortSignal): Promise<ApiResponse<MarketDetailData>> {
+    const url = buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(id)}`);
+    const response = await this.getRequest<ApiResponse<MarketDetailData>>('getMarket', url, {
+      signal,
+    });
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get market');
+      throw handleApiError(response, 'get market', url);
     }
 
-    return response.data;
+    return this.validate(response.data, apiResponseOf(marketData), 'get market', url);
   }
 
   /**
@@ -159,19 +473,31 @@ export class IndexerClient {
    * GET /api/markets/:id/predictions
    *
    * @param marketId - The chain-prefixed market ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Array of predictions for the market
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async getMarketPredictions(marketId: string): Promise<PaginatedResponse<PredictionData>> {
-    const response = await this.networkClient.get<PaginatedResponse<PredictionData>>(
-      buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/predictions`)
+  async getMarketPredictions(
+    marketId: string,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<PredictionData>> {
+    const url = buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/predictions`);
+    const response = await this.getRequest<PaginatedResponse<PredictionData>>(
+      'getMarketPredictions',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get market predictions');
+      throw handleApiError(response, 'get market predictions', url);
     }
 
-    return response.data;
+    return this.validate(
+      response.data,
+      paginatedResponseOf(predictionData),
+      'get market predictions',
+      url
+    );
   }
 
   /**
@@ -179,16 +505,50 @@ export class IndexerClient {
    * GET /api/markets/:id/history
    *
    * @param marketId - The chain-prefixed market ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Array of state history entries for the market
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
+   */
+  async getMarketHistory(
+    marketId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<MarketStateHistoryData[]>> {
+    const url = buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/history`);
+    const response = await this.getRequest<ApiResponse<MarketStateHistoryData[]>>(
+      'getMarketHistory',
+      url,
+      { signal }
+    );
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get market history', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get pool and participation statistics of a specific market.
+   * GET /api/markets/:id/stats
+   *
+   * @param marketId - The chain-prefixed market ID
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The market's statistics wrapped in an API response
+   * @throws IndexerNotFoundError if the market is not found, IndexerError if the request fails
    */
-  async getMarketHistory(marketId: string): Promise<ApiResponse<MarketStateHistoryData[]>> {
-    const response = await this.networkClient.get<ApiResponse<MarketStateHistoryData[]>>(
-      buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/history`)
+  async getMarketDetailStats(
+    marketId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<MarketDetailStatsData>> {
+    const url = buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/stats`);
+    const response = await this.getRequest<ApiResponse<MarketDetailStatsData>>(
+      'getMarketDetailStats',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get market history');
+      throw handleApiError(response, 'get market detail stats', url);
     }
 
     return response.data;
@@ -203,10 +563,14 @@ export class IndexerClient {
    * GET /api/predictions
    *
    * @param filters - Optional query parameters (user, market, claimed, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Paginated list of predictions
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async getPredictions(filters?: PredictionFilters): Promise<PaginatedResponse<PredictionData>> {
+  async getPredictions(
+    filters?: PredictionFilters,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<PredictionData>> {
     const params = new URLSearchParams();
 
     if (filters?.user) params.append('user', filters.user);
@@ -218,15 +582,23 @@ export class IndexerClient {
     const queryString = params.toString();
     const path = `/api/predictions${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<PaginatedResponse<PredictionData>>(
-      buildUrl(this.baseUrl, path)
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<PredictionData>>(
+      'getPredictions',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get predictions');
+      throw handleApiError(response, 'get predictions', url);
     }
 
-    return response.data;
+    return this.validate(
+      response.data,
+      paginatedResponseOf(predictionData),
+      'get predictions',
+      url
+    );
   }
 
   /**
@@ -234,19 +606,21 @@ export class IndexerClient {
    * GET /api/predictions/:id
    *
    * @param id - The chain-prefixed prediction ID (e.g., "1-market-123-0xuser...")
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The prediction data wrapped in an API response
-   * @throws Error if the prediction is not found or the request fails
+   * @throws IndexerNotFoundError if the prediction is not found, IndexerError if the request fails
    */
-  async getPrediction(id: string): Promise<ApiResponse<PredictionData>> {
-    const response = await this.networkClient.get<ApiResponse<PredictionData>>(
-      buildUrl(this.baseUrl, `/api/predictions/${encodeURIComponent(id)}`)
-    );
+  async getPrediction(id: string, signal?: AbortSignal): Promise<ApiResponse<PredictionData>> {
+    const url = buildUrl(this.baseUrl, `/api/predictions/${encodeURIComponent(id)}`);
+    const response = await this.getRequest<ApiResponse<PredictionData>>('getPrediction', url, {
+      signal,
+    });
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get prediction');
+      throw handleApiError(response, 'get prediction', url);
     }
 
-    return response.data;
+    return this.validate(response.data, apiResponseOf(predictionData), 'get prediction', url);
   }
 
   // =============================================================================
@@ -258,10 +632,14 @@ export class IndexerClient {
    * GET /api/dealers
    *
    * @param filters - Optional query parameters (owner, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Paginated list of dealer NFTs
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async getDealers(filters?: DealerFilters): Promise<PaginatedResponse<DealerWithPermissionsData>> {
+  async getDealers(
+    filters?: DealerFilters,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<DealerWithPermissionsData>> {
     const params = new URLSearchParams();
 
     if (filters?.owner) params.append('owner', filters.owner);
@@ -271,15 +649,23 @@ export class IndexerClient {
     const queryString = params.toString();
     const path = `/api/dealers/list${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<PaginatedResponse<DealerWithPermissionsData>>(
-      buildUrl(this.baseUrl, path)
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<DealerWithPermissionsData>>(
+      'getDealers',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get dealers');
+      throw handleApiError(response, 'get dealers', url);
     }
 
-    return response.data;
+    return this.validate(
+      response.data,
+      paginatedResponseOf(dealerWithPermissionsData),
+      'get dealers',
+      url
+    );
   }
 
   /**
@@ -287,19 +673,31 @@ export class IndexerClient {
    * GET /api/dealers/:id
    *
    * @param id - The chain-prefixed dealer ID (e.g., "1-1")
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The dealer NFT data wrapped in an API response
-   * @throws Error if the dealer is not found or the request fails
+   * @throws IndexerNotFoundError if the dealer is not found, IndexerError if the request fails
    */
-  async getDealer(id: string): Promise<ApiResponse<DealerWithPermissionsData>> {
-    const response = await this.networkClient.get<ApiResponse<DealerWithPermissionsData>>(
-      buildUrl(this.baseUrl, `/api/dealers/${encodeURIComponent(id)}`)
+  async getDealer(
+    id: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<DealerWithPermissionsData>> {
+    const url = buildUrl(this.baseUrl, `/api/dealers/${encodeURIComponent(id)}`);
+    const response = await this.getRequest<ApiResponse<DealerWithPermissionsData>>(
+      'getDealer',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get dealer');
+      throw handleApiError(response, 'get dealer', url);
     }
 
-    return response.data;
+    return this.validate(
+      response.data,
+      apiResponseOf(dealerWithPermissionsData),
+      'get dealer',
+      url
+    );
   }
 
   /**
@@ -307,16 +705,23 @@ export class IndexerClient {
    * GET /api/dealers/:id/permissions
    *
    * @param dealerId - The chain-prefixed dealer ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Array of permission entries for the dealer
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async getDealerPermissions(dealerId: string): Promise<ApiResponse<LicensePermissionData[]>> {
-    const response = await this.networkClient.get<ApiResponse<LicensePermissionData[]>>(
-      buildUrl(this.baseUrl, `/api/dealers/${encodeURIComponent(dealerId)}/permissions`)
+  async getDealerPermissions(
+    dealerId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<LicensePermissionData[]>> {
+    const url = buildUrl(this.baseUrl, `/api/dealers/${encodeURIComponent(dealerId)}/permissions`);
+    const response = await this.getRequest<ApiResponse<LicensePermissionData[]>>(
+      'getDealerPermissions',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get dealer permissions');
+      throw handleApiError(response, 'get dealer permissions', url);
     }
 
     return response.data;
@@ -327,16 +732,46 @@ export class IndexerClient {
    * GET /api/dealers/:id/markets
    *
    * @param dealerId - The chain-prefixed dealer ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Array of markets created by this dealer
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async getDealerMarkets(dealerId: string): Promise<PaginatedResponse<MarketData>> {
-    const response = await this.networkClient.get<PaginatedResponse<MarketData>>(
-      buildUrl(this.baseUrl, `/api/dealers/${encodeURIComponent(dealerId)}/markets`)
-    );
+  async getDealerMarkets(
+    dealerId: string,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<MarketData>> {
+    const url = buildUrl(this.baseUrl, `/api/dealers/${encodeURIComponent(dealerId)}/markets`);
+    const response = await this.getRequest<PaginatedResponse<MarketData>>('getDealerMarkets', url, {
+      signal,
+    });
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get dealer markets', url);
+    }
+
+    return this.validate(response.data, paginatedResponseOf(marketData), 'get dealer markets', url);
+  }
+
+  /**
+   * Get volume and fee earnings of a specific dealer NFT.
+   * GET /api/dealers/:id/stats
+   *
+   * @param dealerId - The chain-prefixed dealer ID
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The dealer's statistics wrapped in an API response
+   * @throws IndexerNotFoundError if the dealer is not found, IndexerError if the request fails
+   */
+  async getDealerStats(
+    dealerId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<DealerStatsData>> {
+    const url = buildUrl(this.baseUrl, `/api/dealers/${encodeURIComponent(dealerId)}/stats`);
+    const response = await this.getRequest<ApiResponse<DealerStatsData>>('getDealerStats', url, {
+      signal,
+    });
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get dealer markets');
+      throw handleApiError(response, 'get dealer stats', url);
     }
 
     return response.data;
@@ -351,10 +786,14 @@ export class IndexerClient {
    * GET /api/withdrawals
    *
    * @param filters - Optional query parameters (withdrawer, type, market, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Paginated list of fee withdrawals
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async getWithdrawals(filters?: WithdrawalFilters): Promise<PaginatedResponse<FeeWithdrawalData>> {
+  async getWithdrawals(
+    filters?: WithdrawalFilters,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<FeeWithdrawalData>> {
     const params = new URLSearchParams();
 
     if (filters?.withdrawer) params.append('withdrawer', filters.withdrawer);
@@ -366,12 +805,15 @@ export class IndexerClient {
     const queryString = params.toString();
     const path = `/api/withdrawals${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<PaginatedResponse<FeeWithdrawalData>>(
-      buildUrl(this.baseUrl, path)
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<FeeWithdrawalData>>(
+      'getWithdrawals',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get withdrawals');
+      throw handleApiError(response, 'get withdrawals', url);
     }
 
     return response.data;
@@ -386,10 +828,14 @@ export class IndexerClient {
    * GET /api/oracle/requests
    *
    * @param filters - Optional query parameters (market, timedOut, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Paginated list of oracle requests
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async getOracleRequests(filters?: OracleFilters): Promise<PaginatedResponse<OracleRequestData>> {
+  async getOracleRequests(
+    filters?: OracleFilters,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<OracleRequestData>> {
     const params = new URLSearchParams();
 
     if (filters?.market) params.append('market', filters.market);
@@ -400,15 +846,23 @@ export class IndexerClient {
     const queryString = params.toString();
     const path = `/api/oracle/requests${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<PaginatedResponse<OracleRequestData>>(
-      buildUrl(this.baseUrl, path)
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<OracleRequestData>>(
+      'getOracleRequests',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get oracle requests');
+      throw handleApiError(response, 'get oracle requests', url);
     }
 
-    return response.data;
+    return this.validate(
+      response.data,
+      paginatedResponseOf(oracleRequestData),
+      'get oracle requests',
+      url
+    );
   }
 
   /**
@@ -416,19 +870,31 @@ export class IndexerClient {
    * GET /api/oracle/requests/:id
    *
    * @param id - The oracle request ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The oracle request data wrapped in an API response
-   * @throws Error if the oracle request is not found or the request fails
+   * @throws IndexerNotFoundError if the oracle request is not found, IndexerError if the request fails
    */
-  async getOracleRequest(id: string): Promise<ApiResponse<OracleRequestData>> {
-    const response = await this.networkClient.get<ApiResponse<OracleRequestData>>(
-      buildUrl(this.baseUrl, `/api/oracle/requests/${encodeURIComponent(id)}`)
+  async getOracleRequest(
+    id: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<OracleRequestData>> {
+    const url = buildUrl(this.baseUrl, `/api/oracle/requests/${encodeURIComponent(id)}`);
+    const response = await this.getRequest<ApiResponse<OracleRequestData>>(
+      'getOracleRequest',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get oracle request');
+      throw handleApiError(response, 'get oracle request', url);
     }
 
-    return response.data;
+    return this.validate(
+      response.data,
+      apiResponseOf(oracleRequestData),
+      'get oracle request',
+      url
+    );
   }
 
   // =============================================================================
@@ -443,20 +909,28 @@ export class IndexerClient {
    *
    * @param marketId - Chain-prefixed market ID
    * @param config - Oracle config with positive team info
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The created oracle config
    * @throws Error if the market is not found or doesn't have an oracle
    */
   async setMarketOracleConfig(
     marketId: string,
-    config: SetMarketOracleConfigRequest
+    config: SetMarketOracleConfigRequest,
+    signal?: AbortSignal
   ): Promise<ApiResponse<MarketOracleConfigData>> {
-    const response = await this.networkClient.post<ApiResponse<MarketOracleConfigData>>(
-      buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/oracle-config`),
-      config
+    const url = buildUrl(
+      this.baseUrl,
+      `/api/markets/${encodeURIComponent(marketId)}/oracle-config`
+    );
+    const response = await this.postRequest<ApiResponse<MarketOracleConfigData>>(
+      'setMarketOracleConfig',
+      url,
+      config,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'set market oracle config');
+      throw handleApiError(response, 'set market oracle config', url);
     }
 
     return response.data;
@@ -467,16 +941,26 @@ export class IndexerClient {
    * GET /api/markets/:id/oracle-config
    *
    * @param marketId - Chain-prefixed market ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The oracle config data
    * @throws Error if the config is not found
    */
-  async getMarketOracleConfig(marketId: string): Promise<ApiResponse<MarketOracleConfigData>> {
-    const response = await this.networkClient.get<ApiResponse<MarketOracleConfigData>>(
-      buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/oracle-config`)
+  async getMarketOracleConfig(
+    marketId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<MarketOracleConfigData>> {
+    const url = buildUrl(
+      this.baseUrl,
+      `/api/markets/${encodeURIComponent(marketId)}/oracle-config`
+    );
+    const response = await this.getRequest<ApiResponse<MarketOracleConfigData>>(
+      'getMarketOracleConfig',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get market oracle config');
+      throw handleApiError(response, 'get market oracle config', url);
     }
 
     return response.data;
@@ -493,14 +977,22 @@ export class IndexerClient {
    * structured result so the UI can display the reason.
    *
    * @param marketId - Chain-prefixed market ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Resolution check result (ok: true with data, or ok: false with error)
    */
-  async checkMarketResolution(marketId: string): Promise<MarketResolutionCheck> {
+  async checkMarketResolution(
+    marketId: string,
+    signal?: AbortSignal
+  ): Promise<MarketResolutionCheck> {
     const url = buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/resolve`);
     const testMode = getTestMode();
 
     try {
-      const response = await this.networkClient.get<MarketResolutionCheckSuccess>(url);
+      const response = await this.getRequest<MarketResolutionCheckSuccess>(
+        'checkMarketResolution',
+        url,
+        { signal }
+      );
 
       if (response.ok && response.data) {
         return {
@@ -519,17 +1011,17 @@ export class IndexerClient {
         },
       };
     } catch (error: unknown) {
-      // WebNetworkClient throws NetworkError on non-2xx responses.
+      // WebNetworkClient throws NetworkError on non-2xx responses, which
+      // withRetry turns into an IndexerHttpError carrying the parsed body.
       // Extract the structured error body so the UI can show the reason
       // (e.g. "Game has not ended yet") instead of a generic error.
-      if (error && typeof error === 'object' && 'status' in error && 'response' in error) {
-        const networkError = error as { status: number; response?: unknown };
-        const errorData = networkError.response as MarketResolutionCheckError | undefined;
+      if (isIndexerHttpError(error)) {
+        const errorData = error.body as MarketResolutionCheckError | undefined;
         return {
           ok: false,
           error: errorData ?? {
             success: false,
-            error: `API Error (${networkError.status}): Failed to check market resolution`,
+            error: `API Error (${error.status}): Failed to check market resolution`,
             timestamp: getNow(testMode).toISOString(),
           },
         };
@@ -547,19 +1039,23 @@ export class IndexerClient {
    * resolver wallet, not the user's wallet.
    *
    * @param marketId - Chain-prefixed market ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Success with transaction hash, or error
    */
-  async triggerLock(marketId: string): Promise<ApiResponse<TriggerLockResponseData>> {
+  async triggerLock(
+    marketId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<TriggerLockResponseData>> {
     const url = buildUrl(this.baseUrl, `/api/markets/${encodeURIComponent(marketId)}/trigger-lock`);
-
-    const response = await this.networkClient.post<ApiResponse<TriggerLockResponseData>>(
+    const response = await this.postRequest<ApiResponse<TriggerLockResponseData>>(
+      'triggerLock',
       url,
       undefined,
-      { timeout: 120_000 }
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'trigger lock');
+      throw handleApiError(response, 'trigger lock', url);
     }
 
     return response.data;
@@ -577,22 +1073,27 @@ export class IndexerClient {
    * a structured result so the UI can display the reason.
    *
    * @param marketId - Chain-prefixed market ID
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Resolution result with oracleUpdated flag, or error
    */
-  async triggerResolve(marketId: string): Promise<ApiResponse<TriggerResolveResponseData>> {
+  async triggerResolve(
+    marketId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<TriggerResolveResponseData>> {
     const url = buildUrl(
       this.baseUrl,
       `/api/markets/${encodeURIComponent(marketId)}/trigger-resolve`
     );
 
-    const response = await this.networkClient.post<ApiResponse<TriggerResolveResponseData>>(
+    const response = await this.postRequest<ApiResponse<TriggerResolveResponseData>>(
+      'triggerResolve',
       url,
       undefined,
-      { timeout: 120_000 }
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'trigger resolve');
+      throw handleApiError(response, 'trigger resolve', url);
     }
 
     return response.data;
@@ -608,12 +1109,14 @@ export class IndexerClient {
    *
    * @param walletAddress - The wallet address to get favorites for
    * @param filters - Optional query parameters (category, subcategory, type, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Paginated list of wallet favorites
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
   async getFavorites(
     walletAddress: string,
-    filters?: WalletFavoritesFilters
+    filters?: WalletFavoritesFilters,
+    signal?: AbortSignal
   ): Promise<PaginatedResponse<WalletFavoriteData>> {
     const params = new URLSearchParams();
 
@@ -626,15 +1129,23 @@ export class IndexerClient {
     const queryString = params.toString();
     const path = `/api/wallet/${encodeURIComponent(walletAddress)}/favorites${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<PaginatedResponse<WalletFavoriteData>>(
-      buildUrl(this.baseUrl, path)
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<WalletFavoriteData>>(
+      'getFavorites',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get favorites');
+      throw handleApiError(response, 'get favorites', url);
     }
 
-    return response.data;
+    return this.validate(
+      response.data,
+      paginatedResponseOf(walletFavoriteData),
+      'get favorites',
+      url
+    );
   }
 
   /**
@@ -643,23 +1154,31 @@ export class IndexerClient {
    *
    * @param walletAddress - The wallet address to add a favorite for
    * @param favorite - The favorite item to add (category, subcategory, type, id)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The newly created favorite data
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
   async addFavorite(
     walletAddress: string,
-    favorite: CreateFavoriteRequest
+    favorite: CreateFavoriteRequest,
+    signal?: AbortSignal
   ): Promise<ApiResponse<WalletFavoriteData>> {
-    const response = await this.networkClient.post<ApiResponse<WalletFavoriteData>>(
-      buildUrl(this.baseUrl, `/api/wallet/${encodeURIComponent(walletAddress)}/favorites`),
-      favorite
+    const url = buildUrl(
+      this.baseUrl,
+      `/api/wallet/${encodeURIComponent(walletAddress)}/favorites`
+    );
+    const response = await this.postRequest<ApiResponse<WalletFavoriteData>>(
+      'addFavorite',
+      url,
+      favorite,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'add favorite');
+      throw handleApiError(response, 'add favorite', url);
     }
 
-    return response.data;
+    return this.validate(response.data, apiResponseOf(walletFavoriteData), 'add favorite', url);
   }
 
   /**
@@ -668,19 +1187,23 @@ export class IndexerClient {
    *
    * @param walletAddress - The wallet address that owns the favorite
    * @param favoriteId - The numeric ID of the favorite to remove
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns An API response confirming deletion
-   * @throws Error if the favorite is not found or the request fails
+   * @throws IndexerNotFoundError if the favorite is not found, IndexerError if the request fails
    */
-  async removeFavorite(walletAddress: string, favoriteId: number): Promise<ApiResponse<void>> {
-    const response = await this.networkClient.delete<ApiResponse<void>>(
-      buildUrl(
-        this.baseUrl,
-        `/api/wallet/${encodeURIComponent(walletAddress)}/favorites/${favoriteId}`
-      )
+  async removeFavorite(
+    walletAddress: string,
+    favoriteId: number,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<void>> {
+    const url = buildUrl(
+      this.baseUrl,
+      `/api/wallet/${encodeURIComponent(walletAddress)}/favorites/${favoriteId}`
     );
+    const response = await this.deleteRequest<ApiResponse<void>>('removeFavorite', url, { signal });
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'remove favorite');
+      throw handleApiError(response, 'remove favorite', url);
     }
 
     return response.data;
@@ -691,10 +1214,12 @@ export class IndexerClient {
    * GET /api/favorites/counts
    *
    * @param filters - Required filters: category, subcategory, type, itemIds
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Map of itemId to favorite count (items with 0 favorites are omitted)
    */
   async getFavoriteCounts(
-    filters: FavoriteCountsFilters
+    filters: FavoriteCountsFilters,
+    signal?: AbortSignal
   ): Promise<ApiResponse<Record<string, number>>> {
     const params = new URLSearchParams();
     params.append('category', filters.category);
@@ -706,16 +1231,344 @@ export class IndexerClient {
     }
 
     const path = `/api/favorites/counts?${params.toString()}`;
-    const response = await this.networkClient.get<ApiResponse<Record<string, number>>>(
-      buildUrl(this.baseUrl, path)
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<ApiResponse<Record<string, number>>>(
+      'getFavoriteCounts',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get favorite counts');
+      throw handleApiError(response, 'get favorite counts', url);
     }
     return response.data;
   }
 
+  // =============================================================================
+  // WALLET BALANCE ENDPOINTS
+  // =============================================================================
+
+  /**
+   * Get the balance summary of a wallet (staked, claimable and claimed totals).
+   * GET /api/wallet/:address/balance
+   *
+   * @param walletAddress - The wallet address to get the balance for
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The wallet's balance summary wrapped in an API response
+   * @throws IndexerError if the request fails
+   */
+  async getWalletBalance(
+    walletAddress: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<WalletBalanceSummaryData>> {
+    const url = buildUrl(this.baseUrl, `/api/wallet/${encodeURIComponent(walletAddress)}/balance`);
+    const response = await this.getRequest<ApiResponse<WalletBalanceSummaryData>>(
+      'getWalletBalance',
+      url,
+      { signal }
+    );
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get wallet balance', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the balance of a wallet broken down per market.
+   * GET /api/wallet/:address/balance/detail
+   *
+   * @param walletAddress - The wallet address to get the balance for
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The wallet's per-market balance wrapped in an API response
+   * @throws IndexerError if the request fails
+   */
+  async getWalletBalanceDetail(
+    walletAddress: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<WalletBalanceDetailData>> {
+    const url = buildUrl(
+      this.baseUrl,
+      `/api/wallet/${encodeURIComponent(walletAddress)}/balance/detail`
+    );
+    const response = await this.getRequest<ApiResponse<WalletBalanceDetailData>>(
+      'getWalletBalanceDetail',
+      url,
+      { signal }
+    );
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get wallet balance detail', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the on-chain transactions of a wallet (bets, claims, refunds).
+   * GET /api/wallet/:address/transactions
+   *
+   * @param walletAddress - The wallet address to get transactions for
+   * @param filters - Optional query parameters (market, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns Paginated list of wallet transactions
+   * @throws IndexerError if the request fails
+   */
+  async getWalletTransactions(
+    walletAddress: string,
+    filters?: WalletTransactionFilters,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<WalletTransactionData>> {
+    const params = new URLSearchParams();
+
+    if (filters?.market) params.append('market', filters.market);
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+    if (filters?.offset) params.append('offset', filters.offset.toString());
+
+    const queryString = params.toString();
+    const path = `/api/wallet/${encodeURIComponent(walletAddress)}/transactions${queryString ? `?${queryString}` : ''}`;
+
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<WalletTransactionData>>(
+      'getWalletTransactions',
+      url,
+      { signal }
+    );
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get wallet transactions', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the balance history of a wallet, newest first.
+   * GET /api/wallet/:address/history
+   *
+   * @param walletAddress - The wallet address to get the history for
+   * @param filters - Optional query parameters (market, limit, offset)
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns Paginated list of wallet history items
+   * @throws IndexerError if the request fails
+   */
+  async getWalletHistory(
+    walletAddress: string,
+    filters?: WalletHistoryFilters,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<WalletHistoryItemData>> {
+    const params = new URLSearchParams();
+
+    if (filters?.market) params.append('market', filters.market);
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+    if (filters?.offset) params.append('offset', filters.offset.toString());
+
+    const queryString = params.toString();
+    const path = `/api/wallet/${encodeURIComponent(walletAddress)}/history${queryString ? `?${queryString}` : ''}`;
+
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<PaginatedResponse<WalletHistoryItemData>>(
+      'getWalletHistory',
+      url,
+      { signal }
+    );
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get wallet history', url);
+    }
+
+    return response.data;
+  }
+
+  // =============================================================================
+  // PAGINATION
+  // =============================================================================
+
+  /**
+   * Iterate over every market matching the filters, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @example
+   * ```ts
+   * for await (const market of client.iterateMarkets({ status: 'Active' }, { maxItems: 500 })) {
+   *   render(market);
+   * }
+   * ```
+   *
+   * @param filters - Optional query parameters (status, dealer, category); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the matching markets
+   * @throws IndexerError if a page request fails
+   */
+  iterateMarkets(
+    filters: MarketFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<MarketData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) => this.getMarkets({ ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate markets'
+    );
+  }
+
+  /**
+   * Iterate over every prediction matching the filters, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @param filters - Optional query parameters (user, market, claimed); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the matching predictions
+   * @throws IndexerError if a page request fails
+   */
+  iteratePredictions(
+    filters: PredictionFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<PredictionData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) => this.getPredictions({ ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate predictions'
+    );
+  }
+
+  /**
+   * Iterate over every dealer NFT matching the filters, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @param filters - Optional query parameters (owner); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the matching dealer NFTs
+   * @throws IndexerError if a page request fails
+   */
+  iterateDealers(
+    filters: DealerFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<DealerWithPermissionsData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) => this.getDealers({ ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate dealer NFTs'
+    );
+  }
+
+  /**
+   * Iterate over every fee withdrawal matching the filters, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @param filters - Optional query parameters (withdrawer, type, market); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the matching fee withdrawals
+   * @throws IndexerError if a page request fails
+   */
+  iterateWithdrawals(
+    filters: WithdrawalFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<FeeWithdrawalData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) => this.getWithdrawals({ ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate fee withdrawals'
+    );
+  }
+
+  /**
+   * Iterate over every oracle request matching the filters, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @param filters - Optional query parameters (market, timedOut); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the matching oracle requests
+   * @throws IndexerError if a page request fails
+   */
+  iterateOracleRequests(
+    filters: OracleFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<OracleRequestData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) => this.getOracleRequests({ ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate oracle requests'
+    );
+  }
+
+  /**
+   * Iterate over every favorite of a wallet, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @param walletAddress - The wallet address to get favorites for
+   * @param filters - Optional query parameters (category, subcategory, type); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the wallet's favorites
+   * @throws IndexerError if a page request fails
+   */
+  iterateFavorites(
+    walletAddress: string,
+    filters: WalletFavoritesFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<WalletFavoriteData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) =>
+        this.getFavorites(walletAddress, { ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate favorites'
+    );
+  }
+
+  /**
+   * Iterate over every transaction of a wallet, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @param walletAddress - The wallet address to get transactions for
+   * @param filters - Optional query parameters (market); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the wallet's transactions
+   * @throws IndexerError if a page request fails
+   */
+  iterateWalletTransactions(
+    walletAddress: string,
+    filters: WalletTransactionFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<WalletTransactionData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) =>
+        this.getWalletTransactions(walletAddress, { ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate wallet transactions'
+    );
+  }
+
+  /**
+   * Iterate over the whole balance history of a wallet, fetching pages on demand.
+   * Starts at `filters.offset` and walks pages until the server reports no more items.
+   *
+   * @param walletAddress - The wallet address to get the history for
+   * @param filters - Optional query parameters (market); `limit` is the default page size
+   * @param options - Page size, item cap and abort signal
+   * @returns An async iterator over the wallet's history items
+   * @throws IndexerError if a page request fails
+   */
+  iterateWalletHistory(
+    walletAddress: string,
+    filters: WalletHistoryFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<WalletHistoryItemData, void, undefined> {
+    return paginate(
+      (limit, offset, signal) =>
+        this.getWalletHistory(walletAddress, { ...filters, limit, offset }, signal),
+      filters.offset ?? 0,
+      { ...options, pageSize: options.pageSize ?? filters.limit },
+      'iterate wallet history'
+    );
+  }
+
   // =============================================================================
   // ANALYTICS ENDPOINTS
   // =============================================================================
@@ -724,16 +1577,41 @@ export class IndexerClient {
    * Get market statistics.
    * GET /api/stats/markets
    *
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Aggregate market statistics (totals, breakdowns by status)
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
+   */
+  async getMarketStats(signal?: AbortSignal): Promise<ApiResponse<MarketStatsData>> {
+    const url = buildUrl(this.baseUrl, '/api/stats/markets');
+    const response = await this.getRequest<ApiResponse<MarketStatsData>>('getMarketStats', url, {
+      signal,
+    });
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get market stats', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the number of markets in each category.
+   * GET /api/stats/categories
+   *
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns Market counts per category
+   * @throws IndexerError if the request fails
    */
-  async getMarketStats(): Promise<ApiResponse<MarketStatsData>> {
-    const response = await this.networkClient.get<ApiResponse<MarketStatsData>>(
-      buildUrl(this.baseUrl, '/api/stats/markets')
+  async getCategoryCounts(signal?: AbortSignal): Promise<ApiResponse<CategoryCountData[]>> {
+    const url = buildUrl(this.baseUrl, '/api/stats/categories');
+    const response = await this.getRequest<ApiResponse<CategoryCountData[]>>(
+      'getCategoryCounts',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get market stats');
+      throw handleApiError(response, 'get category counts', url);
     }
 
     return response.data;
@@ -743,16 +1621,102 @@ export class IndexerClient {
    * Get health status of the indexer.
    * GET /api/health
    *
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The indexer health status
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
+   */
+  async getHealth(signal?: AbortSignal): Promise<ApiResponse<HealthData>> {
+    const url = buildUrl(this.baseUrl, '/api/health');
+    const response = await this.getRequest<ApiResponse<HealthData>>('getHealth', url, { signal });
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get health', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the indexer's API information (name, version, available endpoints).
+   * GET /api
+   *
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The API information
+   * @throws IndexerError if the request fails
+   */
+  async getApiInfo(signal?: AbortSignal): Promise<ApiResponse<ApiInfoData>> {
+    const url = buildUrl(this.baseUrl, '/api');
+    const response = await this.getRequest<ApiResponse<ApiInfoData>>('getApiInfo', url, {
+      signal,
+    });
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get API info', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the health of each service behind the indexer (database, chain sync, etc.).
+   * GET /api/health/services
+   *
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The per-service health status
+   * @throws IndexerError if the request fails
    */
-  async getHealth(): Promise<ApiResponse<HealthData>> {
-    const response = await this.networkClient.get<ApiResponse<HealthData>>(
-      buildUrl(this.baseUrl, '/api/health')
+  async getServiceHealth(signal?: AbortSignal): Promise<ApiResponse<ServiceHealthData>> {
+    const url = buildUrl(this.baseUrl, '/api/health/services');
+    const response = await this.getRequest<ApiResponse<ServiceHealthData>>(
+      'getServiceHealth',
+      url,
+      { signal }
     );
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get health');
+      throw handleApiError(response, 'get service health', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the health of the sports API proxy.
+   * GET /api/sports/health
+   *
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The sports proxy health status
+   * @throws IndexerError if the request fails
+   */
+  async getSportsHealth(signal?: AbortSignal): Promise<ApiResponse<SportsHealthData>> {
+    const url = buildUrl(this.baseUrl, '/api/sports/health');
+    const response = await this.getRequest<ApiResponse<SportsHealthData>>('getSportsHealth', url, {
+      signal,
+    });
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get sports health', url);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get statistics of the SSE event stream (connected clients, channels).
+   * GET /api/events/stats
+   *
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns The SSE stream statistics
+   * @throws IndexerError if the request fails
+   */
+  async getSSEStats(signal?: AbortSignal): Promise<ApiResponse<SSEStatsData>> {
+    const url = buildUrl(this.baseUrl, '/api/events/stats');
+    const response = await this.getRequest<ApiResponse<SSEStatsData>>('getSSEStats', url, {
+      signal,
+    });
+
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get SSE stats', url);
     }
 
     return response.data;
@@ -768,21 +1732,26 @@ export class IndexerClient {
    * GET /api/sports/search?q={query}
    *
    * @param query - Search query (minimum 3 characters)
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns Aggregated search results grouped by sport
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    */
-  async searchSports(query: string): Promise<ApiResponse<SportsSearchResponse>> {
+  async searchSports(
+    query: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<SportsSearchResponse>> {
     const params = new URLSearchParams();
     params.append('q', query);
 
     const path = `/api/sports/search?${params.toString()}`;
 
-    const response = await this.networkClient.get<ApiResponse<SportsSearchResponse>>(
-      buildUrl(this.baseUrl, path)
-    );
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<ApiResponse<SportsSearchResponse>>('searchSports', url, {
+      signal,
+    });
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'search sports');
+      throw handleApiError(response, 'search sports', url);
     }
 
     return response.data;
@@ -796,8 +1765,9 @@ export class IndexerClient {
    * @param sport - Sport identifier (e.g., 'football', 'basketball')
    * @param endpoint - API endpoint path (e.g., '/countries', '/fixtures')
    * @param params - Optional query parameters to forward
+   * @param signal - Optional AbortSignal to cancel the request
    * @returns The raw api-sports.io response
-   * @throws Error if the request fails
+   * @throws IndexerError if the request fails
    *
    * @example
    * ```ts
@@ -808,7 +1778,8 @@ export class IndexerClient {
   async getSportsData<T = unknown>(
     sport: string,
     endpoint: string,
-    params?: SportsQueryParams
+    params?: SportsQueryParams,
+    signal?: AbortSignal
   ): Promise<SportsApiResponse<T>> {
     const searchParams = new URLSearchParams();
     if (params) {
@@ -822,12 +1793,11 @@ export class IndexerClient {
     const queryString = searchParams.toString();
     const path = `/api/sports/${encodeURIComponent(sport)}${endpoint}${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<SportsApiResponse<T>>(
-      buildUrl(this.baseUrl, path)
-    );
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<SportsApiResponse<T>>('getSportsData', url, { signal });
 
     if (!response.ok || !response.data) {
-      throw handleApiError(response, `get sports data (${sport}${endpoint})`);
+      throw handleApiError(response, `get sports data (${sport}${endpoint})`, url);
     }
 
     return response.data;
@@ -841,12 +1811,13 @@ export class IndexerClient {
    * Get a SIWE nonce for signing.
    * GET /api/auth/nonce
    */
-  async getNonce(): Promise<ApiResponse<AuthNonceResponse>> {
-    const response = await this.networkClient.get<ApiResponse<AuthNonceResponse>>(
-      buildUrl(this.baseUrl, '/api/auth/nonce')
-    );
+  async getNonce(signal?: AbortSignal): Promise<ApiResponse<AuthNonceResponse>> {
+    const url = buildUrl(this.baseUrl, '/api/auth/nonce');
+    const response = await this.getRequest<ApiResponse<AuthNonceResponse>>('getNonce', url, {
+      signal,
+    });
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get nonce');
+      throw handleApiError(response, 'get nonce', url);
     }
     return response.data;
   }
@@ -855,13 +1826,20 @@ export class IndexerClient {
    * Verify a SIWE signature and get a JWT.
    * POST /api/auth/verify
    */
-  async verifySiwe(message: string, signature: string): Promise<ApiResponse<AuthVerifyResponse>> {
-    const response = await this.networkClient.post<ApiResponse<AuthVerifyResponse>>(
-      buildUrl(this.baseUrl, '/api/auth/verify'),
-      { message, signature }
+  async verifySiwe(
+    message: string,
+    signature: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<AuthVerifyResponse>> {
+    const url = buildUrl(this.baseUrl, '/api/auth/verify');
+    const response = await this.postRequest<ApiResponse<AuthVerifyResponse>>(
+      'verifySiwe',
+      url,
+      { message, signature },
+      { signal }
     );
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'verify SIWE');
+      throw handleApiError(response, 'verify SIWE', url);
     }
     return response.data;
   }
@@ -874,17 +1852,23 @@ export class IndexerClient {
    * Get discussion metadata for a subject.
    * GET /api/discussions?subject_type=...&sport=...&subject_id=...
    */
-  async getDiscussion(query: DiscussionQuery): Promise<ApiResponse<DiscussionData | null>> {
+  async getDiscussion(
+    query: DiscussionQuery,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<DiscussionData | null>> {
     const params = new URLSearchParams();
     params.append('subject_type', query.subjectType);
     params.append('sport', query.sport);
     params.append('subject_id', query.subjectId);
 
-    const response = await this.networkClient.get<ApiResponse<DiscussionData | null>>(
-      buildUrl(this.baseUrl, `/api/discussions?${params.toString()}`)
+    const url = buildUrl(this.baseUrl, `/api/discussions?${params.toString()}`);
+    const response = await this.getRequest<ApiResponse<DiscussionData | null>>(
+      'getDiscussion',
+      url,
+      { signal }
     );
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get discussion');
+      throw handleApiError(response, 'get discussion', url);
     }
     return response.data;
   }
@@ -895,7 +1879,8 @@ export class IndexerClient {
    */
   async getDiscussionComments(
     discussionId: number,
-    filters?: DiscussionCommentsFilters
+    filters?: DiscussionCommentsFilters,
+    signal?: AbortSignal
   ): Promise<ApiResponse<DiscussionCommentsResponse>> {
     const params = new URLSearchParams();
     if (filters?.page) params.append('page', filters.page.toString());
@@ -905,43 +1890,245 @@ export class IndexerClient {
     const queryString = params.toString();
     const path = `/api/discussions/${discussionId}/comments${queryString ? `?${queryString}` : ''}`;
 
-    const response = await this.networkClient.get<ApiResponse<DiscussionCommentsResponse>>(
-      buildUrl(this.baseUrl, path)
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<ApiResponse<DiscussionCommentsResponse>>(
+      'getDiscussionComments',
+      url,
+      { signal }
     );
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'get discussion comments');
+      throw handleApiError(response, 'get discussion comments', url);
     }
-    return response.data;
+    return this.validate(response.data, discussionCommentsResponse, 'get discussion comments', url);
   }
 
   /**
    * Post a comment to a discussion (creates discussion lazily if needed).
    * POST /api/discussions/comments
    */
-  async postComment(token: string, body: PostCommentRequest): Promise<ApiResponse<CommentData>> {
-    const response = await this.networkClient.post<ApiResponse<CommentData>>(
-      buildUrl(this.baseUrl, '/api/discussions/comments'),
-      body,
-      { headers: { Authorization: `Bearer ${token}` } }
-    );
+  async postComment(
+    token: string,
+    body: PostCommentRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CommentData>> {
+    const url = buildUrl(this.baseUrl, '/api/discussions/comments');
+    const response = await this.postRequest<ApiResponse<CommentData>>('postComment', url, body, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal,
+    });
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'post comment');
+      throw handleApiError(response, 'post comment', url);
     }
-    return response.data;
+    return this.validate(response.data, apiResponseOf(commentData), 'post comment', url);
   }
 
   /**
    * Soft-delete a comment (author or admin only).
    * DELETE /api/discussions/comments/:id
    */
-  async deleteComment(token: string, commentId: number): Promise<ApiResponse<{ message: string }>> {
-    const response = await this.networkClient.delete<ApiResponse<{ message: string }>>(
-      buildUrl(this.baseUrl, `/api/discussions/comments/${commentId}`),
-      { headers: { Authorization: `Bearer ${token}` } }
+  async deleteComment(
+    token: string,
+    commentId: number,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ message: string }>> {
+    const url = buildUrl(this.baseUrl, `/api/discussions/comments/${commentId}`);
+    const response = await this.deleteRequest<ApiResponse<{ message: string }>>(
+      'deleteComment',
+      url,
+      { headers: { Authorization: `Bearer ${token}` }, signal }
+    );
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'delete comment', url);
+    }
+    return response.data;
+  }
+
+  /**
+   * Edit the content of a comment (author only).
+   * PUT /api/discussions/comments/:id
+   */
+  async editComment(
+    token: string,
+    commentId: number,
+    request: EditCommentRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CommentData>> {
+    const url = buildUrl(this.baseUrl, `/api/discussions/comments/${commentId}`);
+    const response = await this.putRequest<ApiResponse<CommentData>>('editComment', url, request, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal,
+    });
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'edit comment', url);
+    }
+    return this.validate(response.data, apiResponseOf(commentData), 'edit comment', url);
+  }
+
+  /**
+   * Reply to a comment; the reply is threaded under the parent comment.
+   * POST /api/discussions/comments/:id/replies
+   */
+  async replyToComment(
+    token: string,
+    parentId: number,
+    request: ReplyCommentRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CommentData>> {
+    const url = buildUrl(this.baseUrl, `/api/discussions/comments/${parentId}/replies`);
+    const response = await this.postRequest<ApiResponse<CommentData>>(
+      'replyToComment',
+      url,
+      request,
+      { headers: { Authorization: `Bearer ${token}` }, signal }
     );
     if (!response.ok || !response.data) {
-      throw handleApiError(response, 'delete comment');
+      throw handleApiError(response, 'reply to comment', url);
+    }
+    return this.validate(response.data, apiResponseOf(commentData), 'reply to comment', url);
+  }
+
+  /**
+   * List the reactions on a comment. Pass a token to learn which ones the
+   * signed-in wallet added (`reacted`).
+   * GET /api/discussions/comments/:id/reactions
+   */
+  async getCommentReactions(
+    commentId: number,
+    token?: string | null,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CommentReactionData[]>> {
+    const url = buildUrl(this.baseUrl, `/api/discussions/comments/${commentId}/reactions`);
+    const response = await this.getRequest<ApiResponse<CommentReactionData[]>>(
+      'getCommentReactions',
+      url,
+      { headers: token ? { Authorization: `Bearer ${token}` } : undefined, signal }
+    );
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get comment reactions', url);
     }
     return response.data;
   }
+
+  /**
+   * Add a reaction to a comment. Returns the comment's updated reactions.
+   * POST /api/discussions/comments/:id/reactions
+   */
+  async addReaction(
+    token: string,
+    commentId: number,
+    reaction: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CommentReactionData[]>> {
+    const url = buildUrl(this.baseUrl, `/api/discussions/comments/${commentId}/reactions`);
+    const response = await this.postRequest<ApiResponse<CommentReactionData[]>>(
+      'addReaction',
+      url,
+      { reaction },
+      { headers: { Authorization: `Bearer ${token}` }, signal }
+    );
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'add reaction', url);
+    }
+    return response.data;
+  }
+
+  /**
+   * Remove the signed-in wallet's reaction from a comment. Returns the comment's updated reactions.
+   * DELETE /api/discussions/comments/:id/reactions/:reaction
+   */
+  async removeReaction(
+    token: string,
+    commentId: number,
+    reaction: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CommentReactionData[]>> {
+    const url = buildUrl(
+      this.baseUrl,
+      `/api/discussions/comments/${commentId}/reactions/${encodeURIComponent(reaction)}`
+    );
+    const response = await this.deleteRequest<ApiResponse<CommentReactionData[]>>(
+      'removeReaction',
+      url,
+      { headers: { Authorization: `Bearer ${token}` }, signal }
+    );
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'remove reaction', url);
+    }
+    return response.data;
+  }
+
+  /**
+   * Report a comment to the moderators.
+   * POST /api/discussions/comments/:id/report
+   */
+  async reportComment(
+    token: string,
+    commentId: number,
+    request: ReportCommentRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ message: string }>> {
+    const url = buildUrl(this.baseUrl, `/api/discussions/comments/${commentId}/report`);
+    const response = await this.postRequest<ApiResponse<{ message: string }>>(
+      'reportComment',
+      url,
+      request,
+      { headers: { Authorization: `Bearer ${token}` }, signal }
+    );
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'report comment', url);
+    }
+    return response.data;
+  }
+
+  /**
+   * Set the moderation status of a comment (admin only).
+   * PUT /api/discussions/comments/:id/moderation
+   */
+  async moderateComment(
+    token: string,
+    commentId: number,
+    request: ModerateCommentRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CommentData>> {
+    const url = buildUrl(this.baseUrl, `/api/discussions/comments/${commentId}/moderation`);
+    const response = await this.putRequest<ApiResponse<CommentData>>(
+      'moderateComment',
+      url,
+      request,
+      { headers: { Authorization: `Bearer ${token}` }, signal }
+    );
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'moderate comment', url);
+    }
+    return this.validate(response.data, apiResponseOf(commentData), 'moderate comment', url);
+  }
+
+  /**
+   * Get the moderation queue: comments across all discussions, filtered by status (admin only).
+   * GET /api/discussions/moderation?status=...&page=...&limit=...
+   */
+  async getModerationQueue(
+    token: string,
+    filters?: ModerationQueueFilters,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<DiscussionCommentsResponse>> {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+
+    const queryString = params.toString();
+    const path = `/api/discussions/moderation${queryString ? `?${queryString}` : ''}`;
+
+    const url = buildUrl(this.baseUrl, path);
+    const response = await this.getRequest<ApiResponse<DiscussionCommentsResponse>>(
+      'getModerationQueue',
+      url,
+      { headers: { Authorization: `Bearer ${token}` }, signal }
+    );
+    if (!response.ok || !response.data) {
+      throw handleApiError(response, 'get moderation queue', url);
+    }
+    return this.validate(response.data, discussionCommentsResponse, 'get moderation queue', url);
+  }
 }
@@ -0,0 +1,451 @@
+/**
+ * @fileoverview Framework-agnostic client for the indexer's SSE endpoint
+ * @description Wraps an EventSource subscribed to one channel, parses the
+ * SSEMessage union and fans data updates out to typed listeners. Used by the
+ * useSSE hook and IndexerService, and usable directly from Node scripts or
+ * other UI frameworks.
+ */
+
+import { getRetryDelay } from './request-policy';
+import type {
+  SSEConnectionState,
+  SSEDataUpdateMessage,
+  SSEEventMessage,
+  SSEEventType,
+  SSEFilters,
+  SSEMessage,
+  SSEReplayUnavailableMessage,
+  SubscriptionChannel,
+} from '../types';
+
+/**
+ * Creates the EventSource for a subscription URL. Inject one where no global
+ * EventSource exists (e.g. Node) or to drive the stream from a fake in tests.
+ */
+export type EventSourceFactory = (url: string) => EventSource;
+
+/**
+ * Options for {@link IndexerEventStream}
+ */
+export interface IndexerEventStreamOptions {
+  /** Subscription channel (default: 'markets') */
+  channel?: SubscriptionChannel;
+  /** Subscription filters */
+  filters?: SSEFilters;
+  /** Whether to automatically reconnect on disconnect (default: true) */
+  autoReconnect?: boolean;
+  /** Base reconnection delay in ms; doubled on every attempt (default: 3000) */
+  reconnectDelay?: number;
+  /** Upper bound in ms for a single reconnection delay (default: 30000) */
+  maxReconnectDelay?: number;
+  /** Randomize each delay between 0 and the computed backoff (default: true) */
+  reconnectJitter?: boolean;
+  /** Maximum reconnection attempts (default: 5) */
+  maxReconnectAttempts?: number;
+  /**
+   * Force a reconnect when no message (heartbeats included) arrives for this
+   * many ms, so half-open connections are detected. 0 disables (default: 60000)
+   */
+  heartbeatTimeout?: number;
+  /** Reconnect at once when the browser goes online or the tab becomes visible (default: true) */
+  resumeOnActivity?: boolean;
+  /**
+   * Ask the server to replay events missed while disconnected by sending the
+   * time of the last one as a `since` query param on reconnect (default: true)
+   */
+  replay?: boolean;
+  /** EventSource factory (default: the global EventSource) */
+  createEventSource?: EventSourceFactory;
+}
+
+/**
+ * Handler for data updates delivered by {@link IndexerEventStream.on}
+ */
+export type SSEEventHandler<E extends SSEEventType = SSEEventType> = (
+  message: SSEEventMessage<E>
+) => void;
+
+/** Number of recent event keys remembered to drop events delivered twice around a reconnect */
+const DEDUPE_WINDOW = 500;
+
+const defaultEventSourceFactory: EventSourceFactory = url => {
+  if (typeof EventSource === 'undefined') {
+    throw new Error('EventSource is not available; pass createEventSource');
+  }
+  return new EventSource(url);
+};
+
+/**
+ * Client for a single SSE subscription to the indexer.
+ *
+ * @example
+ * ```ts
+ * const stream = new IndexerEventStream('http://localhost:42069', {
+ *   channel: 'market',
+ *   filters: { marketId: '1-market-123' },
+ * });
+ *
+ * const off = stream.on('PredictionPlaced', message => console.log(message.data));
+ * stream.onStateChange(state => console.log('SSE', state));
+ * stream.connect();
+ *
+ * // Later
+ * off();
+ * stream.disconnect();
+ * ```
+ */
+export class IndexerEventStream {
+  private readonly endpointUrl: string;
+  private readonly channel: SubscriptionChannel;
+  private readonly filters: SSEFilters;
+  private readonly autoReconnect: boolean;
+  private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+  private readonly reconnectJitter: boolean;
+  private readonly maxReconnectAttempts: number;
+  private readonly heartbeatTimeout: number;
+  private readonly resumeOnActivity: boolean;
+  private readonly createEventSource: EventSourceFactory;
+
+  private eventSource: EventSource | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private active = false;
+  private connectionState: SSEConnectionState = 'disconnected';
+  private currentClientId: string | null = null;
+  private currentSubscriptionId: string | null = null;
+  private readonly replay: boolean;
+  private lastTimestamp: number | null = null;
+  private readonly seenEvents = new Set<string>();
+
+  private readonly eventHandlers = new Map<SSEEventType | '*', Set<SSEEventHandler>>();
+  private readonly stateHandlers = new Set<(state: SSEConnectionState) => void>();
+  private readonly errorHandlers = new Set<(error: Error) => void>();
+  private readonly gapHandlers = new Set<(message: SSEReplayUnavailableMessage) => void>();
+
+  /**
+   * @param endpointUrl - Base URL of the indexer (e.g. 'http://localhost:42069')
+   * @param options - Channel, filters, reconnection settings and EventSource factory
+   */
+  constructor(endpointUrl: string, options: IndexerEventStreamOptions = {}) {
+    this.endpointUrl = endpointUrl;
+    this.channel = options.channel ?? 'markets';
+    this.filters = options.filters ?? {};
+    this.autoReconnect = options.autoReconnect ?? true;
+    this.reconnectDelay = options.reconnectDelay ?? 3000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30_000;
+    this.reconnectJitter = options.reconnectJitter ?? true;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.heartbeatTimeout = options.heartbeatTimeout ?? 60_000;
+    this.resumeOnActivity = options.resumeOnActivity ?? true;
+    this.replay = options.replay ?? true;
+    this.createEventSource = options.createEventSource ?? defaultEventSourceFactory;
+  }
+
+  /** Current connection state */
+  get state(): SSEConnectionState {
+    return this.connectionState;
+  }
+
+  /** Client ID assigned by the server, once connected */
+  get clientId(): string | null {
+    return this.currentClientId;
+  }
+
+  /** Subscription ID assigned by the server, once connected */
+  get subscriptionId(): string | null {
+    return this.currentSubscriptionId;
+  }
+
+  /**
+   * Timestamp of the last event received (or of the first connection, before
+   * any event). Sent as `since` when reconnecting with replay enabled.
+   */
+  get lastEventTimestamp(): number | null {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Listen for data updates of one event type, or of every type with '*'.
+   * The handler's message is typed by event type (see SSEEventDataMap).
+   *
+   * @returns A function that removes the listener
+   */
+  on<E extends SSEEventType>(eventType: E, handler: SSEEventHandler<E>): () => void;
+  on(eventType: '*', handler: SSEEventHandler): () => void;
+  on(eventType: SSEEventType | '*', handler: SSEEventHandler<SSEEventType>): () => void {
+    let handlers = this.eventHandlers.get(eventType);
+    if (!handlers) {
+      handlers = new Set();
+      this.eventHandlers.set(eventType, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Listen for connection state changes.
+   *
+   * @returns A function that removes the listener
+   */
+  onStateChange(handler: (state: SSEConnectionState) => void): () => void {
+    this.stateHandlers.add(handler);
+    return () => {
+      this.stateHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Listen for connection errors.
+   *
+   * @returns A function that removes the listener
+   */
+  onError(handler: (error: Error) => void): () => void {
+    this.errorHandlers.add(handler);
+    return () => {
+      this.errorHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Listen for replay gaps: the server could not replay the events missed
+   * while disconnected, so data derived from earlier events must be refetched.
+   *
+   * @returns A function that removes the listener
+   */
+  onGap(handler: (message: SSEReplayUnavailableMessage) => void): () => void {
+    this.gapHandlers.add(handler);
+    return () => {
+      this.gapHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Open the connection, replacing any existing one.
+   */
+  connect(): void {
+    this.closeEventSource();
+    if (!this.active) {
+      this.active = true;
+      this.addActivityListeners();
+    }
+
+    const url = new URL(`${this.endpointUrl}/api/events`);
+    url.searchParams.set('channel', this.channel);
+    if (this.filters.marketId) url.searchParams.set('marketId', this.filters.marketId);
+    if (this.filters.dealer) url.searchParams.set('dealer', this.filters.dealer);
+    if (this.filters.user) url.searchParams.set('user', this.filters.user);
+    if (this.filters.category) url.searchParams.set('category', this.filters.category);
+    if (this.replay && this.lastTimestamp !== null) {
+      url.searchParams.set('since', String(this.lastTimestamp));
+    }
+
+    this.setState('connecting');
+
+    try {
+      const eventSource = this.createEventSource(url.toString());
+      this.eventSource = eventSource;
+
+      // Handle all message types
+      eventSource.onmessage = this.handleMessage;
+
+      // Handle specific event types
+      eventSource.addEventListener('connected', this.handleMessage);
+      eventSource.addEventListener('data_update', this.handleMessage);
+      eventSource.addEventListener('heartbeat', this.resetHeartbeatTimer);
+      eventSource.addEventListener('subscription_confirmed', this.handleMessage);
+      eventSource.addEventListener('replay_unavailable', this.handleMessage);
+
+      eventSource.onerror = this.handleError;
+      this.resetHeartbeatTimer();
+    } catch (err) {
+      this.emitError(err instanceof Error ? err : new Error('Failed to connect to SSE'));
+      this.setState('error');
+    }
+  }
+
+  /**
+   * Close the connection and cancel any pending reconnection.
+   */
+  disconnect(): void {
+    this.closeEventSource();
+    if (this.active) {
+      this.active = false;
+      this.removeActivityListeners();
+    }
+    this.currentClientId = null;
+    this.currentSubscriptionId = null;
+    this.setState('disconnected');
+  }
+
+  /**
+   * Reconnect immediately, resetting the reconnection attempt counter.
+   */
+  reconnect(): void {
+    this.reconnectAttempts = 0;
+    this.disconnect();
+    this.connect();
+  }
+
+  private closeEventSource(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+  }
+
+  private setState(state: SSEConnectionState): void {
+    this.connectionState = state;
+    this.stateHandlers.forEach(handler => handler(state));
+  }
+
+  private emitError(error: Error): void {
+    this.errorHandlers.forEach(handler => handler(error));
+  }
+
+  private addActivityListeners(): void {
+    if (!this.resumeOnActivity) return;
+    if (typeof window !== 'undefined') window.addEventListener('online', this.resume);
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private removeActivityListeners(): void {
+    if (!this.resumeOnActivity) return;
+    if (typeof window !== 'undefined') window.removeEventListener('online', this.resume);
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') this.resume();
+  };
+
+  /**
+   * Reconnect immediately if the connection is down, skipping any pending
+   * backoff and restarting the attempt count (even after giving up).
+   */
+  private resume = (): void => {
+    if (!this.active || this.connectionState === 'connected') return;
+    this.reconnectAttempts = 0;
+    this.connect();
+  };
+
+  // Any message proves the connection is alive; silence past the timeout means it is half-open
+  private resetHeartbeatTimer = (): void => {
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    if (this.heartbeatTimeout <= 0) return;
+
+    this.heartbeatTimer = setTimeout(() => {
+      this.heartbeatTimer = null;
+      // A half-open source never recovers on its own, so drop it even without a reconnect
+      this.closeEventSource();
+      this.fail(new Error(`No SSE message for ${this.heartbeatTimeout}ms`));
+    }, this.heartbeatTimeout);
+  };
+
+  private handleMessage = (messageEvent: MessageEvent): void => {
+    this.resetHeartbeatTimer();
+
+    let message: SSEMessage;
+    try {
+      message = JSON.parse(messageEvent.data);
+    } catch (err) {
+      console.error('[SSE] Failed to parse message:', err);
+      return;
+    }
+
+    if (message.type === 'connected') {
+      this.currentClientId = message.clientId;
+      this.currentSubscriptionId = message.subscriptionId;
+      this.reconnectAttempts = 0;
+      // Until an event arrives, replay from when the first connection opened
+      this.lastTimestamp ??= message.timestamp;
+      this.setState('connected');
+    } else if (message.type === 'subscription_confirmed') {
+      this.currentSubscriptionId = message.subscriptionId;
+    } else if (message.type === 'replay_unavailable') {
+      this.gapHandlers.forEach(handler => handler(message));
+    } else if (message.type === 'data_update') {
+      if (this.isDuplicate(message, messageEvent.lastEventId)) return;
+      this.lastTimestamp = Math.max(this.lastTimestamp ?? 0, message.timestamp);
+
+      // Payloads follow the server's per-event contract (SSEEventDataMap)
+      const event = message as SSEEventMessage;
+      this.eventHandlers.get(event.eventType)?.forEach(handler => handler(event));
+      this.eventHandlers.get('*')?.forEach(handler => handler(event));
+    }
+    // Heartbeat messages are handled silently
+  };
+
+  /**
+   * Whether an event was already delivered, e.g. before a reconnect and again
+   * in the replay. Uses the SSE event id when the server sends one.
+   */
+  private isDuplicate(message: SSEDataUpdateMessage, eventId?: string): boolean {
+    const key =
+      eventId ||
+      `${message.timestamp}:${message.eventType}:${JSON.stringify(message.data ?? null)}`;
+    if (this.seenEvents.has(key)) return true;
+
+    this.seenEvents.add(key);
+    if (this.seenEvents.size > DEDUPE_WINDOW) {
+      this.seenEvents.delete(this.seenEvents.values().next().value as string);
+    }
+    return false;
+  }
+
+  private handleError = (): void => {
+    this.fail(new Error('SSE connection error'));
+  };
+
+  private fail(error: Error): void {
+    // A reconnect is already scheduled; further errors must not stack timers
+    if (this.reconnectTimeout) return;
+
+    this.setState('error');
+    this.emitError(error);
+    if (!this.autoReconnect) return;
+
+    // Close the failed source so the browser's own retry does not race ours
+    this.closeEventSource();
+
+    // Attempt reconnection
+    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      const delay = getRetryDelay(
+        {
+          maxRetries: this.maxReconnectAttempts,
+          baseDelay: this.reconnectDelay,
+          maxDelay: this.maxReconnectDelay,
+          jitter: this.reconnectJitter,
+        },
+        this.reconnectAttempts
+      );
+      this.reconnectAttempts++;
+      const attempt = `${this.reconnectAttempts}/${this.maxReconnectAttempts}`;
+      console.log(`[SSE] Reconnecting in ${Math.round(delay)}ms (attempt ${attempt})...`);
+
+      this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect();
+      }, delay);
+    } else {
+      console.error('[SSE] Max reconnection attempts reached');
+      this.setState('disconnected');
+    }
+  }
+}
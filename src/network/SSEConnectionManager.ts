@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Shared, ref-counted SSE connections
+ * @description Subscriptions with the same channel and filters share a single
+ * IndexerEventStream. The connection opens with the first subscriber, events
+ * fan out to every subscriber, and the connection closes when the last one leaves.
+ * Per-market subscriptions all share the 'markets' connection and are filtered on
+ * the client, so a page of market cards stays within the browser's connection limit.
+ */
+
+import { IndexerEventStream } from './IndexerEventStream';
+import type { IndexerEventStreamOptions } from './IndexerEventStream';
+import type {
+  SSEConnectionState,
+  SSEEventMessage,
+  SSEFilters,
+  SSEReplayUnavailableMessage,
+  SubscriptionChannel,
+} from '../types';
+
+/**
+ * Connection settings shared by every stream a manager opens
+ */
+export type SSEConnectionManagerOptions = Omit<IndexerEventStreamOptions, 'channel' | 'filters'>;
+
+/**
+ * Callbacks for one subscriber of a shared connection
+ */
+export interface SSESubscriber {
+  /** Called for every data update on the connection */
+  onEvent?: (event: SSEEventMessage) => void;
+  /** Called when the shared connection changes state */
+  onStateChange?: (state: SSEConnectionState) => void;
+  /** Called when the shared connection reports an error */
+  onError?: (error: Error) => void;
+  /** Called when the server cannot replay events missed during a reconnect */
+  onGap?: (message: SSEReplayUnavailableMessage) => void;
+}
+
+/**
+ * A subscriber's handle on a shared connection
+ */
+export interface SSESubscriptionHandle {
+  /** Current state of the shared connection */
+  readonly state: SSEConnectionState;
+  /** Client ID assigned by the server */
+  readonly clientId: string | null;
+  /** Server subscription ID the subscriber's events are delivered under */
+  readonly subscriptionId: string | null;
+  /** Reconnect the shared connection (affects every subscriber) */
+  reconnect(): void;
+  /** Stop receiving events; closes the connection when no subscribers remain */
+  unsubscribe(): void;
+}
+
+interface SharedConnection {
+  stream: IndexerEventStream;
+  subscribers: Set<SSESubscriber>;
+}
+
+/** Market an event belongs to, when its payload names one */
+function getEventMarketId(message: SSEEventMessage): string | undefined {
+  const data = message.data as { marketId?: unknown } | null | undefined;
+  return typeof data?.marketId === 'string' ? data.marketId : undefined;
+}
+
+/**
+ * Stable key for a channel and filter set; unset filters and key order are ignored.
+ */
+export function getSubscriptionKey(channel: SubscriptionChannel, filters: SSEFilters = {}): string {
+  const normalized = Object.entries(filters)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `${channel}:${JSON.stringify(normalized)}`;
+}
+
+/**
+ * Pools SSE connections by channel and filters.
+ *
+ * @example
+ * ```ts
+ * const manager = new SSEConnectionManager('http://localhost:42069');
+ *
+ * // Both cards share one EventSource on the 'markets' channel
+ * const a = manager.subscribe('market', { marketId: '1-market-1' }, { onEvent: render });
+ * const b = manager.subscribe('market', { marketId: '1-market-2' }, { onEvent: log });
+ *
+ * a.unsubscribe();
+ * b.unsubscribe(); // connection closed
+ * ```
+ */
+export class SSEConnectionManager {
+  readonly endpointUrl: string;
+  private readonly options: SSEConnectionManagerOptions;
+  private readonly connections = new Map<string, SharedConnection>();
+
+  /**
+   * @param endpointUrl - Base URL of the indexer (e.g. 'http://localhost:42069')
+   * @param options - Reconnection settings and EventSource factory for every connection
+   */
+  constructor(endpointUrl: string, options: SSEConnectionManagerOptions = {}) {
+    this.endpointUrl = endpointUrl;
+    this.options = options;
+  }
+
+  /** Number of open (or reconnecting) connections */
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Subscribe to a channel, reusing an existing connection with the same filters.
+   * A 'market' subscription joins the shared 'markets' connection and only receives
+   * events whose `data.marketId` matches its filter.
+   *
+   * @param channel - Subscription channel
+   * @param filters - Subscription filters
+   * @param subscriber - Event, state and error callbacks
+   * @returns A handle exposing the connection state and an unsubscribe function
+   */
+  subscribe(
+    channel: SubscriptionChannel,
+    filters: SSEFilters = {},
+    subscriber: SSESubscriber = {}
+  ): SSESubscriptionHandle {
+    const { marketId, ...sharedFilters } = filters;
+    const pooled = channel === 'market' && marketId !== undefined && marketId !== '';
+    const connectionChannel: SubscriptionChannel = pooled ? 'markets' : channel;
+    const connectionFilters = pooled ? sharedFilters : filters;
+
+    const key = getSubscriptionKey(connectionChannel, connectionFilters);
+    let connection = this.connections.get(key);
+    const isNew = !connection;
+    if (!connection) {
+      connection = this.openConnection(connectionChannel, connectionFilters);
+      this.connections.set(key, connection);
+    }
+
+    // Wrap the callbacks so the same subscriber object can subscribe twice
+    const entry: SSESubscriber = { ...subscriber };
+    if (pooled && subscriber.onEvent) {
+      const { onEvent } = subscriber;
+      entry.onEvent = message => {
+        if (getEventMarketId(message) === marketId) onEvent(message);
+      };
+    }
+    connection.subscribers.add(entry);
+    if (isNew) connection.stream.connect();
+
+    const { stream, subscribers } = connection;
+    let active = true;
+
+    return {
+      get state() {
+        return stream.state;
+      },
+      get clientId() {
+        return stream.clientId;
+      },
+      get subscriptionId() {
+        return stream.subscriptionId;
+      },
+      reconnect: () => {
+        if (active) stream.reconnect();
+      },
+      unsubscribe: () => {
+        if (!active) return;
+        active = false;
+        subscribers.delete(entry);
+        if (subscribers.size === 0 && this.connections.get(key) === connection) {
+          this.connections.delete(key);
+          stream.disconnect();
+        }
+      },
+    };
+  }
+
+  /**
+   * Close every connection. Existing handles stop receiving events.
+   */
+  closeAll(): void {
+    this.connections.forEach(({ stream, subscribers }) => {
+      subscribers.clear();
+      stream.disconnect();
+    });
+    this.connections.clear();
+  }
+
+  private openConnection(channel: SubscriptionChannel, filters: SSEFilters): SharedConnection {
+    const stream = new IndexerEventStream(this.endpointUrl, { ...this.options, channel, filters });
+    const subscribers = new Set<SSESubscriber>();
+
+    stream.on('*', message => subscribers.forEach(subscriber => subscriber.onEvent?.(message)));
+    stream.onStateChange(state =>
+      subscribers.forEach(subscriber => subscriber.onStateChange?.(state))
+    );
+    stream.onError(error => subscribers.forEach(subscriber => subscriber.onError?.(error)));
+    stream.onGap(message => subscribers.forEach(subscriber => subscriber.onGap?.(message)));
+
+    return { stream, subscribers };
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Indexer client errors
+ * @description Error classes thrown by IndexerClient, with type guards so
+ * callers can branch on the failure kind without parsing messages.
+ *
+ * Hierarchy:
+ * - IndexerError
+ *   - IndexerHttpError (non-2xx response)
+ *     - IndexerNotFoundError (404)
+ *     - IndexerRateLimitError (429)
+ *     - IndexerValidationError (400, 422)
+ *   - IndexerNetworkError (no response: connection refused, DNS, timeout)
+ *   - IndexerResponseValidationError (2xx payload does not match the expected schema)
+ *   - IndexerCancelledError (aborted through an AbortSignal)
+ */
+
+/**
+ * Base class for every error thrown by IndexerClient.
+ */
+export class IndexerError extends Error {
+  /** Description of the failed operation (e.g. 'get market') */
+  readonly operation: string;
+
+  constructor(message: string, operation: string) {
+    super(message);
+    this.name = 'IndexerError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Options for constructing an {@link IndexerHttpError}.
+ */
+export interface IndexerHttpErrorOptions {
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText?: string;
+  /** Description of the failed operation */
+  operation: string;
+  /** Request URL, if known */
+  url?: string;
+  /** Parsed response body, if any */
+  body?: unknown;
+}
+
+/**
+ * Thrown when the indexer answers with a non-2xx status, or with a 2xx
+ * response that carries no data.
+ */
+export class IndexerHttpError extends IndexerError {
+  /** HTTP status code */
+  readonly status: number;
+  /** HTTP status text */
+  readonly statusText: string | undefined;
+  /** Request URL, if known */
+  readonly url: string | undefined;
+  /** Parsed response body (typically `{ success: false, error: string }`) */
+  readonly body: unknown;
+
+  constructor(message: string, options: IndexerHttpErrorOptions) {
+    super(message, options.operation);
+    this.name = 'IndexerHttpError';
+    this.status = options.status;
+    this.statusText = options.statusText;
+    this.url = options.url;
+    this.body = options.body;
+  }
+}
+
+/**
+ * Thrown when the requested resource does not exist (HTTP 404).
+ */
+export class IndexerNotFoundError extends IndexerHttpError {
+  constructor(message: string, options: IndexerHttpErrorOptions) {
+    super(message, options);
+    this.name = 'IndexerNotFoundError';
+  }
+}
+
+/**
+ * Thrown when the indexer rate-limits the client (HTTP 429).
+ */
+export class IndexerRateLimitError extends IndexerHttpError {
+  /** Delay in ms requested by the Retry-After header, if present */
+  readonly retryAfter: number | undefined;
+
+  constructor(message: string, options: IndexerHttpErrorOptions & { retryAfter?: number }) {
+    super(message, options);
+    this.name = 'IndexerRateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Thrown when the indexer rejects the request parameters (HTTP 400 or 422).
+ */
+export class IndexerValidationError extends IndexerHttpError {
+  constructor(message: string, options: IndexerHttpErrorOptions) {
+    super(message, options);
+    this.name = 'IndexerValidationError';
+  }
+}
+
+/**
+ * Thrown when no HTTP response was received (connection refused, DNS
+ * failure, timeout). The original transport error is kept in `cause`.
+ */
+export class IndexerNetworkError extends IndexerError {
+  /** Request URL */
+  readonly url: string | undefined;
+  /** The error thrown by the NetworkClient */
+  readonly cause: unknown;
+
+  constructor(operation: string, url: string | undefined, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : 'Network request failed';
+    super(`Network Error: ${reason}${url ? ` [${url}]` : ''}`, operation);
+    this.name = 'IndexerNetworkError';
+    this.url = url;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown in strict validation mode when a response payload does not match the
+ * expected schema. `path` points at the offending field (e.g. 'response.data[3].status').
+ */
+export class IndexerResponseValidationError extends IndexerError {
+  /** Path to the offending field */
+  readonly path: string;
+  /** Description of the expected type */
+  readonly expected: string;
+  /** Description of the value received */
+  readonly received: string;
+  /** Request URL */
+  readonly url: string | undefined;
+
+  constructor(
+    operation: string,
+    url: string | undefined,
+    issue: { path: string; expected: string; received: string }
+  ) {
+    super(
+      `Invalid response for ${operation} at ${issue.path}: expected ${issue.expected}, received ${issue.received}`,
+      operation
+    );
+    this.name = 'IndexerResponseValidationError';
+    this.path = issue.path;
+    this.expected = issue.expected;
+    this.received = issue.received;
+    this.url = url;
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through its AbortSignal.
+ * Late responses for a cancelled request are discarded.
+ */
+export class IndexerCancelledError extends IndexerError {
+  constructor(operation: string) {
+    super(`Request cancelled: ${operation}`, operation);
+    this.name = 'IndexerCancelledError';
+  }
+}
+
+/**
+ * Check whether an error was thrown by IndexerClient.
+ */
+export function isIndexerError(error: unknown): error is IndexerError {
+  return error instanceof IndexerError;
+}
+
+/**
+ * Check whether an error is an {@link IndexerHttpError} (including its subclasses).
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.getMarket(id);
+ * } catch (error) {
+ *   if (isIndexerHttpError(error) && error.status >= 500) showRetryBanner();
+ * }
+ * ```
+ */
+export function isIndexerHttpError(error: unknown): error is IndexerHttpError {
+  return error instanceof IndexerHttpError;
+}
+
+/**
+ * Check whether an error is an {@link IndexerNotFoundError}.
+ */
+export function isIndexerNotFoundError(error: unknown): error is IndexerNotFoundError {
+  return error instanceof IndexerNotFoundError;
+}
+
+/**
+ * Check whether an error is an {@link IndexerRateLimitError}.
+ */
+export function isIndexerRateLimitError(error: unknown): error is IndexerRateLimitError {
+  return error instanceof IndexerRateLimitError;
+}
+
+/**
+ * Check whether an error is an {@link IndexerValidationError}.
+ */
+export function isIndexerValidationError(error: unknown): error is IndexerValidationError {
+  return error instanceof IndexerValidationError;
+}
+
+/**
+ * Check whether an error is an {@link IndexerNetworkError}.
+ */
+export function isIndexerNetworkError(error: unknown): error is IndexerNetworkError {
+  return error instanceof IndexerNetworkError;
+}
+
+/**
+ * Check whether an error is an {@link IndexerResponseValidationError}.
+ */
+export function isIndexerResponseValidationError(
+  error: unknown
+): error is IndexerResponseValidationError {
+  return error instanceof IndexerResponseValidationError;
+}
+
+/**
+ * Check whether an error is an {@link IndexerCancelledError}.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.getMarket(id, controller.signal);
+ * } catch (error) {
+ *   if (isIndexerCancelledError(error)) return; // navigated away
+ *   throw error;
+ * }
+ * ```
+ */
+export function isIndexerCancelledError(error: unknown): error is IndexerCancelledError {
+  return error instanceof IndexerCancelledError;
+}
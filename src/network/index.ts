@@ -3,3 +3,11 @@
  */
 
 export * from './IndexerClient';
+export * from './IndexerEventStream';
+export * from './SSEConnectionManager';
+export type { IndexerEndpoint, RequestPolicy, RetryPolicy } from './request-policy';
+export { DEFAULT_ENDPOINT_TIMEOUTS } from './request-policy';
+export type { ResponseValidationOptions, ValidationIssue, ValidationMode } from './validation';
+export type { PaginationOptions } from './pagination';
+export { DEFAULT_PAGE_SIZE, fetchAll, getNextOffset } from './pagination';
+export * from './errors';
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Pagination helpers for IndexerClient list endpoints
+ * @description Walks limit/offset pages of a PaginatedResponse until the
+ * server reports no more items, yielding one item at a time.
+ */
+
+import type { PaginatedResponse, PaginationInfo } from '@sudobility/types';
+import { IndexerCancelledError } from './errors';
+
+/** Page size used by the iterators when neither `pageSize` nor `limit` is given. */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Options accepted by the IndexerClient `iterate*` methods.
+ */
+export interface PaginationOptions {
+  /** Number of items requested per page (default: the filter's `limit`, else 100). */
+  pageSize?: number;
+  /** Stop after yielding this many items. Omit to walk every page. */
+  maxItems?: number;
+  /** Optional AbortSignal; aborting stops iteration with an IndexerCancelledError. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch one page of results.
+ *
+ * @param limit - Number of items to request
+ * @param offset - Number of items to skip
+ * @param signal - Optional AbortSignal forwarded to the request
+ */
+export type PageFetcher<T> = (
+  limit: number,
+  offset: number,
+  signal?: AbortSignal
+) => Promise<PaginatedResponse<T>>;
+
+/**
+ * Whether another page may follow one holding `items` items.
+ * Prefers `hasNextPage`, then `totalCount`, and otherwise assumes a short page
+ * is the last one.
+ */
+function hasMorePages(
+  page: PaginatedResponse<unknown>,
+  items: number,
+  offset: number,
+  limit: number
+): boolean {
+  // Older indexer builds omit hasNextPage, so treat every field as optional
+  const pagination = page.pagination as Partial<PaginationInfo> | undefined;
+  if (typeof pagination?.hasNextPage === 'boolean') return pagination.hasNextPage;
+  if (typeof pagination?.totalCount === 'number') return offset + items < pagination.totalCount;
+  return items >= limit;
+}
+
+/**
+ * Compute the offset of the page following `page`.
+ *
+ * @param page - The page just received
+ * @param offset - The offset `page` was requested with
+ * @param limit - The limit `page` was requested with
+ * @returns The next offset, or undefined when `page` was the last one
+ */
+export function getNextOffset(
+  page: PaginatedResponse<unknown>,
+  offset: number,
+  limit: number
+): number | undefined {
+  const items = page.data?.length ?? 0;
+  if (items === 0 || !hasMorePages(page, items, offset, limit)) return undefined;
+  return offset + items;
+}
+
+/**
+ * Iterate over every item of a paginated endpoint.
+ *
+ * @param fetchPage - Fetches a single page
+ * @param startOffset - Offset of the first page (the filter's `offset`, if any)
+ * @param options - Page size, item cap and abort signal
+ * @param operation - Operation name used in the cancellation error
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  startOffset: number,
+  options: PaginationOptions,
+  operation: string
+): AsyncGenerator<T, void, undefined> {
+  const { pageSize = DEFAULT_PAGE_SIZE, maxItems = Infinity, signal } = options;
+  let offset = startOffset;
+  let yielded = 0;
+
+  while (yielded < maxItems) {
+    if (signal?.aborted) throw new IndexerCancelledError(operation);
+
+    const limit = Math.min(pageSize, maxItems - yielded);
+    const page = await fetchPage(limit, offset, signal);
+
+    for (const item of page.data ?? []) {
+      if (yielded >= maxItems) return;
+      yield item;
+      yielded++;
+    }
+
+    const nextOffset = getNextOffset(page, offset, limit);
+    if (nextOffset === undefined) return;
+    offset = nextOffset;
+  }
+}
+
+/**
+ * Collect every item produced by an async iterable into an array.
+ *
+ * @example
+ * ```ts
+ * const markets = await fetchAll(client.iterateMarkets({ status: 'Active' }));
+ * ```
+ */
+export async function fetchAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
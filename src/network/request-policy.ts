@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Request policy for IndexerClient
+ * @description Timeout, retry and backoff configuration applied to every
+ * IndexerClient request. Retries are limited to idempotent GET requests that
+ * fail with a 5xx or 429 status, or with a transport-level network error.
+ */
+
+import type { NetworkResponse } from '@sudobility/types';
+import type { IndexerClient } from './IndexerClient';
+import { IndexerCancelledError } from './errors';
+
+/**
+ * Name of a public IndexerClient method (e.g. 'getMarkets', 'triggerLock').
+ * Used to key per-endpoint settings in {@link RequestPolicy}.
+ */
+export type IndexerEndpoint = {
+  [K in keyof IndexerClient]: IndexerClient[K] extends (...args: never[]) => Promise<unknown>
+    ? K
+    : never;
+}[keyof IndexerClient];
+
+/**
+ * Exponential backoff settings for retried requests.
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the initial attempt (default: 3). */
+  maxRetries?: number;
+  /** Base delay in ms; doubled on every attempt (default: 300). */
+  baseDelay?: number;
+  /** Upper bound in ms for a single delay, including Retry-After waits (default: 10000). */
+  maxDelay?: number;
+  /** Randomize each delay between 0 and the computed backoff ("full jitter", default: true). */
+  jitter?: boolean;
+}
+
+/**
+ * Optional request policy accepted by the IndexerClient constructor.
+ *
+ * @example
+ * ```ts
+ * const client = new IndexerClient(url, networkClient, {
+ *   timeout: 10_000,
+ *   timeouts: { getSportsData: 30_000 },
+ *   retry: { maxRetries: 2 },
+ * });
+ * ```
+ */
+export interface RequestPolicy {
+  /** Default timeout in ms for every request. Omit to use the NetworkClient default. */
+  timeout?: number;
+  /** Per-endpoint timeouts in ms, overriding `timeout` and {@link DEFAULT_ENDPOINT_TIMEOUTS}. */
+  timeouts?: Partial<Record<IndexerEndpoint, number>>;
+  /** Retry settings for idempotent GET requests. Omit or pass `false` to disable retries. */
+  retry?: RetryPolicy | false;
+}
+
+/**
+ * Built-in per-endpoint timeouts. The trigger endpoints wait for an on-chain
+ * transaction to be mined, so they need far more time than a regular read.
+ */
+export const DEFAULT_ENDPOINT_TIMEOUTS: Partial<Record<IndexerEndpoint, number>> = {
+  triggerLock: 120_000,
+  triggerResolve: 120_000,
+};
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  jitter: true,
+};
+
+/**
+ * Resolve the effective timeout for an endpoint.
+ *
+ * @param policy - The client's request policy
+ * @param endpoint - The IndexerClient method being called
+ * @returns The timeout in ms, or undefined to defer to the NetworkClient
+ */
+export function getEndpointTimeout(
+  policy: RequestPolicy,
+  endpoint: IndexerEndpoint
+): number | undefined {
+  return policy.timeouts?.[endpoint] ?? DEFAULT_ENDPOINT_TIMEOUTS[endpoint] ?? policy.timeout;
+}
+
+/**
+ * Merge a user-supplied retry policy with the defaults.
+ *
+ * @param policy - The client's request policy
+ * @returns The complete retry policy, or null when retries are disabled
+ */
+export function resolveRetryPolicy(policy: RequestPolicy): Required<RetryPolicy> | null {
+  if (!policy.retry) return null;
+  return { ...DEFAULT_RETRY_POLICY, ...policy.retry };
+}
+
+/**
+ * Whether an HTTP status is worth retrying (rate limited or server error).
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Whether a thrown transport error is worth retrying.
+ * Errors carrying an HTTP status (e.g. NetworkError from WebNetworkClient) are
+ * classified by status; aborted requests are never retried; anything else is
+ * treated as a network failure.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error && typeof error === 'object') {
+    if (error instanceof IndexerCancelledError) return false;
+    if ('name' in error && error.name === 'AbortError') return false;
+    if ('status' in error && typeof error.status === 'number') {
+      return isRetryableStatus(error.status);
+    }
+  }
+  return true;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ *
+ * @param headers - Headers of the 429/503 response
+ * @returns The delay in ms, or undefined if the header is absent or invalid
+ */
+export function parseRetryAfter(headers: Record<string, string> | undefined): number | undefined {
+  const header = Object.entries(headers ?? {}).find(
+    ([name]) => name.toLowerCase() === 'retry-after'
+  )?.[1];
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Compute the delay before the next retry.
+ * Honours Retry-After on 429 responses, otherwise uses exponential backoff.
+ *
+ * @param retry - The resolved retry policy
+ * @param attempt - Zero-based index of the attempt that just failed
+ * @param response - The failed response, if the request did not throw
+ * @returns The delay in ms
+ */
+export function getRetryDelay(
+  retry: Required<RetryPolicy>,
+  attempt: number,
+  response?: NetworkResponse<unknown>
+): number {
+  if (response?.status === 429) {
+    const retryAfter = parseRetryAfter(response.headers);
+    if (retryAfter !== undefined) return Math.min(retryAfter, retry.maxDelay);
+  }
+
+  const backoff = Math.min(retry.maxDelay, retry.baseDelay * 2 ** attempt);
+  return retry.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Settle with the given promise, or reject with an IndexerCancelledError as
+ * soon as `signal` aborts. This is the fallback for NetworkClients that do not
+ * honour AbortSignal: the request keeps running, but its result is ignored.
+ *
+ * @param promise - The in-flight request
+ * @param signal - Optional AbortSignal controlling the request
+ * @param operation - Operation name used in the cancellation error
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  operation: string
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new IndexerCancelledError(operation));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new IndexerCancelledError(operation));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Resolve after the given number of milliseconds.
+ * Rejects early with an IndexerCancelledError if `signal` aborts.
+ */
+export function delay(ms: number, signal?: AbortSignal, operation = 'delay'): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const wait = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return raceAbort(wait, signal, operation).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Runtime response validation for IndexerClient
+ * @description Lightweight hand-written validators for the indexer payloads the
+ * UI depends on most. Validation is opt-in: in `strict` mode a schema mismatch
+ * throws IndexerResponseValidationError, in `lenient` mode it is reported and
+ * the data is passed through unchanged.
+ *
+ * Validators only check the fields the client relies on; unknown extra fields
+ * are always allowed so additive schema changes never fail validation.
+ */
+
+/**
+ * How IndexerClient treats responses that do not match the expected schema.
+ * - `off`: no validation (default)
+ * - `strict`: throw an IndexerResponseValidationError
+ * - `lenient`: report the issue and return the data unchanged
+ */
+export type ValidationMode = 'off' | 'strict' | 'lenient';
+
+/**
+ * A single schema mismatch found in a response payload.
+ */
+export interface ValidationIssue {
+  /** Path to the offending field (e.g. 'response.data[3].status') */
+  path: string;
+  /** Description of the expected type (e.g. 'string') */
+  expected: string;
+  /** Description of the value received (e.g. 'undefined') */
+  received: string;
+}
+
+/**
+ * Response validation settings accepted by the IndexerClient constructor.
+ *
+ * @example
+ * ```ts
+ * const client = new IndexerClient(url, networkClient, {}, {
+ *   mode: import.meta.env.DEV ? 'strict' : 'lenient',
+ *   onIssue: (issue, operation) => reportSchemaDrift(operation, issue),
+ * });
+ * ```
+ */
+export interface ResponseValidationOptions {
+  /** Validation mode (default: 'off') */
+  mode?: ValidationMode;
+  /** Called for every issue in lenient mode. Defaults to a console warning. */
+  onIssue?: (issue: ValidationIssue, operation: string) => void;
+}
+
+/**
+ * Check a value, returning the first issue found or null when it is valid.
+ */
+export type Validator = (value: unknown, path: string) => ValidationIssue | null;
+
+/**
+ * Describe a value for the `received` field of an issue.
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive(expected: 'string' | 'number' | 'boolean'): Validator {
+  return (value, path) =>
+    typeof value === expected ? null : { path, expected, received: describeValue(value) };
+}
+
+const string = primitive('string');
+const number = primitive('number');
+const boolean = primitive('boolean');
+
+/** Accept either validator (used for ids/timestamps serialised as string or number). */
+function either(a: Validator, b: Validator): Validator {
+  return (value, path) => {
+    const first = a(value, path);
+    const second = first && b(value, path);
+    if (!first || !second) return null;
+    return { path, expected: `${first.expected} | ${second.expected}`, received: first.received };
+  };
+}
+
+/** Accept null and undefined in addition to the wrapped validator (`Optional<T>`). */
+function maybe(validator: Validator): Validator {
+  return (value, path) => (value === null || value === undefined ? null : validator(value, path));
+}
+
+function arrayOf(item: Validator): Validator {
+  return (value, path) => {
+    if (!Array.isArray(value)) return { path, expected: 'array', received: describeValue(value) };
+    for (let i = 0; i < value.length; i++) {
+      const issue = item(value[i], `${path}[${i}]`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+function object(shape: Record<string, Validator>): Validator {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { path, expected: 'object', received: describeValue(value) };
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, validator] of Object.entries(shape)) {
+      const issue = validator(record[key], `${path}.${key}`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+// =============================================================================
+// PAYLOAD VALIDATORS
+// =============================================================================
+
+/** Validates MarketData (also used for MarketDetailData, which extends it). */
+export const marketData = object({
+  id: string,
+  chainId: number,
+  marketId: string,
+  dealerNftTokenId: string,
+  dealerAddress: string,
+  title: string,
+  description: maybe(string),
+  category: string,
+  status: string,
+  outcome: maybe(string),
+  createdAt: string,
+  resolvedAt: maybe(string),
+});
+
+/** Validates PredictionData. */
+export const predictionData = object({
+  id: string,
+  chainId: number,
+  marketId: string,
+  userAddress: string,
+  amount: string,
+  percentage: number,
+  hasClaimed: boolean,
+  claimedAmount: maybe(string),
+  createdAt: string,
+});
+
+/** Validates DealerWithPermissionsData. */
+export const dealerWithPermissionsData = object({
+  id: string,
+  chainId: number,
+  tokenId: string,
+  ownerAddress: string,
+  permissions: maybe(arrayOf(object({}))),
+});
+
+/** Validates OracleRequestData. */
+export const oracleRequestData = object({
+  id: string,
+  chainId: number,
+  marketId: string,
+  requestId: string,
+  requestedAt: string,
+  respondedAt: maybe(string),
+  result: maybe(boolean),
+  timedOut: boolean,
+});
+
+/** Validates WalletFavoriteData. */
+export const walletFavoriteData = object({
+  id: number,
+  walletAddress: string,
+  category: string,
+  subcategory: string,
+  type: string,
+  itemId: string,
+  createdAt: either(number, string),
+});
+
+/** Validates CommentData. */
+export const commentData = object({
+  id: number,
+  content: string,
+  createdAt: string,
+});
+
+/**
+ * Validate an `ApiResponse<T>` envelope, checking `data` when present.
+ */
+export function apiResponseOf(data: Validator): Validator {
+  return object({ success: boolean, data: maybe(data) });
+}
+
+/**
+ * Validate a `PaginatedResponse<T>` envelope, checking every item in `data`.
+ */
+export function paginatedResponseOf(item: Validator): Validator {
+  return object({ success: boolean, data: maybe(arrayOf(item)) });
+}
+
+/**
+ * Validate an `ApiResponse<DiscussionCommentsResponse>` envelope.
+ */
+export const discussionCommentsResponse = apiResponseOf(object({ comments: arrayOf(commentData) }));
+
+/**
+ * Format an issue for logs and error messages.
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return `${issue.path}: expected ${issue.expected}, received ${issue.received}`;
+}
@@ -236,6 +236,30 @@ export interface WalletFavoritesFilters {
 
 // FavoriteCountsFilters is re-exported from @sudobility/heavymath_types above
 
+/**
+ * Query parameters for the wallet transactions endpoint (GET /api/wallet/:address/transactions).
+ */
+export interface WalletTransactionFilters {
+  /** Filter by chain-prefixed market ID. */
+  market?: string;
+  /** Maximum number of results to return. Defaults to 50 on the server. */
+  limit?: number;
+  /** Number of results to skip for pagination. Defaults to 0. */
+  offset?: number;
+}
+
+/**
+ * Query parameters for the wallet history endpoint (GET /api/wallet/:address/history).
+ */
+export interface WalletHistoryFilters {
+  /** Filter by chain-prefixed market ID. */
+  market?: string;
+  /** Maximum number of results to return. Defaults to 50 on the server. */
+  limit?: number;
+  /** Number of results to skip for pagination. Defaults to 0. */
+  offset?: number;
+}
+
 /**
  * Query parameters for the discussion comments endpoint (GET /api/discussions/:id/comments).
  */
@@ -245,6 +269,52 @@ export interface DiscussionCommentsFilters {
   sort?: 'newest' | 'oldest';
 }
 
+/**
+ * Query parameters for the moderation queue endpoint (GET /api/discussions/moderation).
+ */
+export interface ModerationQueueFilters {
+  /** Only comments with this moderation status (server default: all) */
+  status?: import('@sudobility/heavymath_types').ModerationStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Request body for editing a comment (PUT /api/discussions/comments/:id).
+ */
+export interface EditCommentRequest {
+  content: string;
+}
+
+/**
+ * Request body for replying to a comment (POST /api/discussions/comments/:id/replies).
+ */
+export interface ReplyCommentRequest {
+  content: string;
+}
+
+/**
+ * Request body for reporting a comment (POST /api/discussions/comments/:id/report).
+ */
+export interface ReportCommentRequest {
+  /** Short reason, e.g. "spam" or "abuse" */
+  reason: string;
+  /** Optional free-text details for the moderators */
+  details?: string;
+}
+
+/**
+ * One reaction on a comment, as listed by GET /api/discussions/comments/:id/reactions.
+ */
+export interface CommentReactionData {
+  /** Reaction identifier (typically an emoji) */
+  reaction: string;
+  /** Number of wallets that reacted with it */
+  count: number;
+  /** Whether the signed-in wallet reacted with it (false when not signed in) */
+  reacted: boolean;
+}
+
 /**
  * Query for looking up a discussion by its subject.
  */
@@ -391,6 +461,17 @@ export interface SSESubscriptionConfirmedMessage {
   channel: SubscriptionChannel;
 }
 
+/**
+ * SSE replay unavailable message
+ * Sent on reconnect when events since the requested `since` time are no longer
+ * retained, so clients must refetch instead of relying on replay
+ */
+export interface SSEReplayUnavailableMessage {
+  type: 'replay_unavailable';
+  since: number;
+  timestamp: number;
+}
+
 /**
  * Union of all SSE message types
  */
@@ -398,7 +479,8 @@ export type SSEMessage =
   | SSEConnectedMessage
   | SSEDataUpdateMessage
   | SSEHeartbeatMessage
-  | SSESubscriptionConfirmedMessage;
+  | SSESubscriptionConfirmedMessage
+  | SSEReplayUnavailableMessage;
 
 /**
  * SSE connection state
@@ -461,3 +543,43 @@ export interface ClaimEventData {
   amount: string;
   chainId: number;
 }
+
+/**
+ * Payload of events without a dedicated interface
+ */
+export type GenericEventData = Record<string, unknown>;
+
+/**
+ * Event data type for each SSE event type
+ */
+export interface SSEEventDataMap {
+  MarketCreated: MarketCreatedEventData;
+  MarketResolved: MarketResolvedEventData;
+  MarketCancelled: GenericEventData;
+  MarketAbandoned: GenericEventData;
+  PredictionPlaced: PredictionPlacedEventData;
+  PredictionUpdated: PredictionUpdatedEventData;
+  WinningsClaimed: ClaimEventData;
+  RefundClaimed: ClaimEventData;
+  DealerFeeSet: GenericEventData;
+  DealerFeesWithdrawn: GenericEventData;
+  LicenseIssued: GenericEventData;
+  LicenseTransferred: GenericEventData;
+  PermissionsSet: GenericEventData;
+  OracleRegistered: GenericEventData;
+  OracleDataUpdated: GenericEventData;
+  CommentAdded: GenericEventData;
+  CommentDeleted: GenericEventData;
+}
+
+/**
+ * SSE data update message with `data` typed by `eventType`
+ * Discriminated on `eventType`, so checking it narrows `data`:
+ * `if (event.eventType === 'MarketCreated') event.data.dealer`
+ */
+export type SSEEventMessage<E extends SSEEventType = SSEEventType> = {
+  [K in E]: Omit<SSEDataUpdateMessage, 'eventType' | 'data'> & {
+    eventType: K;
+    data: SSEEventDataMap[K];
+  };
+}[E];